@@ -1,25 +1,69 @@
 "use server"
 
-import { createClient } from "@/lib/supabase/server"
-import { generateInterviewQuestions, analyzeResponse, transcribeMedia } from "@/lib/gemini"
+import { createClient, createServiceClient } from "@/lib/supabase/server"
+import { requireProfile, requireUser, UnauthorizedError } from "@/lib/auth"
+import { normalizeJoinCode, visibleCompaniesFilter, visibleQuestionsFilter } from "@/lib/organizations"
+import { generateInterviewQuestions, analyzeResponse, generateFollowUpQuestion } from "@/lib/gemini"
+import { transcribeMedia, type TranscriptWord } from "@/lib/transcription"
+import { selectRubric } from "@/lib/rubrics"
+import { TIME_LIMIT_GRACE_SECONDS } from "@/lib/interview-timing"
+import { withSpeakingRate, type VoiceAnalysis } from "@/lib/voice-analysis"
+import { analyzeDelivery } from "@/lib/delivery-analysis"
+import type { FaceAnalysis } from "@/lib/face-analysis"
 import { revalidatePath } from "next/cache"
 
+const MAX_FOLLOW_UPS_PER_QUESTION = Number(process.env.MAX_FOLLOW_UPS_PER_QUESTION ?? 2)
+const INTERVIEW_INACTIVITY_MINUTES = Number(process.env.INTERVIEW_INACTIVITY_MINUTES ?? 60)
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+// Row-level security already hides other users' rows; these checks give a clear error instead of a silent no-op.
+// Students can only read their interviews and everything under them, so once a check passes the writes go through
+// the service role.
+async function assertInterviewOwner(supabase: SupabaseClient, interviewId: string, userId: string) {
+  const { data: interview } = await supabase
+    .from("interviews")
+    .select("id")
+    .eq("id", interviewId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (!interview) {
+    throw new UnauthorizedError("Interview not found")
+  }
+}
+
+async function assertQuestionOwner(supabase: SupabaseClient, questionId: string, userId: string) {
+  const { data: question } = await supabase.from("questions").select("interview_id").eq("id", questionId).maybeSingle()
+
+  if (!question) {
+    throw new UnauthorizedError("Question not found")
+  }
+
+  await assertInterviewOwner(supabase, question.interview_id, userId)
+  return question.interview_id as string
+}
+
 // Generate interview questions and save them to the database
-export async function generateAndSaveQuestions({
+async function generateAndSaveQuestions({
   interviewId,
   jobRole,
   industry,
   difficulty,
   count = 5,
+  skills = [],
 }: {
   interviewId: string
   jobRole: string
   industry: string | null
   difficulty: string | null
   count?: number
+  skills?: string[] // Keys from lib/skills to focus the questions on
 }) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const user = await requireUser()
+    await assertInterviewOwner(supabase, interviewId, user.id)
 
     // Generate questions using our utility function
     const questions = await generateInterviewQuestions({
@@ -27,17 +71,20 @@ export async function generateAndSaveQuestions({
       industry,
       difficulty,
       count,
+      targetSkills: skills,
     })
 
-    // Insert questions into the database
-    const questionsToInsert = questions.map((question: any, index: number) => ({
+    // Insert questions into the database. The built-in fallback questions come without skills or tags.
+    const questionsToInsert = questions.map((question, index) => ({
       interview_id: interviewId,
       question_text: question.question_text,
       question_type: question.question_type,
       order_number: index + 1,
+      skills: question.skills || [],
+      tags: question.tags || [],
     }))
 
-    const { error } = await supabase.from("questions").insert(questionsToInsert)
+    const { error } = await createServiceClient().from("questions").insert(questionsToInsert)
 
     if (error) {
       throw error
@@ -51,53 +98,93 @@ export async function generateAndSaveQuestions({
 }
 
 // Analyze a response and save feedback to the database
-export async function analyzeAndSaveFeedback({
+async function analyzeAndSaveFeedback({
   responseId,
-  questionText,
   responseText,
   responseType,
-  jobRole,
   mediaUrl,
 }: {
   responseId: string
-  questionText: string
   responseText: string | null
   responseType: "text" | "video" | "audio"
-  jobRole: string
   mediaUrl: string | null
 }) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const serviceClient = createServiceClient()
+    const user = await requireUser()
+
+    const { data: ownedResponse } = await supabase
+      .from("responses")
+      .select("question_id, voice_analysis")
+      .eq("id", responseId)
+      .maybeSingle()
+
+    if (!ownedResponse) {
+      throw new UnauthorizedError("Response not found")
+    }
+
+    await assertQuestionOwner(supabase, ownedResponse.question_id, user.id)
 
     let textToAnalyze = responseText
+    let transcriptWords: TranscriptWord[] = []
 
-    // If it's a video or audio response, transcribe it first
-    if ((responseType === "video" || responseType === "audio") && mediaUrl && !responseText) {
+    // Video and audio answers are always graded on the server-side transcript
+    if ((responseType === "video" || responseType === "audio") && mediaUrl) {
       console.log(`Transcribing ${responseType} from ${mediaUrl}`)
 
       try {
-        textToAnalyze = await transcribeMedia({
+        const transcription = await transcribeMedia({
           mediaUrl,
-          mediaType: responseType === "video" ? "video" : "audio",
+          mediaType: responseType,
         })
 
-        console.log(`Transcription result: ${textToAnalyze?.substring(0, 100)}...`)
-
-        // Update the response with the transcribed text
-        if (textToAnalyze) {
-          const { error: updateError } = await supabase
-            .from("responses")
-            .update({ response_text: textToAnalyze })
-            .eq("id", responseId)
-
-          if (updateError) {
-            console.error("Error updating response with transcribed text:", updateError)
-          }
+        textToAnalyze = transcription.text
+        transcriptWords = transcription.words
+
+        // Store the transcript and word timings on the response, and the speaking rate they give
+        const { error: updateError } = await serviceClient
+          .from("responses")
+          .update({
+            response_text: transcription.text,
+            transcript_words: transcription.words,
+            voice_analysis: withSpeakingRate(ownedResponse.voice_analysis as VoiceAnalysis | null, transcription.words),
+            transcription_status: "completed",
+            transcription_error: null,
+          })
+          .eq("id", responseId)
+
+        if (updateError) {
+          console.error("Error updating response with transcribed text:", updateError)
         }
       } catch (transcriptionError) {
         console.error("Error transcribing media:", transcriptionError)
-        textToAnalyze =
-          "The audio content could not be transcribed. The analysis will be based on general speaking patterns and delivery."
+
+        // Don't grade a transcript we don't have
+        await serviceClient
+          .from("responses")
+          .update({
+            transcription_status: "transcription_failed",
+            transcription_error: (transcriptionError as Error).message,
+          })
+          .eq("id", responseId)
+
+        return {
+          success: false,
+          error: `We couldn't transcribe your ${responseType} response. Please record it again or answer in text.`,
+        }
+      }
+    }
+
+    // Delivery habits come from the final text, with pacing when there are word timings
+    if (textToAnalyze) {
+      const { error: deliveryError } = await serviceClient
+        .from("responses")
+        .update({ delivery_metrics: analyzeDelivery(textToAnalyze, transcriptWords) })
+        .eq("id", responseId)
+
+      if (deliveryError) {
+        console.error("Error saving delivery metrics:", deliveryError)
       }
     }
 
@@ -105,14 +192,87 @@ export async function analyzeAndSaveFeedback({
       textToAnalyze = "No text content was provided for analysis. The feedback will be limited to general observations."
     }
 
+    // Grade against the question as stored, with the rubric for its type, honouring the company's choice if it has one
+    const { data: responseContext } = await supabase
+      .from("responses")
+      .select(
+        "questions(question_text, question_type, source_company_question_id, source_company_question_version, interviews(company_id, job_role))",
+      )
+      .eq("id", responseId)
+      .single()
+
+    const question = responseContext?.questions
+
+    if (!question) {
+      throw new Error("Question not found")
+    }
+    const questionType = question?.question_type ?? null
+    const companyId = question?.interviews?.company_id ?? null
+
+    const { data: companyRubrics } = companyId
+      ? await supabase.from("company_rubrics").select("question_type, rubric_id").eq("company_id", companyId)
+      : { data: [] }
+
+    const rubric = selectRubric(questionType, companyRubrics || [])
+
+    // Company questions may carry a model answer, key points and red flags to grade against. Students can't read
+    // them, so they're loaded with the service role, as they were in the version of the question that was asked.
+    const { data: reference } =
+      question?.source_company_question_id && question.source_company_question_version
+        ? await createServiceClient()
+            .from("company_question_versions")
+            .select("model_answer, key_points, red_flags")
+            .eq("company_question_id", question.source_company_question_id)
+            .eq("version", question.source_company_question_version)
+            .maybeSingle()
+        : { data: null }
+
+    const hasReference = !!(reference?.model_answer || reference?.key_points?.length || reference?.red_flags?.length)
+
     // Analyze the response using our utility function
     const analysis = await analyzeResponse({
-      question: questionText,
+      question: question.question_text,
       response: textToAnalyze,
       responseType,
-      jobRole,
+      jobRole: question.interviews?.job_role ?? "",
+      rubric,
+      reference: hasReference
+        ? {
+            modelAnswer: reference?.model_answer ?? null,
+            keyPoints: reference?.key_points ?? [],
+            redFlags: reference?.red_flags ?? [],
+          }
+        : undefined,
     })
 
+    // An unavailable analysis is stored as such, without a score
+    const feedbackRecord =
+      analysis.analysis_status === "completed"
+        ? {
+            feedback_text: analysis.feedback_text,
+            improvement_areas: analysis.improvement_areas,
+            strengths: analysis.strengths,
+            confidence_score: analysis.confidence_score,
+            rubric_id: analysis.rubric_id,
+            key_points_covered: hasReference ? analysis.key_points_covered : null,
+            key_points_missed: hasReference ? analysis.key_points_missed : null,
+            red_flags_triggered: hasReference ? analysis.red_flags_triggered : null,
+            analysis_status: analysis.analysis_status,
+            analysis_error: null,
+          }
+        : {
+            feedback_text: "Automated analysis is unavailable for this response.",
+            improvement_areas: null,
+            strengths: null,
+            confidence_score: null,
+            rubric_id: null,
+            key_points_covered: null,
+            key_points_missed: null,
+            red_flags_triggered: null,
+            analysis_status: analysis.analysis_status,
+            analysis_error: analysis.analysis_error,
+          }
+
     // Check if feedback already exists for this response
     const { data: existingFeedback } = await supabase
       .from("feedback")
@@ -120,30 +280,51 @@ export async function analyzeAndSaveFeedback({
       .eq("response_id", responseId)
       .single()
 
+    let feedbackId: string
+
     if (existingFeedback) {
       // Update existing feedback
-      const { error } = await supabase
+      const { error } = await serviceClient
         .from("feedback")
-        .update({
-          feedback_text: analysis.feedback_text,
-          improvement_areas: analysis.improvement_areas,
-          strengths: analysis.strengths,
-          confidence_score: analysis.confidence_score,
-        })
+        .update(feedbackRecord)
         .eq("id", existingFeedback.id)
 
       if (error) throw error
+      feedbackId = existingFeedback.id
     } else {
       // Insert new feedback
-      const { error } = await supabase.from("feedback").insert({
-        response_id: responseId,
-        feedback_text: analysis.feedback_text,
-        improvement_areas: analysis.improvement_areas,
-        strengths: analysis.strengths,
-        confidence_score: analysis.confidence_score,
-      })
+      const { data: newFeedback, error } = await serviceClient
+        .from("feedback")
+        .insert({
+          response_id: responseId,
+          ...feedbackRecord,
+        })
+        .select("id")
+        .single()
 
       if (error) throw error
+      feedbackId = newFeedback.id
+    }
+
+    // Replace the per-dimension scores from any previous analysis
+    const { error: deleteScoresError } = await serviceClient
+      .from("feedback_scores")
+      .delete()
+      .eq("feedback_id", feedbackId)
+    if (deleteScoresError) throw deleteScoresError
+
+    if (analysis.analysis_status === "completed") {
+      const { error: scoresError } = await serviceClient.from("feedback_scores").insert(
+        analysis.dimension_scores.map((d) => ({
+          feedback_id: feedbackId,
+          rubric_id: analysis.rubric_id,
+          dimension: d.dimension,
+          score: d.score,
+          justification: d.justification,
+        })),
+      )
+
+      if (scoresError) throw scoresError
     }
 
     return { success: true, analysis }
@@ -156,21 +337,33 @@ export async function analyzeAndSaveFeedback({
 // Create a new interview with generated questions
 export async function createInterviewWithQuestions(formData: FormData) {
   try {
-    const supabase = createClient()
+    const user = await requireUser()
 
     const title = formData.get("title") as string
     const jobRole = formData.get("jobRole") as string
     const industry = formData.get("industry") as string
-    const difficulty = formData.get("difficulty") as string
+    const difficulty = formData.get("difficulty") as "beginner" | "intermediate" | "advanced" | ""
+    const adaptive = formData.get("adaptive") === "true"
+    const skills = formData.getAll("skills").filter((skill): skill is string => typeof skill === "string")
+
+    // Templates may come with time limits; empty fields mean untimed
+    const answerTimeLimitSeconds = Number(formData.get("answerTimeLimitSeconds")) || null
+    const prepTimeSeconds = Number(formData.get("prepTimeSeconds")) || null
+    const timeLimitMinutes = Number(formData.get("timeLimitMinutes")) || null
 
     // Insert the interview
-    const { data: interview, error: insertError } = await supabase
+    const { data: interview, error: insertError } = await createServiceClient()
       .from("interviews")
       .insert({
+        user_id: user.id,
         title,
         job_role: jobRole,
         industry: industry || null,
         difficulty: difficulty || null,
+        adaptive,
+        answer_time_limit_seconds: answerTimeLimitSeconds,
+        prep_time_seconds: prepTimeSeconds,
+        time_limit_minutes: timeLimitMinutes,
         status: "in_progress",
       })
       .select()
@@ -184,6 +377,7 @@ export async function createInterviewWithQuestions(formData: FormData) {
       jobRole,
       industry: industry || null,
       difficulty: difficulty || null,
+      skills,
     })
 
     if (!result.success) {
@@ -204,21 +398,50 @@ export async function saveResponseWithFeedback({
   responseType,
   responseText,
   mediaUrl,
-  questionText,
-  jobRole,
+  voiceAnalysis = null,
+  faceAnalysis = null,
 }: {
   questionId: string
   responseType: "text" | "video" | "audio"
   responseText: string | null
   mediaUrl: string | null
-  questionText: string
-  jobRole: string
+  voiceAnalysis?: VoiceAnalysis | null
+  faceAnalysis?: FaceAnalysis | null
 }) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const user = await requireUser()
+    await assertQuestionOwner(supabase, questionId, user.id)
 
     console.log(`Saving ${responseType} response for question ${questionId}`)
 
+    // Time is measured on the server from when the question was first shown
+    const { data: timedQuestion } = await supabase
+      .from("questions")
+      .select("started_at, interview_id, interviews(answer_time_limit_seconds, prep_time_seconds, deadline_at)")
+      .eq("id", questionId)
+      .single()
+
+    if (timedQuestion) {
+      await touchInterview(timedQuestion.interview_id)
+    }
+
+    const now = Date.now()
+    const deadlineAt = timedQuestion?.interviews?.deadline_at
+
+    if (deadlineAt && now > new Date(deadlineAt).getTime() + TIME_LIMIT_GRACE_SECONDS * 1000) {
+      return { success: false, error: "Time is up for this interview, so this answer can no longer be submitted." }
+    }
+
+    const timeSpentSeconds = timedQuestion?.started_at
+      ? Math.round((now - new Date(timedQuestion.started_at).getTime()) / 1000)
+      : null
+    const answerLimit = timedQuestion?.interviews?.answer_time_limit_seconds
+    const overTimeLimit =
+      !!answerLimit &&
+      timeSpentSeconds !== null &&
+      timeSpentSeconds > answerLimit + (timedQuestion?.interviews?.prep_time_seconds || 0) + TIME_LIMIT_GRACE_SECONDS
+
     // Check if a response already exists for this question
     const { data: existingResponse } = await supabase
       .from("responses")
@@ -230,12 +453,20 @@ export async function saveResponseWithFeedback({
 
     if (existingResponse) {
       // Update existing response
-      const { error } = await supabase
+      const { error } = await createServiceClient()
         .from("responses")
         .update({
           response_type: responseType,
           response_text: responseText,
           media_url: mediaUrl,
+          transcript_words: null,
+          voice_analysis: voiceAnalysis,
+          face_analysis: faceAnalysis,
+          delivery_metrics: null,
+          transcription_status: mediaUrl ? "pending" : null,
+          transcription_error: null,
+          time_spent_seconds: timeSpentSeconds,
+          over_time_limit: overTimeLimit,
         })
         .eq("id", existingResponse.id)
 
@@ -243,13 +474,18 @@ export async function saveResponseWithFeedback({
       responseId = existingResponse.id
     } else {
       // Insert new response
-      const { data: newResponse, error } = await supabase
+      const { data: newResponse, error } = await createServiceClient()
         .from("responses")
         .insert({
           question_id: questionId,
           response_type: responseType,
           response_text: responseText,
           media_url: mediaUrl,
+          voice_analysis: voiceAnalysis,
+          face_analysis: faceAnalysis,
+          transcription_status: mediaUrl ? "pending" : null,
+          time_spent_seconds: timeSpentSeconds,
+          over_time_limit: overTimeLimit,
         })
         .select()
         .single()
@@ -261,10 +497,8 @@ export async function saveResponseWithFeedback({
     // Generate and save feedback
     const result = await analyzeAndSaveFeedback({
       responseId,
-      questionText,
       responseText,
       responseType,
-      jobRole,
       mediaUrl,
     })
 
@@ -279,18 +513,273 @@ export async function saveResponseWithFeedback({
   }
 }
 
+// Record that the candidate is still working on an interview
+async function touchInterview(interviewId: string) {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase
+    .from("interviews")
+    .update({ last_activity_at: new Date().toISOString() })
+    .eq("id", interviewId)
+    .eq("status", "in_progress")
+
+  if (error) {
+    console.error("Error recording interview activity:", error)
+  }
+}
+
+// Mark in-progress interviews with no activity for INTERVIEW_INACTIVITY_MINUTES as abandoned.
+// Interviews that were never started fall back to their creation time.
+export async function abandonInactiveInterviews() {
+  try {
+    const supabase = createServiceClient()
+    const user = await requireUser()
+    const cutoff = new Date(Date.now() - INTERVIEW_INACTIVITY_MINUTES * 60 * 1000).toISOString()
+
+    const { data, error } = await supabase
+      .from("interviews")
+      .update({ status: "abandoned" })
+      .eq("user_id", user.id)
+      .eq("status", "in_progress")
+      .or(`last_activity_at.lt.${cutoff},and(last_activity_at.is.null,created_at.lt.${cutoff})`)
+      .select("id")
+
+    if (error) throw error
+
+    return { success: true, abandonedCount: data?.length || 0 }
+  } catch (error) {
+    console.error("Error abandoning inactive interviews:", error)
+    return { success: false, error: (error as Error).message, abandonedCount: 0 }
+  }
+}
+
+// Start the clock for a question the first time it is shown. The interview's overall deadline starts with its
+// first question. Both are only ever set once, so reloading the page doesn't buy extra time.
+export async function startQuestion(questionId: string) {
+  try {
+    const supabase = await createClient()
+    const user = await requireUser()
+    await assertQuestionOwner(supabase, questionId, user.id)
+    const serviceClient = createServiceClient()
+    const now = new Date()
+
+    await serviceClient
+      .from("questions")
+      .update({ started_at: now.toISOString() })
+      .eq("id", questionId)
+      .is("started_at", null)
+
+    const { data: question, error } = await supabase
+      .from("questions")
+      .select("started_at, interview_id, interviews(time_limit_minutes, started_at, deadline_at)")
+      .eq("id", questionId)
+      .single()
+
+    if (error) throw error
+
+    await touchInterview(question.interview_id)
+
+    let deadlineAt = question.interviews?.deadline_at ?? null
+
+    if (!question.interviews?.started_at) {
+      const limit = question.interviews?.time_limit_minutes
+      deadlineAt = limit ? new Date(now.getTime() + limit * 60 * 1000).toISOString() : null
+
+      const { data: interview } = await serviceClient
+        .from("interviews")
+        .update({ started_at: now.toISOString(), deadline_at: deadlineAt })
+        .eq("id", question.interview_id)
+        .is("started_at", null)
+        .select("deadline_at")
+        .maybeSingle()
+
+      // Another tab may have started the interview first
+      if (!interview) {
+        const { data: existing } = await supabase
+          .from("interviews")
+          .select("deadline_at")
+          .eq("id", question.interview_id)
+          .single()
+        deadlineAt = existing?.deadline_at ?? null
+      }
+    }
+
+    // The client corrects its countdowns for clock skew using serverTime
+    return { success: true, startedAt: question.started_at as string, deadlineAt, serverTime: new Date().toISOString() }
+  } catch (error) {
+    console.error("Error starting question:", error)
+    return { success: false, error: (error as Error).message }
+  }
+}
+
+// In adaptive interviews, ask the LLM whether to drill down on the answer just given and insert the follow-up
+// right after the current question. Follow-ups point at the original question so the cap covers the whole thread.
+export async function addFollowUpQuestion(questionId: string) {
+  try {
+    const supabase = await createClient()
+    const user = await requireUser()
+    await assertQuestionOwner(supabase, questionId, user.id)
+
+    const { data: question, error: questionError } = await supabase
+      .from("questions")
+      .select("*, interviews(job_role, adaptive)")
+      .eq("id", questionId)
+      .single()
+
+    if (questionError) throw questionError
+
+    if (!question.interviews?.adaptive) {
+      return { success: true, followUp: null }
+    }
+
+    const rootId = question.parent_question_id || question.id
+
+    // The original question plus its follow-ups, up to the one just answered
+    const { data: thread, error: threadError } = await supabase
+      .from("questions")
+      .select("id, question_text, question_type, order_number, responses(response_text)")
+      .or(`id.eq.${rootId},parent_question_id.eq.${rootId}`)
+      .lte("order_number", question.order_number)
+      .order("order_number", { ascending: true })
+
+    if (threadError) throw threadError
+
+    if (thread.length - 1 >= MAX_FOLLOW_UPS_PER_QUESTION) {
+      return { success: true, followUp: null }
+    }
+
+    const turns = thread
+      .filter((q) => q.responses?.[0]?.response_text)
+      .map((q) => ({ question: q.question_text, answer: q.responses[0].response_text as string }))
+
+    if (turns.length === 0 || thread[thread.length - 1].id !== question.id) {
+      return { success: true, followUp: null }
+    }
+
+    const decision = await generateFollowUpQuestion({ jobRole: question.interviews.job_role, thread: turns })
+
+    if (!decision?.ask_follow_up || !decision.question_text) {
+      return { success: true, followUp: null }
+    }
+
+    // Slot the follow-up between this question and the next one
+    const { data: nextQuestion } = await supabase
+      .from("questions")
+      .select("order_number")
+      .eq("interview_id", question.interview_id)
+      .gt("order_number", question.order_number)
+      .order("order_number", { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    const orderNumber = nextQuestion
+      ? (question.order_number + nextQuestion.order_number) / 2
+      : question.order_number + 1
+
+    const { data: followUp, error: insertError } = await createServiceClient()
+      .from("questions")
+      .insert({
+        interview_id: question.interview_id,
+        question_text: decision.question_text,
+        question_type: thread[0].question_type,
+        order_number: orderNumber,
+        parent_question_id: rootId,
+      })
+      .select()
+      .single()
+
+    if (insertError) throw insertError
+
+    return { success: true, followUp }
+  } catch (error) {
+    console.error("Error adding follow-up question:", error)
+    return { success: false, error: (error as Error).message, followUp: null }
+  }
+}
+
+// Score each graded answer in a completed interview and award its XP: 1 XP for every 10 points
+async function recordPerformance(supabase: SupabaseClient, interviewId: string, studentId: string) {
+  try {
+    const { data: questions, error } = await supabase
+      .from("questions")
+      .select("id, responses(feedback(confidence_score, feedback_text))")
+      .eq("interview_id", interviewId)
+
+    if (error) throw error
+
+    const performance = (questions || []).flatMap((question) => {
+      const feedback = question.responses[0]?.feedback[0]
+
+      // Skip unanswered questions and responses whose analysis was unavailable
+      if (!feedback || feedback.confidence_score === null) return []
+
+      const score = Math.round(Number(feedback.confidence_score) * 100)
+      return [
+        {
+          student_id: studentId,
+          interview_id: interviewId,
+          question_id: question.id,
+          score,
+          feedback: feedback.feedback_text,
+          xp_earned: Math.floor(score / 10),
+        },
+      ]
+    })
+
+    if (performance.length === 0) return
+
+    const { error: performanceError } = await supabase.from("student_performance").insert(performance)
+    if (performanceError) throw performanceError
+
+    const xpEarned = performance.reduce((sum, entry) => sum + entry.xp_earned, 0)
+
+    const { data: existingXP } = await supabase
+      .from("student_xp")
+      .select("total_xp")
+      .eq("student_id", studentId)
+      .maybeSingle()
+
+    const totalXP = (existingXP?.total_xp || 0) + xpEarned
+    const level = Math.floor(totalXP / 1000) + 1 // Level up every 1000 XP
+
+    const { error: xpError } = existingXP
+      ? await supabase
+          .from("student_xp")
+          .update({ total_xp: totalXP, level, updated_at: new Date().toISOString() })
+          .eq("student_id", studentId)
+      : await supabase.from("student_xp").insert({ student_id: studentId, total_xp: totalXP, level })
+
+    if (xpError) throw xpError
+  } catch (error) {
+    console.error("Error recording performance:", error)
+  }
+}
+
 // Complete an interview
 export async function completeInterview(interviewId: string) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const user = await requireUser()
+    await assertInterviewOwner(supabase, interviewId, user.id)
+    const serviceClient = createServiceClient()
 
-    await supabase
+    // Only the call that completes the interview records its performance, so finishing twice doesn't count twice
+    const { data: completed, error } = await serviceClient
       .from("interviews")
       .update({
         status: "completed",
         completed_at: new Date().toISOString(),
       })
       .eq("id", interviewId)
+      .neq("status", "completed")
+      .select("id")
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (completed) {
+      await recordPerformance(serviceClient, interviewId, user.id)
+    }
 
     revalidatePath(`/interviews/${interviewId}`)
     revalidatePath(`/interviews/${interviewId}/results`)
@@ -310,12 +799,14 @@ export async function createCompanyInterview({
   title,
   jobRole,
   industry,
+  adaptive = false,
 }: {
   companyId: string
   experienceLevel: "fresher" | "1-3-years" | "3-plus-years"
   title: string
   jobRole: string
   industry: string
+  adaptive?: boolean
 }) {
   try {
     console.log("Creating company interview with params:", {
@@ -326,13 +817,15 @@ export async function createCompanyInterview({
       industry,
     })
 
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user, organizationId } = await requireProfile()
 
-    // First, verify the company exists
+    // First, verify the company exists and is in this user's catalog
     const { data: company, error: companyError } = await supabase
       .from("companies")
-      .select("id, name")
+      .select("id, name, answer_time_limit_seconds, prep_time_seconds, time_limit_minutes")
       .eq("id", companyId)
+      .or(visibleCompaniesFilter(organizationId))
       .single()
 
     if (companyError) {
@@ -347,14 +840,20 @@ export async function createCompanyInterview({
     console.log("Found company:", company)
 
     // Insert the interview
-    const { data: interview, error: insertError } = await supabase
+    const { data: interview, error: insertError } = await createServiceClient()
       .from("interviews")
       .insert({
+        user_id: user.id,
         title,
         job_role: jobRole,
         industry: industry || null,
         company_id: companyId,
         experience_level: experienceLevel,
+        adaptive,
+        // Company tests carry the company's timing rules
+        answer_time_limit_seconds: company.answer_time_limit_seconds,
+        prep_time_seconds: company.prep_time_seconds,
+        time_limit_minutes: company.time_limit_minutes,
         status: "in_progress",
       })
       .select()
@@ -367,12 +866,14 @@ export async function createCompanyInterview({
 
     console.log("Created interview:", interview)
 
-    // Fetch company-specific questions for the experience level
-    const { data: companyQuestions, error: questionsError } = await supabase
+    // Fetch company-specific questions for the experience level. The bank isn't readable by students, and its
+    // reference material stays there for the grader.
+    const { data: companyQuestions, error: questionsError } = await createServiceClient()
       .from("company_questions")
-      .select("*")
+      .select("id, question_text, question_type, order_number, tags, skills, version")
       .eq("company_id", companyId)
       .eq("experience_level", experienceLevel)
+      .or(visibleQuestionsFilter(organizationId))
       .order("order_number", { ascending: true })
 
     if (questionsError) {
@@ -404,11 +905,16 @@ export async function createCompanyInterview({
         question_text: question.question_text,
         question_type: question.question_type,
         order_number: question.order_number,
+        tags: question.tags,
+        skills: question.skills,
+        // Trace the interview question back to the exact version asked, so performance can be compared across edits
+        source_company_question_id: question.id,
+        source_company_question_version: question.version,
       }))
 
-      console.log("Inserting company questions:", questionsToInsert)
+      console.log(`Inserting ${questionsToInsert.length} company questions`)
 
-      const { error: insertQuestionsError } = await supabase.from("questions").insert(questionsToInsert)
+      const { error: insertQuestionsError } = await createServiceClient().from("questions").insert(questionsToInsert)
 
       if (insertQuestionsError) {
         console.error("Error inserting questions:", insertQuestionsError)
@@ -432,9 +938,14 @@ export async function createCompanyInterview({
 // Fetch companies for the company selector
 export async function fetchCompanies() {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { organizationId } = await requireProfile()
 
-    const { data: companies, error } = await supabase.from("companies").select("*").order("name", { ascending: true })
+    const { data: companies, error } = await supabase
+      .from("companies")
+      .select("*")
+      .or(visibleCompaniesFilter(organizationId))
+      .order("name", { ascending: true })
 
     if (error) {
       throw error
@@ -447,16 +958,26 @@ export async function fetchCompanies() {
   }
 }
 
+// What students see of a company question. Only recruiters and admins can read the bank, since it holds the
+// reference material answers are graded against, so student reads go through the service role with these columns.
+const STUDENT_QUESTION_COLUMNS =
+  "id, company_id, question_text, question_type, experience_level, order_number, tags, skills"
+
 // Fetch company questions for a specific company and experience level
-export async function fetchCompanyQuestions(companyId: string, experienceLevel: string) {
+export async function fetchCompanyQuestions(
+  companyId: string,
+  experienceLevel: "fresher" | "1-3-years" | "3-plus-years",
+) {
   try {
-    const supabase = createClient()
+    const { organizationId } = await requireProfile()
+    const supabase = createServiceClient()
 
     const { data: questions, error } = await supabase
       .from("company_questions")
-      .select("*")
+      .select(STUDENT_QUESTION_COLUMNS)
       .eq("company_id", companyId)
       .eq("experience_level", experienceLevel)
+      .or(visibleQuestionsFilter(organizationId))
       .order("order_number", { ascending: true })
 
     if (error) {
@@ -469,3 +990,155 @@ export async function fetchCompanyQuestions(companyId: string, experienceLevel:
     return { success: false, error: (error as Error).message, questions: [] }
   }
 }
+
+// Fetch every question the user's organization can practice with, for the question bank
+export async function fetchQuestionBank() {
+  try {
+    const { organizationId } = await requireProfile()
+    const supabase = createServiceClient()
+
+    const { data: questions, error } = await supabase
+      .from("company_questions")
+      .select(`${STUDENT_QUESTION_COLUMNS}, companies(name, industry)`)
+      .or(visibleQuestionsFilter(organizationId))
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      throw error
+    }
+
+    return { success: true, questions: questions || [] }
+  } catch (error) {
+    console.error("Error fetching question bank:", error)
+    return { success: false, error: (error as Error).message, questions: [] }
+  }
+}
+
+// Fetch the recruiter-uploaded questions behind the available company tests
+export async function fetchTestQuestions() {
+  try {
+    const { organizationId } = await requireProfile()
+    const supabase = createServiceClient()
+
+    const { data: questions, error } = await supabase
+      .from("company_questions")
+      .select("company_id, experience_level, question_type, companies(name, logo_url, industry)")
+      .not("recruiter_id", "is", null) // Only show recruiter-uploaded questions
+      .or(visibleQuestionsFilter(organizationId)) // This organization's tests plus shared ones
+
+    if (error) {
+      throw error
+    }
+
+    return { success: true, questions: questions || [] }
+  } catch (error) {
+    console.error("Error fetching test questions:", error)
+    return { success: false, error: (error as Error).message, questions: [] }
+  }
+}
+
+// Join an organization with a join code (as a student) or an email invitation (with the invited role)
+export async function joinOrganization({ joinCode, token }: { joinCode?: string; token?: string }) {
+  try {
+    const { user, organizationId } = await requireProfile()
+
+    if (organizationId) {
+      throw new Error("You already belong to an organization")
+    }
+
+    // Join codes and invitations aren't readable by outsiders, so look them up with the service role
+    const supabase = createServiceClient()
+
+    if (token) {
+      const { data: invitation } = await supabase
+        .from("organization_invitations")
+        .select("id, organization_id, email, role, invited_by, accepted_at, expires_at")
+        .eq("token", token)
+        .maybeSingle()
+
+      if (
+        !invitation ||
+        !invitation.invited_by ||
+        invitation.accepted_at ||
+        new Date(invitation.expires_at).getTime() < Date.now()
+      ) {
+        throw new Error("This invitation is invalid or has expired")
+      }
+
+      if (invitation.email.toLowerCase() !== user.email?.toLowerCase()) {
+        throw new Error(`This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`)
+      }
+
+      // The invitation is only as good as its sender: they must still be an admin there, and only the
+      // organization's owner can invite admins
+      const [{ data: inviter }, { data: organization }] = await Promise.all([
+        supabase.from("profiles").select("role, organization_id").eq("id", invitation.invited_by).maybeSingle(),
+        supabase.from("organizations").select("created_by").eq("id", invitation.organization_id).maybeSingle(),
+      ])
+
+      if (
+        inviter?.role !== "admin" ||
+        inviter.organization_id !== invitation.organization_id ||
+        (invitation.role === "admin" && organization?.created_by !== invitation.invited_by)
+      ) {
+        throw new Error("This invitation is no longer valid. Ask your organization for a new one.")
+      }
+
+      // Claim the invitation before using it, so the same link can't be accepted twice
+      const acceptedAt = new Date().toISOString()
+      const { data: claimed, error: claimError } = await supabase
+        .from("organization_invitations")
+        .update({ accepted_at: acceptedAt })
+        .eq("id", invitation.id)
+        .is("accepted_at", null)
+        .gt("expires_at", acceptedAt)
+        .select("id")
+        .maybeSingle()
+
+      if (claimError) throw claimError
+      if (!claimed) {
+        throw new Error("This invitation is invalid or has expired")
+      }
+
+      const { error: profileError } = await supabase
+        .from("profiles")
+        .update({ organization_id: invitation.organization_id, role: invitation.role })
+        .eq("id", user.id)
+
+      if (profileError) {
+        await supabase.from("organization_invitations").update({ accepted_at: null }).eq("id", invitation.id)
+        throw profileError
+      }
+
+      revalidatePath("/", "layout")
+      return { success: true, role: invitation.role }
+    }
+
+    if (!joinCode) {
+      throw new Error("Enter a join code")
+    }
+
+    const { data: organization } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("join_code", normalizeJoinCode(joinCode))
+      .maybeSingle()
+
+    if (!organization) {
+      throw new Error("No organization matches that join code")
+    }
+
+    const { error: profileError } = await supabase
+      .from("profiles")
+      .update({ organization_id: organization.id })
+      .eq("id", user.id)
+
+    if (profileError) throw profileError
+
+    revalidatePath("/", "layout")
+    return { success: true, role: null }
+  } catch (error) {
+    console.error("Error joining organization:", error)
+    return { success: false, error: (error as Error).message }
+  }
+}
@@ -0,0 +1,547 @@
+"use server"
+
+import { createServiceClient } from "@/lib/supabase/server"
+import { requireRole, UnauthorizedError } from "@/lib/auth"
+import { ROLES, type Role } from "@/lib/roles"
+import { generateJoinCode, INVITATION_TTL_DAYS } from "@/lib/organizations"
+import { defaultRubricByQuestionType, getRubricById, type QuestionType } from "@/lib/rubrics"
+import { timingToRow, untimed, type InterviewTiming } from "@/lib/interview-timing"
+import { revalidatePath } from "next/cache"
+
+// Admins may only manage people in their own organization
+async function assertSameOrganization(
+  supabase: ReturnType<typeof createServiceClient>,
+  userId: string,
+  organizationId: string | null,
+) {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, organization_id")
+    .eq("id", userId)
+    .maybeSingle()
+
+  if (!profile || !organizationId || profile.organization_id !== organizationId) {
+    throw new UnauthorizedError("User not found in your organization")
+  }
+
+  return profile
+}
+
+// Admin rights are only handed out by the organization's owner, the admin who created it
+async function assertOrganizationOwner(
+  supabase: ReturnType<typeof createServiceClient>,
+  userId: string,
+  organizationId: string,
+) {
+  const { data: organization } = await supabase
+    .from("organizations")
+    .select("created_by")
+    .eq("id", organizationId)
+    .maybeSingle()
+
+  if (!organization || organization.created_by !== userId) {
+    throw new UnauthorizedError("Only the organization's owner can make someone an admin")
+  }
+}
+
+// The admin's organization with its join code and outstanding invitations
+export async function fetchOrganization() {
+  try {
+    const { user, organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      return { success: true, organization: null, invitations: [] }
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: organization, error } = await supabase
+      .from("organizations")
+      .select("id, name, join_code, created_by")
+      .eq("id", organizationId)
+      .single()
+
+    if (error) throw error
+
+    const { data: invitations, error: invitationsError } = await supabase
+      .from("organization_invitations")
+      .select("id, email, role, token, expires_at, created_at")
+      .eq("organization_id", organizationId)
+      .is("accepted_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false })
+
+    if (invitationsError) throw invitationsError
+
+    return {
+      success: true,
+      organization: { ...organization, isOwner: organization.created_by === user.id },
+      invitations: invitations || [],
+    }
+  } catch (error) {
+    console.error("Error fetching organization:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      organization: null,
+      invitations: [],
+    }
+  }
+}
+
+// An admin outside any organization starts one and becomes its first member
+export async function createOrganization(name: string) {
+  try {
+    const { user, organizationId } = await requireRole("admin")
+
+    if (organizationId) {
+      throw new Error("You already belong to an organization")
+    }
+
+    if (!name.trim()) {
+      throw new Error("Enter a name for the organization")
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: organization, error } = await supabase
+      .from("organizations")
+      .insert({ name: name.trim(), join_code: generateJoinCode(), created_by: user.id })
+      .select("id")
+      .single()
+
+    if (error) throw error
+
+    const { error: profileError } = await supabase
+      .from("profiles")
+      .update({ organization_id: organization.id })
+      .eq("id", user.id)
+
+    if (profileError) throw profileError
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error creating organization:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Invalidate the old join code, e.g. after it was shared too widely
+export async function regenerateJoinCode() {
+  try {
+    const { organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      throw new Error("Create an organization first")
+    }
+
+    const supabase = createServiceClient()
+    const joinCode = generateJoinCode()
+
+    const { error } = await supabase.from("organizations").update({ join_code: joinCode }).eq("id", organizationId)
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true, joinCode }
+  } catch (error) {
+    console.error("Error regenerating join code:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Record an invitation and email a sign-up link. Existing accounts can't be emailed through Supabase Auth,
+// so the invite link is also returned for the admin to share directly.
+export async function inviteMember(email: string, role: Role) {
+  try {
+    const { user, organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      throw new Error("Create an organization first")
+    }
+
+    if (!ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`)
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+    if (!/^[^\s@]+@[^\s@]+$/.test(normalizedEmail)) {
+      throw new Error("Enter a valid email address")
+    }
+
+    const supabase = createServiceClient()
+
+    if (role === "admin") {
+      await assertOrganizationOwner(supabase, user.id, organizationId)
+    }
+
+    // One live invitation per address, so an earlier link stops working once a new one is sent
+    const { error: replaceError } = await supabase
+      .from("organization_invitations")
+      .delete()
+      .eq("organization_id", organizationId)
+      .eq("email", normalizedEmail)
+      .is("accepted_at", null)
+
+    if (replaceError) throw replaceError
+
+    const { data: invitation, error } = await supabase
+      .from("organization_invitations")
+      .insert({
+        organization_id: organizationId,
+        email: normalizedEmail,
+        role,
+        invited_by: user.id,
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select("token")
+      .single()
+
+    if (error) throw error
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"
+    const inviteUrl = `${siteUrl}/join?token=${invitation.token}`
+
+    const { error: emailError } = await supabase.auth.admin.inviteUserByEmail(normalizedEmail, {
+      redirectTo: inviteUrl,
+    })
+
+    if (emailError) {
+      console.warn(`Invitation email not sent to ${normalizedEmail}: ${emailError.message}`)
+    }
+
+    revalidatePath("/admin")
+    return { success: true, inviteUrl, emailSent: !emailError }
+  } catch (error) {
+    console.error("Error inviting member:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+export async function revokeInvitation(invitationId: string) {
+  try {
+    const { organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      throw new Error("Create an organization first")
+    }
+
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from("organization_invitations")
+      .delete()
+      .eq("id", invitationId)
+      .eq("organization_id", organizationId)
+
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error revoking invitation:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Every member of the admin's organization with their role and the companies they recruit for
+export async function fetchUsers() {
+  try {
+    const { organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      return { success: true, users: [] }
+    }
+
+    // Assignments of other members are hidden by row-level security, so read with the service role
+    const supabase = createServiceClient()
+
+    const { data: users, error } = await supabase
+      .from("profiles")
+      .select("id, email, full_name, role, created_at, company_recruiters(company_id)")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return { success: true, users: users || [] }
+  } catch (error) {
+    console.error("Error fetching users:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      users: [],
+    }
+  }
+}
+
+export async function updateUserRole(userId: string, role: Role) {
+  try {
+    const { user, organizationId } = await requireRole("admin")
+
+    if (!ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`)
+    }
+
+    // Keep at least the acting admin able to get back in here
+    if (userId === user.id && role !== "admin") {
+      throw new UnauthorizedError("You can't remove your own admin role")
+    }
+
+    const supabase = createServiceClient()
+    const profile = await assertSameOrganization(supabase, userId, organizationId)
+
+    if (role === "admin" && profile.role !== "admin") {
+      await assertOrganizationOwner(supabase, user.id, organizationId!)
+    }
+
+    const { error } = await supabase.from("profiles").update({ role }).eq("id", userId)
+    if (error) throw error
+
+    // Company assignments only mean something for recruiters
+    if (role === "student") {
+      const { error: unassignError } = await supabase.from("company_recruiters").delete().eq("user_id", userId)
+      if (unassignError) throw unassignError
+    }
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error updating user role:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+export async function assignRecruiterToCompany(userId: string, companyId: string) {
+  try {
+    const { organizationId } = await requireRole("admin")
+    const supabase = createServiceClient()
+
+    const profile = await assertSameOrganization(supabase, userId, organizationId)
+
+    // Shared catalog companies have no organization; anything else must be this organization's
+    const { data: company } = await supabase
+      .from("companies")
+      .select("organization_id")
+      .eq("id", companyId)
+      .maybeSingle()
+
+    if (!company || (company.organization_id && company.organization_id !== organizationId)) {
+      throw new Error("Company not found")
+    }
+
+    if (profile.role === "student") {
+      throw new Error("Make this user a recruiter before assigning companies")
+    }
+
+    const { error } = await supabase
+      .from("company_recruiters")
+      .upsert({ company_id: companyId, user_id: userId }, { onConflict: "company_id,user_id", ignoreDuplicates: true })
+
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error assigning recruiter:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+export async function removeRecruiterFromCompany(userId: string, companyId: string) {
+  try {
+    const { organizationId } = await requireRole("admin")
+    const supabase = createServiceClient()
+    await assertSameOrganization(supabase, userId, organizationId)
+
+    const { error } = await supabase
+      .from("company_recruiters")
+      .delete()
+      .eq("company_id", companyId)
+      .eq("user_id", userId)
+
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error removing recruiter assignment:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Rubric choices and time limits can only be set for the organization's own companies, not the shared catalog
+async function assertOrganizationCompany(
+  supabase: ReturnType<typeof createServiceClient>,
+  companyId: string,
+  organizationId: string | null,
+) {
+  const { data: company } = await supabase
+    .from("companies")
+    .select("organization_id")
+    .eq("id", companyId)
+    .maybeSingle()
+
+  if (!company || !organizationId || company.organization_id !== organizationId) {
+    throw new Error("Company not found in your organization")
+  }
+}
+
+export async function fetchCompanyRubrics(companyId: string) {
+  try {
+    const { organizationId } = await requireRole("admin")
+    const supabase = createServiceClient()
+    await assertOrganizationCompany(supabase, companyId, organizationId)
+
+    const { data: companyRubrics, error } = await supabase
+      .from("company_rubrics")
+      .select("question_type, rubric_id")
+      .eq("company_id", companyId)
+
+    if (error) throw error
+
+    return { success: true, companyRubrics: companyRubrics || [] }
+  } catch (error) {
+    console.error("Error fetching company rubrics:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      companyRubrics: [],
+    }
+  }
+}
+
+// Choose the rubric a company's answers of one question type are graded with. A null question type sets
+// the company-wide fallback, and a null rubric clears the choice so the default applies again.
+export async function setCompanyRubric(companyId: string, questionType: QuestionType | null, rubricId: string | null) {
+  try {
+    const { organizationId } = await requireRole("admin")
+    const supabase = createServiceClient()
+    await assertOrganizationCompany(supabase, companyId, organizationId)
+
+    if (questionType !== null && !(questionType in defaultRubricByQuestionType)) {
+      throw new Error("Unknown question type")
+    }
+
+    if (rubricId === null) {
+      const query = supabase.from("company_rubrics").delete().eq("company_id", companyId)
+      const { error } = await (questionType ? query.eq("question_type", questionType) : query.is("question_type", null))
+      if (error) throw error
+    } else {
+      if (!getRubricById(rubricId)) {
+        throw new Error("Unknown rubric")
+      }
+
+      const { error } = await supabase
+        .from("company_rubrics")
+        .upsert(
+          { company_id: companyId, question_type: questionType, rubric_id: rubricId },
+          { onConflict: "company_id,question_type" },
+        )
+      if (error) throw error
+    }
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error updating company rubric:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Admins build their organization's own company catalog alongside the shared one. The timing applies to
+// every test taken for the company.
+export async function createCompany({
+  name,
+  industry,
+  description,
+  timing = untimed,
+}: {
+  name: string
+  industry?: string
+  description?: string
+  timing?: InterviewTiming
+}) {
+  try {
+    const { organizationId } = await requireRole("admin")
+
+    if (!organizationId) {
+      throw new Error("Create an organization before adding companies")
+    }
+
+    if (!name.trim()) {
+      throw new Error("Enter a name for the company")
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: company, error } = await supabase
+      .from("companies")
+      .insert({
+        name: name.trim(),
+        industry: industry?.trim() || null,
+        description: description?.trim() || null,
+        ...timingToRow(timing),
+        organization_id: organizationId,
+      })
+      .select("id")
+      .single()
+
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true, companyId: company.id }
+  } catch (error) {
+    console.error("Error creating company:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Change the time limits of an organization company's tests; interviews already started keep theirs
+export async function updateCompanyTiming(companyId: string, timing: InterviewTiming) {
+  try {
+    const { organizationId } = await requireRole("admin")
+    const supabase = createServiceClient()
+    await assertOrganizationCompany(supabase, companyId, organizationId)
+
+    const { error } = await supabase.from("companies").update(timingToRow(timing)).eq("id", companyId)
+
+    if (error) throw error
+
+    revalidatePath("/admin")
+    return { success: true }
+  } catch (error) {
+    console.error("Error updating company timing:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { UserManagement } from "@/components/admin/user-management"
+import { OrganizationSettings } from "@/components/admin/organization-settings"
+import { CompanyRubrics } from "@/components/admin/company-rubrics"
+import { CompanyCatalog } from "@/components/admin/company-catalog"
+import { fetchCompanies } from "@/app/actions"
+import type { Database } from "@/types/supabase"
+
+type Company = Database["public"]["Tables"]["companies"]["Row"]
+
+export default function AdminDashboard() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  // Bumped when the organization changes so the member list reloads
+  const [organizationVersion, setOrganizationVersion] = useState(0)
+
+  useEffect(() => {
+    loadCompanies()
+  }, [])
+
+  const loadCompanies = async () => {
+    const result = await fetchCompanies()
+    if (result.success) {
+      setCompanies(result.companies)
+    }
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Institution Admin</h1>
+        <p className="text-muted-foreground">Manage who can practice, recruit and administer.</p>
+      </div>
+
+      <div className="mb-6">
+        <OrganizationSettings
+          onOrganizationChange={() => {
+            setOrganizationVersion((version) => version + 1)
+            loadCompanies()
+          }}
+        />
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Companies</CardTitle>
+          <CardDescription>
+            Add the companies your students prepare for and set the time limits of their tests. They appear alongside
+            the shared catalog, and recruiters assigned to them can build their question banks.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CompanyCatalog companies={companies.filter((company) => company.organization_id)} onChange={loadCompanies} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Promote users to recruiter or admin, and choose which companies each recruiter manages questions for.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <UserManagement key={organizationVersion} companies={companies} />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Grading Rubrics</CardTitle>
+          <CardDescription>
+            Choose the rubric answers are graded with for each of your organization's companies. Shared catalog
+            companies use the default rubric for each question type.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CompanyRubrics companies={companies.filter((company) => company.organization_id)} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { fetchRecruiterQuestions } from "@/app/recruiter/actions"
+import { getCurrentProfile } from "@/lib/auth"
+import {
+  filterQuestions,
+  questionsToCSV,
+  questionsToJSON,
+  questionsToMarkdown,
+  type ExportFormat,
+  type ExportableQuestion,
+} from "@/lib/question-export"
+
+const contentTypes: Record<ExportFormat, { type: string; extension: string }> = {
+  csv: { type: "text/csv; charset=utf-8", extension: "csv" },
+  json: { type: "application/json; charset=utf-8", extension: "json" },
+  markdown: { type: "text/markdown; charset=utf-8", extension: "md" },
+}
+
+// Exports the recruiter's question bank with the same filters as the question manager:
+// ?format=csv|json|markdown&type=&level=&tag=&skill=&search=&answers=0|1
+// answers controls model answers, key points and red flags in every format. CSV and JSON include them
+// unless answers=0; the Markdown handout leaves them out unless answers=1.
+export async function GET(request: Request) {
+  try {
+    const profile = await getCurrentProfile()
+    if (!profile || (profile.role !== "recruiter" && profile.role !== "admin")) {
+      return NextResponse.json({ error: "Only recruiters can export questions" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get("format") || "csv") as ExportFormat
+
+    if (!contentTypes[format]) {
+      return NextResponse.json({ error: "Unsupported format. Use csv, json or markdown." }, { status: 400 })
+    }
+
+    const result = await fetchRecruiterQuestions()
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const questions = filterQuestions(result.questions as ExportableQuestion[], {
+      type: searchParams.get("type") || "all",
+      level: searchParams.get("level") || "all",
+      tag: searchParams.get("tag") || "all",
+      skill: searchParams.get("skill") || "all",
+      search: searchParams.get("search") || "",
+    })
+
+    const answers = searchParams.get("answers")
+    const includeAnswers = answers === null ? format !== "markdown" : answers === "1"
+
+    const body =
+      format === "csv"
+        ? questionsToCSV(questions, { includeAnswers })
+        : format === "json"
+          ? questionsToJSON(questions, { includeAnswers })
+          : questionsToMarkdown(questions, { includeAnswers })
+    const filename = `question-bank-${new Date().toISOString().slice(0, 10)}.${contentTypes[format].extension}`
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentTypes[format].type,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error in company-questions export route:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
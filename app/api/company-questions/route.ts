@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server"
 import { fetchCompanyQuestions } from "@/app/actions"
+import { EXPERIENCE_LEVELS } from "@/lib/file-parsers/questions"
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const companyId = searchParams.get("companyId")
-    const experienceLevel = searchParams.get("experienceLevel")
+    const experienceLevel = EXPERIENCE_LEVELS.find((level) => level === searchParams.get("experienceLevel"))
 
     if (!companyId || !experienceLevel) {
       return NextResponse.json({ error: "Missing companyId or experienceLevel" }, { status: 400 })
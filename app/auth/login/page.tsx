@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useRouter } from "next/navigation"
+import { canAccessPath, homePathForRole, type Role } from "@/lib/roles"
 
 export default function LoginPage() {
   const [email, setEmail] = useState("")
@@ -24,7 +25,7 @@ export default function LoginPage() {
     setError(null)
 
     try {
-      const { error } = await supabase.auth.signInWithPassword({
+      const { data, error } = await supabase.auth.signInWithPassword({
         email,
         password,
       })
@@ -32,7 +33,14 @@ export default function LoginPage() {
       if (error) {
         setError(error.message)
       } else {
-        router.push("/recruiter")
+        const { data: profile } = await supabase.from("profiles").select("role").eq("id", data.user.id).maybeSingle()
+        const role: Role = profile?.role ?? "student"
+
+        // Only follow same-site paths the role may open, so the login page can't be used as an open redirect
+        const next = new URLSearchParams(window.location.search).get("next")
+        const canFollowNext = next && next.startsWith("/") && !next.startsWith("//") && canAccessPath(role, next)
+        router.push(canFollowNext ? next : homePathForRole(role))
+        router.refresh()
       }
     } catch (err) {
       setError("An unexpected error occurred")
@@ -68,7 +76,7 @@ export default function LoginPage() {
       <Card className="w-full max-w-md">
         <CardHeader>
           <CardTitle>Login</CardTitle>
-          <CardDescription>Sign in to access the recruiter dashboard</CardDescription>
+          <CardDescription>Sign in to practice interviews and see your results</CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleLogin} className="space-y-4">
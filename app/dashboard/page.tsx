@@ -4,13 +4,30 @@ import { AnalyticsOverview } from "@/components/dashboard/analytics-overview"
 import { InterviewCard } from "@/components/dashboard/interview-card"
 import { EmptyState } from "@/components/dashboard/empty-state"
 import { StudentProfile } from "@/components/dashboard/student-profile"
+import { abandonInactiveInterviews } from "@/app/actions"
+import { getCurrentProfile } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
 
 export default async function DashboardPage() {
-  const supabase = createClient()
+  const supabase = await createClient()
+  const profile = await getCurrentProfile()
+
+  if (!profile) {
+    redirect("/auth/login?next=/dashboard")
+  }
+
+  const { user } = profile
+
+  // So stale sessions show as abandoned rather than "Continue"
+  await abandonInactiveInterviews()
 
   const { data: interviews } = await supabase
     .from("interviews")
     .select("*, companies(name, logo_url)")
+    .eq("user_id", user.id)
     .order("created_at", { ascending: false })
     .limit(10)
 
@@ -19,6 +36,17 @@ export default async function DashboardPage() {
       <div className="grid gap-8 md:grid-cols-3">
         <div className="md:col-span-2">
           <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
+          {!profile.organizationId && (
+            <Alert className="mb-6">
+              <AlertTitle>Join your organization</AlertTitle>
+              <AlertDescription className="flex items-center justify-between gap-4">
+                <span>Enter your college or team's join code to see its company tests and question bank.</span>
+                <Button asChild size="sm">
+                  <Link href="/join">Join</Link>
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="space-y-8">
             <Suspense fallback={<div>Loading analytics...</div>}>
               <AnalyticsOverview />
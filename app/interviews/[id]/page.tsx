@@ -1,6 +1,12 @@
 import { createClient } from "@/lib/supabase/server"
-import { notFound } from "next/navigation"
+import { notFound, redirect } from "next/navigation"
+import Link from "next/link"
 import { InterviewSession } from "@/components/interview/interview-session"
+import { DeviceCheckGate } from "@/components/interview/device-check"
+import { abandonInactiveInterviews } from "@/app/actions"
+import { getCurrentUser } from "@/lib/auth"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
 
 interface InterviewPageProps {
   params: {
@@ -9,19 +15,34 @@ interface InterviewPageProps {
 }
 
 export default async function InterviewPage({ params }: InterviewPageProps) {
-  const supabase = createClient()
+  const supabase = await createClient()
+  const user = await getCurrentUser()
 
-  // Fetch the interview without user check
-  const { data: interview } = await supabase.from("interviews").select("*").eq("id", params.id).single()
+  if (!user) {
+    redirect(`/auth/login?next=/interviews/${params.id}`)
+  }
+
+  // Expire stale sessions before deciding whether this one can be resumed
+  await abandonInactiveInterviews()
+
+  // Other users' interviews are reported as missing rather than forbidden
+  const { data: interview } = await supabase
+    .from("interviews")
+    .select("*")
+    .eq("id", params.id)
+    .eq("user_id", user.id)
+    .single()
 
   if (!interview) {
     notFound()
   }
 
-  // Fetch the questions
+  // Fetch the questions, with only what the session shows and tracks
   const { data: questions } = await supabase
     .from("questions")
-    .select("*")
+    .select(
+      "id, interview_id, question_text, question_type, order_number, parent_question_id, started_at, source_company_question_id, source_company_question_version, tags, skills, created_at",
+    )
     .eq("interview_id", params.id)
     .order("order_number", { ascending: true })
 
@@ -29,9 +50,52 @@ export default async function InterviewPage({ params }: InterviewPageProps) {
     notFound()
   }
 
+  if (interview.status === "abandoned") {
+    return (
+      <div className="container max-w-4xl py-10 space-y-4">
+        <Alert>
+          <AlertTitle>This interview has expired</AlertTitle>
+          <AlertDescription>
+            It was closed after a period of inactivity. Your submitted answers are still available in the results.
+          </AlertDescription>
+        </Alert>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href={`/interviews/${params.id}/results`}>View Results</Link>
+          </Button>
+          <Button asChild>
+            <Link href="/interviews/new">Start a New Interview</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  // Resume at the first question without a graded answer. A response whose transcription failed, or that
+  // never got feedback, has to be answered again.
+  const { data: responses } = await supabase
+    .from("responses")
+    .select("question_id, transcription_status, feedback(id)")
+    .in(
+      "question_id",
+      questions.map((question) => question.id),
+    )
+  const answeredIds = new Set(
+    (responses || [])
+      .filter((response) => response.transcription_status !== "transcription_failed" && response.feedback.length > 0)
+      .map((response) => response.question_id),
+  )
+  const firstUnanswered = questions.findIndex((question) => !answeredIds.has(question.id))
+  const initialQuestionIndex = firstUnanswered === -1 ? questions.length - 1 : firstUnanswered
+
+  const session = (
+    <InterviewSession interview={interview} questions={questions} initialQuestionIndex={initialQuestionIndex} />
+  )
+
+  // Check the camera and microphone before the first question; a finished interview has nothing to record
   return (
     <div className="container max-w-4xl py-10">
-      <InterviewSession interview={interview} questions={questions} />
+      {interview.status === "completed" ? session : <DeviceCheckGate>{session}</DeviceCheckGate>}
     </div>
   )
 }
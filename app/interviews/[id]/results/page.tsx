@@ -1,6 +1,17 @@
 import { createClient } from "@/lib/supabase/server"
-import { notFound } from "next/navigation"
+import { notFound, redirect } from "next/navigation"
 import { InterviewResults } from "@/components/interview/interview-results"
+import { getCurrentUser } from "@/lib/auth"
+import { getStoragePath, type TranscriptWord } from "@/lib/transcription"
+import {
+  analyzeDelivery,
+  combineDelivery,
+  type DeliveryHistoryEntry,
+  type DeliveryMetrics,
+} from "@/lib/delivery-analysis"
+
+// Recordings live in a private bucket, so hand the player short-lived signed URLs
+const SIGNED_URL_TTL_SECONDS = 60 * 60
 
 interface ResultsPageProps {
   params: {
@@ -9,10 +20,19 @@ interface ResultsPageProps {
 }
 
 export default async function ResultsPage({ params }: ResultsPageProps) {
-  const supabase = createClient()
+  const supabase = await createClient()
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect(`/auth/login?next=/interviews/${params.id}/results`)
+  }
 
-  // Fetch the interview without user check
-  const { data: interview } = await supabase.from("interviews").select("*").eq("id", params.id).single()
+  const { data: interview } = await supabase
+    .from("interviews")
+    .select("*")
+    .eq("id", params.id)
+    .eq("user_id", user.id)
+    .single()
 
   if (!interview) {
     notFound()
@@ -25,7 +45,7 @@ export default async function ResultsPage({ params }: ResultsPageProps) {
       *,
       responses:responses(
         *,
-        feedback:feedback(*)
+        feedback:feedback(*, feedback_scores(*))
       )
     `)
     .eq("interview_id", params.id)
@@ -35,9 +55,47 @@ export default async function ResultsPage({ params }: ResultsPageProps) {
     notFound()
   }
 
+  await Promise.all(
+    questions
+      .flatMap((question) => question.responses || [])
+      .map(async (response) => {
+        if (!response.media_url) return
+
+        const { data } = await supabase.storage
+          .from("responses")
+          .createSignedUrl(getStoragePath(response.media_url), SIGNED_URL_TTL_SECONDS)
+
+        response.media_url = data?.signedUrl ?? null
+      }),
+  )
+
+  // Delivery habits in each of the student's finished interviews, to show trends alongside this one
+  const { data: pastInterviews } = await supabase
+    .from("interviews")
+    .select("id, job_role, status, created_at, questions(responses(response_text, transcript_words, delivery_metrics))")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true })
+
+  const deliveryHistory: DeliveryHistoryEntry[] = (pastInterviews || [])
+    .filter((past) => past.status === "completed" || past.id === interview.id)
+    .map((past) => {
+      // Answers saved before delivery metrics were stored are analyzed from their text
+      const metrics = (past.questions || [])
+        .flatMap((question) => question.responses || [])
+        .filter((response) => response.response_text)
+        .map(
+          (response) =>
+            (response.delivery_metrics as DeliveryMetrics | null) ??
+            analyzeDelivery(response.response_text!, (response.transcript_words as TranscriptWord[] | null) || []),
+        )
+
+      return { interviewId: past.id, jobRole: past.job_role, date: past.created_at, metrics: combineDelivery(metrics) }
+    })
+    .filter((entry) => entry.metrics.word_count > 0)
+
   return (
     <div className="container max-w-4xl py-10">
-      <InterviewResults interview={interview} questions={questions} />
+      <InterviewResults interview={interview} questions={questions} deliveryHistory={deliveryHistory} />
     </div>
   )
 }
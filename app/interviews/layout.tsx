@@ -1,14 +1,17 @@
 import type React from "react"
 import { Header } from "@/components/dashboard/header"
+import { getCurrentProfile } from "@/lib/auth"
 
-export default function InterviewsLayout({
+export default async function InterviewsLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const profile = await getCurrentProfile()
+
   return (
     <div className="flex min-h-screen flex-col">
-      <Header />
+      <Header role={profile?.role} />
       <main className="flex-1">{children}</main>
     </div>
   )
@@ -8,9 +8,10 @@ import { createInterviewWithQuestions, createCompanyInterview } from "@/app/acti
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { AlertCircle, ArrowLeft, Loader2 } from "lucide-react"
+import { AlertCircle, ArrowLeft, Clock, Loader2 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import Link from "next/link"
@@ -18,7 +19,9 @@ import { useToast } from "@/components/ui/use-toast"
 import { TemplateSelector } from "@/components/interview/template-selector"
 import { CompanySelector } from "@/components/interview/company-selector"
 import { ExperienceLevelSelector } from "@/components/interview/experience-level-selector"
+import { SkillPicker } from "@/components/skill-picker"
 import type { InterviewTemplate } from "@/lib/interview-templates"
+import { describeTiming, isTimed, timingFromRow, type InterviewTiming } from "@/lib/interview-timing"
 import type { Database } from "@/types/supabase"
 
 type Company = Database["public"]["Tables"]["companies"]["Row"]
@@ -28,11 +31,15 @@ export default function NewInterviewPage() {
   const [jobRole, setJobRole] = useState("")
   const [industry, setIndustry] = useState("")
   const [difficulty, setDifficulty] = useState<string>("")
+  const [skills, setSkills] = useState<string[]>([])
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null)
   const [experienceLevel, setExperienceLevel] = useState<"fresher" | "1-3-years" | "3-plus-years" | "">("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState("company") // Default to company tab
+  const [adaptive, setAdaptive] = useState(false)
+  const [timing, setTiming] = useState<InterviewTiming | null>(null)
+  const [timed, setTimed] = useState(true)
 
   const router = useRouter()
   const { toast } = useToast()
@@ -42,6 +49,7 @@ export default function NewInterviewPage() {
     setJobRole(template.jobRole)
     setIndustry(template.industry)
     setDifficulty(template.difficulty)
+    setTiming(template.timing || null)
     // Automatically switch to the custom tab after selecting a template
     setActiveTab("custom")
   }
@@ -80,6 +88,7 @@ export default function NewInterviewPage() {
         title,
         jobRole,
         industry,
+        adaptive,
       })
 
       if (!result.success) {
@@ -116,6 +125,14 @@ export default function NewInterviewPage() {
       formData.append("jobRole", jobRole)
       formData.append("industry", industry)
       formData.append("difficulty", difficulty)
+      formData.append("adaptive", String(adaptive))
+      skills.forEach((skill) => formData.append("skills", skill))
+
+      if (timing && timed) {
+        formData.append("answerTimeLimitSeconds", String(timing.answerTimeLimitSeconds ?? ""))
+        formData.append("prepTimeSeconds", String(timing.prepTimeSeconds ?? ""))
+        formData.append("timeLimitMinutes", String(timing.interviewTimeLimitMinutes ?? ""))
+      }
 
       toast({
         title: "Creating interview...",
@@ -218,6 +235,25 @@ export default function NewInterviewPage() {
                       </div>
                     </div>
 
+                    {isTimed(timingFromRow(selectedCompany)) && (
+                      <Alert>
+                        <Clock className="h-4 w-4" />
+                        <AlertDescription>
+                          This is a timed test: {describeTiming(timingFromRow(selectedCompany))}.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <div className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="company-adaptive">Adaptive follow-ups</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Get probing follow-up questions based on your answers, like in a real interview.
+                        </p>
+                      </div>
+                      <Switch id="company-adaptive" checked={adaptive} onCheckedChange={setAdaptive} />
+                    </div>
+
                     <Button type="submit" className="w-full" disabled={isLoading}>
                       {isLoading ? (
                         <>
@@ -309,6 +345,39 @@ export default function NewInterviewPage() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="skills">Focus Skills (Optional)</Label>
+                  <SkillPicker
+                    id="skills"
+                    value={skills}
+                    onChange={setSkills}
+                    placeholder="Any skills that suit the role"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Questions will be written to practice the skills you pick.
+                  </p>
+                </div>
+
+                {timing && (
+                  <div className="flex items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="timed">Timed interview</Label>
+                      <p className="text-sm text-muted-foreground">{describeTiming(timing)}</p>
+                    </div>
+                    <Switch id="timed" checked={timed} onCheckedChange={setTimed} />
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="adaptive">Adaptive follow-ups</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Get probing follow-up questions based on your answers, like in a real interview.
+                    </p>
+                  </div>
+                  <Switch id="adaptive" checked={adaptive} onCheckedChange={setAdaptive} />
+                </div>
+
                 <Button type="submit" className="w-full" disabled={isLoading}>
                   {isLoading ? (
                     <>
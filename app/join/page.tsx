@@ -0,0 +1,120 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { joinOrganization } from "@/app/actions"
+import { homePathForRole, type Role } from "@/lib/roles"
+
+// Not behind the middleware login redirect: people arriving from an invitation email may not have a session yet
+export default function JoinOrganizationPage() {
+  const [joinCode, setJoinCode] = useState("")
+  const [token, setToken] = useState<string | null>(null)
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [joining, setJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setToken(params.get("token"))
+    setJoinCode(params.get("code") || "")
+    loadUser()
+  }, [])
+
+  // Accept an invitation straight away once we know who is signed in
+  useEffect(() => {
+    if (token && signedIn) {
+      handleJoin({ token })
+    }
+  }, [token, signedIn])
+
+  const loadUser = async () => {
+    const { data } = await createClient().auth.getUser()
+    setSignedIn(!!data.user)
+  }
+
+  const handleJoin = async (request: { joinCode?: string; token?: string }) => {
+    setJoining(true)
+    setError(null)
+
+    const result = await joinOrganization(request)
+
+    if (result.success) {
+      router.push(homePathForRole((result.role as Role | null) ?? "student"))
+      router.refresh()
+    } else {
+      setError(result.error || "Could not join the organization")
+      setJoining(false)
+    }
+  }
+
+  const currentPath = typeof window === "undefined" ? "/join" : window.location.pathname + window.location.search
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Join your organization</CardTitle>
+          <CardDescription>
+            {token
+              ? "Accept your invitation to get access to your organization's tests and question bank."
+              : "Enter the join code from your placement cell or hiring team."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {signedIn === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !signedIn ? (
+            <Button asChild className="w-full">
+              <Link href={`/auth/login?next=${encodeURIComponent(currentPath)}`}>Sign in to continue</Link>
+            </Button>
+          ) : token ? (
+            <div className="flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+              {joining && <Loader2 className="h-4 w-4 animate-spin" />}
+              {joining ? "Accepting invitation..." : "The invitation could not be accepted."}
+            </div>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleJoin({ joinCode })
+              }}
+            >
+              <div>
+                <Label htmlFor="join-code">Join code</Label>
+                <Input
+                  id="join-code"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  placeholder="ABCD2345"
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={joining || !joinCode.trim()}>
+                {joining ? "Joining..." : "Join"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
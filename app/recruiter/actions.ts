@@ -1,39 +1,248 @@
 "use server"
 
-import { createClient } from "@/lib/supabase/server"
-import { parseFile, type ParsedQuestion } from "@/lib/file-parsers"
+import { createClient, createServiceClient } from "@/lib/supabase/server"
+import { requireRole, UnauthorizedError } from "@/lib/auth"
+import {
+  listWorkbookSheets,
+  parseFile,
+  reviewRow,
+  suggestColumnMapping,
+  type DuplicateMatch,
+  type ParsedQuestion,
+  type QuestionImport,
+  type UploadReport,
+} from "@/lib/file-parsers"
 import { revalidatePath } from "next/cache"
+import { clusterDuplicates, findBestMatch, fingerprint } from "@/lib/question-similarity"
+import { rubricDimensions } from "@/lib/rubrics"
+import { rollupSkills, type SkillScore } from "@/lib/skills"
+import type { Role } from "@/lib/roles"
+import { visibleCompaniesFilter } from "@/lib/organizations"
+
+// Recruiters may only add to the question banks of companies an admin has assigned them to
+async function assertCanManageCompany(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  role: Role,
+  companyId: string | null,
+) {
+  if (role === "admin") return
+
+  if (!companyId) {
+    throw new UnauthorizedError("Choose a company to upload questions for")
+  }
+
+  const { data: assignment } = await supabase
+    .from("company_recruiters")
+    .select("company_id")
+    .eq("company_id", companyId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (!assignment) {
+    throw new UnauthorizedError("You are not a recruiter for this company")
+  }
+}
+
+// Members of the organization, for reports that must not leak across organizations
+async function fetchOrganizationMemberIds(
+  supabase: ReturnType<typeof createServiceClient>,
+  organizationId: string | null,
+): Promise<string[]> {
+  if (!organizationId) return []
+
+  const { data: members, error } = await supabase.from("profiles").select("id").eq("organization_id", organizationId)
+  if (error) throw error
 
-// Hardcoded recruiter for testing
-const RECRUITER_EMAIL = "haridrageetha14@gmail.com"
-const RECRUITER_UUID = "550e8400-e29b-41d4-a716-446655440000" // For UUID fields
+  return (members || []).map((member) => member.id)
+}
+
+// Questions an upload could duplicate: the organization's (or, outside an organization, the recruiter's)
+// questions for the same company, or the general questions when no company is chosen
+async function fetchDuplicateCandidates(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  organizationId: string | null,
+  companyId: string | null,
+  excludeUploadId?: string,
+) {
+  let query = supabase
+    .from("company_questions")
+    .select("id, question_text, experience_level")
+    .eq(organizationId ? "organization_id" : "recruiter_id", organizationId || userId)
+
+  // When re-running a batch, its own current questions are about to be replaced and don't count
+  if (excludeUploadId) {
+    query = query.or(`upload_id.is.null,upload_id.neq.${excludeUploadId}`)
+  }
+
+  const { data, error } = await (companyId ? query.eq("company_id", companyId) : query.is("company_id", null))
+  if (error) throw error
+
+  return data || []
+}
 
-export async function uploadQuestions(formData: FormData) {
+// Companies the signed-in recruiter manages; admins manage all of them
+export async function fetchAssignedCompanies() {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user, role, organizationId } = await requireRole("recruiter", "admin")
+
+    if (role === "admin") {
+      const { data: companies, error } = await supabase
+        .from("companies")
+        .select("id, name")
+        .or(visibleCompaniesFilter(organizationId))
+        .order("name")
+      if (error) throw error
+      return { success: true, companies: companies || [] }
+    }
+
+    const { data: assignments, error } = await supabase
+      .from("company_recruiters")
+      .select("companies(id, name)")
+      .eq("user_id", user.id)
+
+    if (error) throw error
+
+    const companies = (assignments || [])
+      .map((assignment) => assignment.companies)
+      .filter((company): company is { id: string; name: string } => !!company)
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return { success: true, companies }
+  } catch (error) {
+    console.error("Error fetching assigned companies:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      companies: [],
+    }
+  }
+}
+
+// First step of an upload: read the file into a table the recruiter can map and review before importing
+export async function previewQuestionUpload(formData: FormData) {
+  try {
+    await requireRole("recruiter", "admin")
     const file = formData.get("file") as File
-    const companyId = formData.get("companyId") as string
+    const sheetName = (formData.get("sheetName") as string) || undefined
 
     if (!file) {
       throw new Error("No file provided")
     }
 
-    // Parse the file
-    const questions = await parseFile(file)
+    const [table, sheets] = await Promise.all([parseFile(file, { sheetName }), listWorkbookSheets(file)])
+
+    return { success: true, table, sheets, mapping: suggestColumnMapping(table.headers) }
+  } catch (error) {
+    console.error("Error previewing upload:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Validate reviewed rows and weed out duplicates, producing the questions to insert and the batch report
+async function prepareImport(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  organizationId: string | null,
+  upload: QuestionImport,
+  excludeUploadId?: string,
+) {
+  const report: UploadReport = {
+    sheet: upload.sheetName,
+    mapping: upload.mapping,
+    total_rows: upload.rows.length + upload.skipped.length,
+    imported: 0,
+    rejected: [],
+    skipped: upload.skipped,
+    normalized: [],
+  }
+  const questions: Array<ParsedQuestion & { order_number: number }> = []
+  const duplicates: DuplicateMatch[] = []
+  report.duplicates = duplicates
+
+  // Questions already in the bank, plus each row as it's accepted so repeats within the file are caught too
+  const candidates = await fetchDuplicateCandidates(
+    supabase,
+    userId,
+    organizationId,
+    upload.companyId || null,
+    excludeUploadId,
+  )
+  const pool = candidates.map((question) => ({
+    item: { id: question.id as string | null, text: question.question_text, level: question.experience_level },
+    fingerprint: fingerprint(question.question_text),
+  }))
+
+  upload.rows.forEach(({ row, source, values }) => {
+    const review = reviewRow(values, row, source)
+    report.normalized.push(...review.normalized)
+
+    if (!review.question) {
+      report.rejected.push(...review.errors.map((message) => ({ row, source, message })))
+      return
+    }
+
+    const question = review.question
+    const print = fingerprint(question.question_text)
+    const match = findBestMatch(print, pool.filter((entry) => entry.item.level === question.experience_level))
+
+    if (match) {
+      duplicates.push({
+        row,
+        source,
+        question_text: question.question_text,
+        match_id: match.item.id,
+        match_text: match.item.text,
+        similarity: Math.round(match.similarity * 100) / 100,
+        action: match.exact ? "skipped" : "imported",
+      })
+      if (match.exact) return
+    }
+
+    questions.push({ ...question, order_number: questions.length + 1 })
+    pool.push({
+      item: { id: null, text: question.question_text, level: question.experience_level },
+      fingerprint: print,
+    })
+  })
+
+  report.imported = questions.length
+  return { questions, report }
+}
+
+// Second step: validate the reviewed rows again, import the valid ones and keep a report of every row.
+// The reviewed rows are kept on the upload record so the batch can be re-run later.
+export async function importQuestions(upload: QuestionImport) {
+  try {
+    const supabase = await createClient()
+    const { user, role, organizationId } = await requireRole("recruiter", "admin")
+
+    await assertCanManageCompany(supabase, user.id, role, upload.companyId || null)
+
+    const { questions, report } = await prepareImport(supabase, user.id, organizationId, upload)
 
     if (questions.length === 0) {
-      throw new Error("No valid questions found in file")
+      throw new Error(
+        report.duplicates?.length ? "Every valid row is already in the question bank" : "No valid questions to import",
+      )
     }
 
-    // Create upload record (using UUID for question_uploads table)
-    const { data: upload, error: uploadError } = await supabase
+    // Create upload record
+    const { data: uploadRecord, error: uploadError } = await supabase
       .from("question_uploads")
       .insert({
-        recruiter_id: RECRUITER_UUID, // Use UUID for this table
-        filename: file.name,
-        file_type: file.type,
+        recruiter_id: user.id,
+        filename: upload.filename,
+        file_type: upload.fileType,
         questions_count: questions.length,
         upload_status: "processing",
+        report,
+        import_request: upload,
       })
       .select()
       .single()
@@ -43,11 +252,14 @@ export async function uploadQuestions(formData: FormData) {
       throw uploadError
     }
 
-    // Insert questions (using email for company_questions table)
+    // Insert questions
     const questionsToInsert = questions.map((q) => ({
       ...q,
-      recruiter_id: RECRUITER_EMAIL, // Use email for this table
-      company_id: companyId || null,
+      recruiter_id: user.id,
+      company_id: upload.companyId || null,
+      organization_id: organizationId,
+      visibility: upload.visibility,
+      upload_id: uploadRecord.id,
     }))
 
     const { error: questionsError } = await supabase.from("company_questions").insert(questionsToInsert)
@@ -55,18 +267,124 @@ export async function uploadQuestions(formData: FormData) {
     if (questionsError) {
       console.error("Questions insert error:", questionsError)
       // Update upload status to failed
-      await supabase.from("question_uploads").update({ upload_status: "failed" }).eq("id", upload.id)
+      await supabase.from("question_uploads").update({ upload_status: "failed" }).eq("id", uploadRecord.id)
 
       throw questionsError
     }
 
     // Update upload status to completed
-    await supabase.from("question_uploads").update({ upload_status: "completed" }).eq("id", upload.id)
+    await supabase.from("question_uploads").update({ upload_status: "completed" }).eq("id", uploadRecord.id)
+
+    revalidatePath("/recruiter")
+    return { success: true, questionsCount: questions.length, report }
+  } catch (error) {
+    console.error("Error importing questions:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// An upload with its report and the questions it added
+export async function fetchUploadBatch(uploadId: string) {
+  try {
+    const supabase = await createClient()
+    const { user } = await requireRole("recruiter", "admin")
+
+    const { data: upload, error } = await supabase
+      .from("question_uploads")
+      .select("*")
+      .eq("id", uploadId)
+      .eq("recruiter_id", user.id)
+      .single()
+
+    if (error) throw error
+
+    const { data: questions, error: questionsError } = await supabase
+      .from("company_questions")
+      .select("id, question_text, question_type, experience_level, order_number")
+      .eq("upload_id", uploadId)
+      .order("order_number", { ascending: true })
+
+    if (questionsError) throw questionsError
+
+    return { success: true, upload, questions: questions || [] }
+  } catch (error) {
+    console.error("Error fetching upload batch:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      upload: null,
+      questions: [],
+    }
+  }
+}
+
+// Delete every question an upload added, in one transaction
+export async function rollbackUpload(uploadId: string) {
+  try {
+    const supabase = await createClient()
+    await requireRole("recruiter", "admin")
+
+    const { data: removed, error } = await supabase.rpc("rollback_question_upload", {
+      p_upload_id: uploadId,
+    })
+    if (error) throw error
+
+    revalidatePath("/recruiter")
+    return { success: true, removed }
+  } catch (error) {
+    console.error("Error rolling back upload:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Import an upload's reviewed rows again with the current validation and duplicate rules, replacing
+// the questions it added before (or restoring a rolled back batch) in one transaction
+export async function rerunUpload(uploadId: string) {
+  try {
+    const supabase = await createClient()
+    const { user, role, organizationId } = await requireRole("recruiter", "admin")
+
+    const { data: uploadRecord, error } = await supabase
+      .from("question_uploads")
+      .select("id, import_request")
+      .eq("id", uploadId)
+      .eq("recruiter_id", user.id)
+      .single()
+
+    if (error) throw error
+
+    const upload = uploadRecord.import_request as QuestionImport | null
+    if (!upload) {
+      throw new Error("This upload was made before batches could be re-run")
+    }
+
+    await assertCanManageCompany(supabase, user.id, role, upload.companyId || null)
+
+    const { questions, report } = await prepareImport(supabase, user.id, organizationId, upload, uploadId)
+
+    const { error: rerunError } = await supabase.rpc("rerun_question_upload", {
+      p_upload_id: uploadId,
+      p_questions: questions.map((q) => ({
+        ...q,
+        company_id: upload.companyId || null,
+        organization_id: organizationId,
+        visibility: upload.visibility,
+      })),
+      p_report: report,
+    })
+
+    if (rerunError) throw rerunError
 
     revalidatePath("/recruiter")
-    return { success: true, questionsCount: questions.length }
+    return { success: true, questionsCount: questions.length, report }
   } catch (error) {
-    console.error("Error uploading questions:", error)
+    console.error("Error re-running upload:", error)
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
@@ -76,8 +394,10 @@ export async function uploadQuestions(formData: FormData) {
 
 export async function fetchRecruiterQuestions() {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user, organizationId } = await requireRole("recruiter", "admin")
 
+    // The organization's whole question bank, or just this recruiter's questions outside an organization
     const { data: questions, error } = await supabase
       .from("company_questions")
       .select(`
@@ -87,7 +407,7 @@ export async function fetchRecruiterQuestions() {
           logo_url
         )
       `)
-      .eq("recruiter_id", RECRUITER_EMAIL)
+      .eq(organizationId ? "organization_id" : "recruiter_id", organizationId || user.id)
       .order("created_at", { ascending: false })
 
     if (error) {
@@ -106,15 +426,50 @@ export async function fetchRecruiterQuestions() {
   }
 }
 
-export async function updateQuestion(questionId: string, updates: Partial<ParsedQuestion>) {
+// The only columns a recruiter edits; ownership, company and visibility are never taken from the client
+const EDITABLE_QUESTION_FIELDS = [
+  "question_text",
+  "question_type",
+  "experience_level",
+  "model_answer",
+  "key_points",
+  "red_flags",
+  "tags",
+  "skills",
+  "difficulty",
+] as const
+
+type QuestionEdit = Partial<Pick<ParsedQuestion, (typeof EDITABLE_QUESTION_FIELDS)[number]>>
+
+export async function updateQuestion(questionId: string, updates: QuestionEdit) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user, role } = await requireRole("recruiter", "admin")
+
+    const { data: question, error: fetchError } = await supabase
+      .from("company_questions")
+      .select("company_id")
+      .eq("id", questionId)
+      .eq("recruiter_id", user.id)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    if (!question) throw new Error("Question not found")
+
+    // A recruiter unassigned from the company since uploading can no longer edit its bank
+    if (question.company_id) {
+      await assertCanManageCompany(supabase, user.id, role, question.company_id)
+    }
+
+    const edit: QuestionEdit = Object.fromEntries(
+      EDITABLE_QUESTION_FIELDS.filter((field) => updates[field] !== undefined).map((field) => [field, updates[field]]),
+    )
 
     const { error } = await supabase
       .from("company_questions")
-      .update(updates)
+      .update(edit)
       .eq("id", questionId)
-      .eq("recruiter_id", RECRUITER_EMAIL)
+      .eq("recruiter_id", user.id)
 
     if (error) throw error
 
@@ -131,13 +486,14 @@ export async function updateQuestion(questionId: string, updates: Partial<Parsed
 
 export async function deleteQuestion(questionId: string) {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user } = await requireRole("recruiter", "admin")
 
     const { error } = await supabase
       .from("company_questions")
       .delete()
       .eq("id", questionId)
-      .eq("recruiter_id", RECRUITER_EMAIL)
+      .eq("recruiter_id", user.id)
 
     if (error) throw error
 
@@ -152,11 +508,226 @@ export async function deleteQuestion(questionId: string) {
   }
 }
 
+// Every saved version of a question, oldest first, with how the organization's students did on each
+// version: responses, average score (0-100) and the share of key points they covered
+export async function fetchQuestionHistory(questionId: string) {
+  try {
+    const supabase = await createClient()
+    const { organizationId } = await requireRole("recruiter", "admin")
+
+    // Row-level security limits the history to questions this recruiter can see
+    const { data: versions, error } = await supabase
+      .from("company_question_versions")
+      .select("*")
+      .eq("company_question_id", questionId)
+      .order("version", { ascending: true })
+
+    if (error) throw error
+    if (!versions || versions.length === 0) {
+      throw new Error("Question not found")
+    }
+
+    // Responses span the organization's students, which row-level security would otherwise hide
+    const serviceClient = createServiceClient()
+    const memberIds = await fetchOrganizationMemberIds(serviceClient, organizationId)
+
+    const { data: asked, error: askedError } = await serviceClient
+      .from("questions")
+      .select(
+        "source_company_question_version, interviews!inner(user_id), responses(feedback(confidence_score, key_points_covered, key_points_missed))",
+      )
+      .eq("source_company_question_id", questionId)
+      .in("interviews.user_id", memberIds)
+
+    if (askedError) throw askedError
+
+    const totals: Record<number, { responses: number; scored: number; score: number; covered: number; keyPoints: number }> =
+      {}
+    ;(asked || []).forEach((question) => {
+      const version = question.source_company_question_version ?? 1
+      const total = (totals[version] = totals[version] || { responses: 0, scored: 0, score: 0, covered: 0, keyPoints: 0 })
+
+      ;(question.responses || []).forEach((response) => {
+        total.responses += 1
+        const feedback = response.feedback?.[0]
+        if (feedback?.confidence_score != null) {
+          total.scored += 1
+          total.score += feedback.confidence_score
+        }
+        const covered = feedback?.key_points_covered?.length || 0
+        total.covered += covered
+        total.keyPoints += covered + (feedback?.key_points_missed?.length || 0)
+      })
+    })
+
+    const history = versions.map((version) => {
+      const total = totals[version.version]
+      return {
+        ...version,
+        performance: {
+          responses: total?.responses || 0,
+          averageScore: total?.scored ? Math.round((total.score / total.scored) * 100) : null,
+          keyPointCoverage: total?.keyPoints ? Math.round((total.covered / total.keyPoints) * 100) : null,
+        },
+      }
+    })
+
+    return { success: true, versions: history }
+  } catch (error) {
+    console.error("Error fetching question history:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      versions: [],
+    }
+  }
+}
+
+// Groups of near-duplicate questions among the recruiter's own questions (the ones they can merge),
+// compared within the same company and experience level
+export async function findDuplicateQuestions() {
+  try {
+    const supabase = await createClient()
+    const { user } = await requireRole("recruiter", "admin")
+
+    const [{ data: questions, error }, { data: dismissals, error: dismissalsError }] = await Promise.all([
+      supabase
+        .from("company_questions")
+        .select(`
+          *,
+          companies (
+            name,
+            logo_url
+          )
+        `)
+        .eq("recruiter_id", user.id),
+      supabase.from("question_duplicate_dismissals").select("question_id, other_question_id"),
+    ])
+
+    if (error) throw error
+    if (dismissalsError) throw dismissalsError
+
+    const dismissed = new Set((dismissals || []).map((d) => `${d.question_id}:${d.other_question_id}`))
+    const isDismissed = (a: { id: string }, b: { id: string }) =>
+      dismissed.has(a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`)
+
+    const buckets = new Map<string, NonNullable<typeof questions>>()
+    ;(questions || []).forEach((question) => {
+      const key = `${question.company_id ?? ""}:${question.experience_level}`
+      buckets.set(key, [...(buckets.get(key) || []), question])
+    })
+
+    const groups = Array.from(buckets.values())
+      .flatMap((bucket) =>
+        clusterDuplicates(
+          bucket.map((question) => ({ item: question, fingerprint: fingerprint(question.question_text) })),
+          isDismissed,
+        ),
+      )
+      .sort((a, b) => b.similarity - a.similarity)
+
+    return { success: true, groups }
+  } catch (error) {
+    console.error("Error finding duplicate questions:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      groups: [],
+    }
+  }
+}
+
+// Fold duplicates into the question being kept: key points, red flags, tags and skills are combined, a missing
+// model answer is filled in from a duplicate, and the duplicates are deleted
+export async function mergeQuestions(keepId: string, duplicateIds: string[]) {
+  try {
+    const supabase = await createClient()
+    const { user } = await requireRole("recruiter", "admin")
+
+    const { data: questions, error } = await supabase
+      .from("company_questions")
+      .select("*")
+      .in("id", [keepId, ...duplicateIds])
+      .eq("recruiter_id", user.id)
+
+    if (error) throw error
+
+    const kept = questions?.find((question) => question.id === keepId)
+    const duplicates = (questions || []).filter((question) => question.id !== keepId)
+
+    if (!kept || duplicates.length !== duplicateIds.length) {
+      throw new Error("You can only merge your own questions")
+    }
+
+    const combine = (lists: Array<string[] | null>) => Array.from(new Set(lists.flatMap((list) => list || [])))
+    const all = [kept, ...duplicates]
+
+    const { error: updateError } = await supabase
+      .from("company_questions")
+      .update({
+        model_answer: kept.model_answer || duplicates.find((question) => question.model_answer)?.model_answer || null,
+        key_points: combine(all.map((question) => question.key_points)),
+        red_flags: combine(all.map((question) => question.red_flags)),
+        tags: combine(all.map((question) => question.tags)),
+        skills: combine(all.map((question) => question.skills)),
+        difficulty: kept.difficulty || duplicates.find((question) => question.difficulty)?.difficulty || null,
+      })
+      .eq("id", keepId)
+
+    if (updateError) throw updateError
+
+    const { error: deleteError } = await supabase
+      .from("company_questions")
+      .delete()
+      .in("id", duplicateIds)
+      .eq("recruiter_id", user.id)
+
+    if (deleteError) throw deleteError
+
+    revalidatePath("/recruiter")
+    return { success: true }
+  } catch (error) {
+    console.error("Error merging questions:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
+// Record that a group of look-alike questions are intentionally different
+export async function dismissDuplicates(questionIds: string[]) {
+  try {
+    const supabase = await createClient()
+    await requireRole("recruiter", "admin")
+
+    const pairs = questionIds.flatMap((a, index) =>
+      questionIds.slice(index + 1).map((b) => ({
+        question_id: a < b ? a : b,
+        other_question_id: a < b ? b : a,
+      })),
+    )
+
+    const { error } = await supabase.from("question_duplicate_dismissals").upsert(pairs)
+    if (error) throw error
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error dismissing duplicates:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    }
+  }
+}
+
 export async function fetchStudentPerformance() {
   try {
-    const supabase = createClient()
+    const { organizationId } = await requireRole("recruiter", "admin")
+    // Performance spans the organization's students, which row-level security would otherwise hide
+    const supabase = createServiceClient()
+    const memberIds = await fetchOrganizationMemberIds(supabase, organizationId)
 
-    // Simplified query without profiles table dependency
     const { data: performance, error } = await supabase
       .from("student_performance")
       .select(`
@@ -170,14 +741,23 @@ export async function fetchStudentPerformance() {
           )
         )
       `)
+      .in("student_id", memberIds)
       .order("created_at", { ascending: false })
 
     if (error) throw error
 
-    // Add mock student names for demo purposes
-    const performanceWithNames = (performance || []).map((p, index) => ({
+    const studentIds = Array.from(new Set((performance || []).map((p) => p.student_id)))
+    const { data: students, error: studentsError } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", studentIds)
+
+    if (studentsError) throw studentsError
+
+    const names = new Map((students || []).map((student) => [student.id, student.full_name || student.email]))
+    const performanceWithNames = (performance || []).map((p) => ({
       ...p,
-      student_name: `Student ${index + 1}`, // Mock student names
+      student_name: names.get(p.student_id) || "Unknown Student",
     }))
 
     return { success: true, performance: performanceWithNames }
@@ -191,114 +771,92 @@ export async function fetchStudentPerformance() {
   }
 }
 
-export async function calculateStudentXP(studentId: string, score: number) {
+// Average rubric score (1-5) per dimension across the organization's graded responses, weakest first
+export async function fetchDimensionScores() {
   try {
-    const supabase = createClient()
+    const { organizationId } = await requireRole("recruiter", "admin")
+    const supabase = createServiceClient()
+    const memberIds = await fetchOrganizationMemberIds(supabase, organizationId)
 
-    // Calculate XP based on score (score * 10 for example)
-    const xpEarned = Math.floor(score * 10)
+    const { data: scores, error } = await supabase
+      .from("feedback_scores")
+      .select("dimension, score, feedback!inner(responses!inner(questions!inner(interviews!inner(user_id))))")
+      .in("feedback.responses.questions.interviews.user_id", memberIds)
 
-    // Update or create student XP record
-    const { data: existingXP, error: fetchError } = await supabase
-      .from("student_xp")
-      .select("*")
-      .eq("student_id", studentId)
-      .single()
-
-    if (fetchError && fetchError.code !== "PGRST116") {
-      throw fetchError
-    }
-
-    if (existingXP) {
-      // Update existing record
-      const newTotalXP = existingXP.total_xp + xpEarned
-      const newLevel = Math.floor(newTotalXP / 1000) + 1 // Level up every 1000 XP
-
-      const { error: updateError } = await supabase
-        .from("student_xp")
-        .update({
-          total_xp: newTotalXP,
-          level: newLevel,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("student_id", studentId)
-
-      if (updateError) throw updateError
-    } else {
-      // Create new record
-      const newLevel = Math.floor(xpEarned / 1000) + 1
-
-      const { error: insertError } = await supabase.from("student_xp").insert({
-        student_id: studentId,
-        total_xp: xpEarned,
-        level: newLevel,
-      })
-
-      if (insertError) throw insertError
-    }
+    if (error) throw error
 
-    return { success: true, xpEarned }
+    const totals: Record<string, { total: number; count: number }> = {}
+    ;(scores || []).forEach(({ dimension, score }) => {
+      totals[dimension] = totals[dimension] || { total: 0, count: 0 }
+      totals[dimension].total += score
+      totals[dimension].count += 1
+    })
+
+    const dimensions = Object.entries(totals)
+      .map(([dimension, data]) => ({
+        dimension,
+        label: rubricDimensions[dimension]?.label || dimension,
+        averageScore: Math.round((data.total / data.count) * 10) / 10,
+        count: data.count,
+      }))
+      .sort((a, b) => a.averageScore - b.averageScore)
+
+    return { success: true, dimensions }
   } catch (error) {
-    console.error("Error calculating student XP:", error)
+    console.error("Error fetching dimension scores:", error)
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
+      dimensions: [],
     }
   }
 }
 
-// Add some sample performance data for demo
-export async function createSamplePerformanceData() {
+// Average score (0-100) per taxonomy skill across the organization's graded answers, weakest first
+export async function fetchSkillScores() {
   try {
-    const supabase = createClient()
-
-    // Create sample performance records
-    const sampleData = [
-      {
-        student_id: "student-1",
-        interview_id: null,
-        question_id: null,
-        score: 85,
-        xp_earned: 850,
-        feedback: "Great performance on technical questions",
-      },
-      {
-        student_id: "student-2",
-        interview_id: null,
-        question_id: null,
-        score: 92,
-        xp_earned: 920,
-        feedback: "Excellent communication skills",
-      },
-      {
-        student_id: "student-3",
-        interview_id: null,
-        question_id: null,
-        score: 78,
-        xp_earned: 780,
-        feedback: "Good understanding of concepts",
-      },
-    ]
-
-    const { error } = await supabase.from("student_performance").insert(sampleData)
+    const { organizationId } = await requireRole("recruiter", "admin")
+    const supabase = createServiceClient()
+    const memberIds = await fetchOrganizationMemberIds(supabase, organizationId)
+
+    const { data: questions, error } = await supabase
+      .from("questions")
+      .select("skills, interviews!inner(user_id), responses(created_at, feedback(confidence_score))")
+      .filter("skills", "neq", "{}")
+      .in("interviews.user_id", memberIds)
 
     if (error) throw error
 
-    return { success: true }
+    const scores: SkillScore[] = []
+    ;(questions || []).forEach((question) => {
+      ;(question.responses || []).forEach((response) => {
+        const score = response.feedback?.[0]?.confidence_score
+        if (score != null) {
+          scores.push({ skills: question.skills, score: score * 100, date: response.created_at })
+        }
+      })
+    })
+
+    return { success: true, skills: rollupSkills(scores).sort((a, b) => a.score - b.score) }
   } catch (error) {
-    console.error("Error creating sample data:", error)
-    return { success: false, error: error.message }
+    console.error("Error fetching skill scores:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      skills: [],
+    }
   }
 }
 
 export async function fetchUploadHistory() {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+    const { user } = await requireRole("recruiter", "admin")
 
     const { data: uploads, error } = await supabase
       .from("question_uploads")
       .select("*")
-      .eq("recruiter_id", RECRUITER_UUID)
+      .eq("recruiter_id", user.id)
       .order("created_at", { ascending: false })
 
     if (error) throw error
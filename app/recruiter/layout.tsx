@@ -0,0 +1,14 @@
+import type React from "react"
+import { Header } from "@/components/dashboard/header"
+import { getCurrentProfile } from "@/lib/auth"
+
+export default async function RecruiterLayout({ children }: { children: React.ReactNode }) {
+  const profile = await getCurrentProfile()
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Header role={profile?.role} />
+      <main className="flex-1">{children}</main>
+    </div>
+  )
+}
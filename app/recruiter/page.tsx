@@ -6,17 +6,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { FileUpload } from "@/components/recruiter/file-upload"
 import { QuestionManager } from "@/components/recruiter/question-manager"
 import { PerformanceDashboard } from "@/components/recruiter/performance-dashboard"
-import { fetchCompanies } from "@/app/actions"
+import { UploadHistory } from "@/components/recruiter/upload-history"
+import { fetchAssignedCompanies } from "@/app/recruiter/actions"
+import { createClient } from "@/lib/supabase/client"
 
 export default function RecruiterDashboard() {
   const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([])
+  const [recruiterEmail, setRecruiterEmail] = useState<string | null>(null)
+  // Bumped after each upload so the history reloads without losing the upload report on screen
+  const [historyVersion, setHistoryVersion] = useState(0)
 
   useEffect(() => {
     loadCompanies()
+    loadRecruiter()
   }, [])
 
+  const loadRecruiter = async () => {
+    const { data } = await createClient().auth.getUser()
+    setRecruiterEmail(data.user?.email ?? null)
+  }
+
   const loadCompanies = async () => {
-    const result = await fetchCompanies()
+    const result = await fetchAssignedCompanies()
     if (result.success) {
       setCompanies(result.companies)
     }
@@ -27,13 +38,14 @@ export default function RecruiterDashboard() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold">Recruiter Dashboard</h1>
         <p className="text-muted-foreground">
-          Managing questions for: <span className="font-semibold">haridrageetha14@gmail.com</span>
+          Managing questions for: <span className="font-semibold">{recruiterEmail}</span>
         </p>
       </div>
 
       <Tabs defaultValue="upload" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="upload">Upload Questions</TabsTrigger>
+          <TabsTrigger value="history">Upload History</TabsTrigger>
           <TabsTrigger value="manage">Manage Questions</TabsTrigger>
           <TabsTrigger value="performance">Student Performance</TabsTrigger>
         </TabsList>
@@ -48,11 +60,15 @@ export default function RecruiterDashboard() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <FileUpload companies={companies} onUploadComplete={() => window.location.reload()} />
+              <FileUpload companies={companies} onUploadComplete={() => setHistoryVersion((v) => v + 1)} />
             </CardContent>
           </Card>
         </TabsContent>
 
+        <TabsContent value="history">
+          <UploadHistory key={historyVersion} />
+        </TabsContent>
+
         <TabsContent value="manage">
           <QuestionManager />
         </TabsContent>
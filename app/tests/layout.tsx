@@ -1,10 +1,13 @@
 import type React from "react"
 import { Header } from "@/components/dashboard/header"
+import { getCurrentProfile } from "@/lib/auth"
+
+export default async function TestsLayout({ children }: { children: React.ReactNode }) {
+  const profile = await getCurrentProfile()
 
-export default function TestsLayout({ children }: { children: React.ReactNode }) {
   return (
     <div className="flex min-h-screen flex-col">
-      <Header />
+      <Header role={profile?.role} />
       <main className="flex-1">{children}</main>
     </div>
   )
@@ -0,0 +1,206 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { Clock, Plus } from "lucide-react"
+import { createCompany, updateCompanyTiming } from "@/app/admin/actions"
+import { describeTiming, isTimed, timingFromRow, type InterviewTiming } from "@/lib/interview-timing"
+
+interface CatalogCompany {
+  id: string
+  name: string
+  industry: string | null
+  answer_time_limit_seconds: number | null
+  prep_time_seconds: number | null
+  time_limit_minutes: number | null
+}
+
+// Time limits as typed; an empty field means no limit
+interface TimingInput {
+  prepTimeSeconds: string
+  answerTimeLimitSeconds: string
+  interviewTimeLimitMinutes: string
+}
+
+const emptyTiming: TimingInput = { prepTimeSeconds: "", answerTimeLimitSeconds: "", interviewTimeLimitMinutes: "" }
+
+const toInput = (timing: InterviewTiming): TimingInput => ({
+  prepTimeSeconds: timing.prepTimeSeconds?.toString() ?? "",
+  answerTimeLimitSeconds: timing.answerTimeLimitSeconds?.toString() ?? "",
+  interviewTimeLimitMinutes: timing.interviewTimeLimitMinutes?.toString() ?? "",
+})
+
+const fromInput = (input: TimingInput): InterviewTiming => {
+  const parse = (value: string) => (value.trim() ? Number(value) : null)
+  return {
+    prepTimeSeconds: parse(input.prepTimeSeconds),
+    answerTimeLimitSeconds: parse(input.answerTimeLimitSeconds),
+    interviewTimeLimitMinutes: parse(input.interviewTimeLimitMinutes),
+  }
+}
+
+function TimingFields({ id, value, onChange }: { id: string; value: TimingInput; onChange: (v: TimingInput) => void }) {
+  const fields: Array<{ key: keyof TimingInput; label: string }> = [
+    { key: "prepTimeSeconds", label: "Preparation (seconds)" },
+    { key: "answerTimeLimitSeconds", label: "Per answer (seconds)" },
+    { key: "interviewTimeLimitMinutes", label: "Whole test (minutes)" },
+  ]
+
+  return (
+    <div className="grid gap-3 md:grid-cols-3">
+      {fields.map(({ key, label }) => (
+        <div key={key} className="space-y-2">
+          <Label htmlFor={`${id}-${key}`}>{label}</Label>
+          <Input
+            id={`${id}-${key}`}
+            type="number"
+            min={key === "prepTimeSeconds" ? 0 : 1}
+            placeholder="No limit"
+            value={value[key]}
+            onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface CompanyCatalogProps {
+  companies: CatalogCompany[] // The organization's own companies
+  onChange?: () => void
+}
+
+// The organization's own companies, which students see next to the shared catalog
+export function CompanyCatalog({ companies, onChange }: CompanyCatalogProps) {
+  const [name, setName] = useState("")
+  const [industry, setIndustry] = useState("")
+  const [description, setDescription] = useState("")
+  const [timing, setTiming] = useState<TimingInput>(emptyTiming)
+  // The company whose time limits are being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTiming, setEditTiming] = useState<TimingInput>(emptyTiming)
+  const [busy, setBusy] = useState(false)
+  const { toast } = useToast()
+
+  const handleCreate = async () => {
+    setBusy(true)
+    const result = await createCompany({ name, industry, description, timing: fromInput(timing) })
+    setBusy(false)
+
+    if (result.success) {
+      toast({ title: "Company added", description: `${name.trim()} is now in your organization's catalog.` })
+      setName("")
+      setIndustry("")
+      setDescription("")
+      setTiming(emptyTiming)
+      onChange?.()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const startEditing = (company: CatalogCompany) => {
+    setEditingId(company.id)
+    setEditTiming(toInput(timingFromRow(company)))
+  }
+
+  const handleSaveTiming = async (companyId: string) => {
+    setBusy(true)
+    const result = await updateCompanyTiming(companyId, fromInput(editTiming))
+    setBusy(false)
+
+    if (result.success) {
+      toast({ title: "Time limits updated", description: "New tests for this company use them." })
+      setEditingId(null)
+      onChange?.()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {companies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Your organization doesn't have its own companies yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {companies.map((company) => {
+            const companyTiming = timingFromRow(company)
+
+            return (
+              <div key={company.id} className="space-y-3 rounded border p-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{company.name}</span>
+                    {company.industry && <span className="ml-2 text-muted-foreground">{company.industry}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">
+                      {isTimed(companyTiming) ? describeTiming(companyTiming) : "Untimed"}
+                    </span>
+                    {editingId !== company.id && (
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(company)}>
+                        <Clock className="mr-2 h-4 w-4" />
+                        Time limits
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === company.id && (
+                  <div className="space-y-3">
+                    <TimingFields id={`timing-${company.id}`} value={editTiming} onChange={setEditTiming} />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleSaveTiming(company.id)} disabled={busy}>
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="company-name">Company name</Label>
+            <Input id="company-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-industry">Industry</Label>
+            <Input
+              id="company-industry"
+              placeholder="Optional"
+              value={industry}
+              onChange={(e) => setIndustry(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="company-description">Description</Label>
+          <Textarea
+            id="company-description"
+            placeholder="Optional"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <TimingFields id="new-company-timing" value={timing} onChange={setTiming} />
+        <Button onClick={handleCreate} disabled={busy || !name.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Company
+        </Button>
+      </div>
+    </div>
+  )
+}
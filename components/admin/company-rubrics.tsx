@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { fetchCompanyRubrics, setCompanyRubric } from "@/app/admin/actions"
+import { QUESTION_TYPES } from "@/lib/file-parsers/questions"
+import { rubrics, selectRubric, type QuestionType } from "@/lib/rubrics"
+
+interface CompanyRubric {
+  question_type: QuestionType | null
+  rubric_id: string
+}
+
+interface CompanyRubricsProps {
+  companies: Array<{ id: string; name: string }> // The organization's own companies
+}
+
+// Select value for "no choice", since Radix reserves the empty string
+const DEFAULT_VALUE = "default"
+
+// Pick the rubric each question type is graded with, per company
+export function CompanyRubrics({ companies }: CompanyRubricsProps) {
+  const [companyId, setCompanyId] = useState(companies[0]?.id || "")
+  const [companyRubrics, setCompanyRubrics] = useState<CompanyRubric[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!companies.some((company) => company.id === companyId)) {
+      setCompanyId(companies[0]?.id || "")
+    }
+  }, [companies])
+
+  useEffect(() => {
+    if (companyId) {
+      loadRubrics(companyId)
+    } else {
+      setCompanyRubrics([])
+    }
+  }, [companyId])
+
+  const loadRubrics = async (id: string) => {
+    setLoading(true)
+    const result = await fetchCompanyRubrics(id)
+    if (result.success) {
+      setCompanyRubrics(result.companyRubrics)
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+    setLoading(false)
+  }
+
+  const updateRubric = async (questionType: QuestionType | null, value: string) => {
+    setSaving(true)
+    const result = await setCompanyRubric(companyId, questionType, value === DEFAULT_VALUE ? null : value)
+    if (result.success) {
+      toast({ title: "Rubric updated" })
+      await loadRubrics(companyId)
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+    setSaving(false)
+  }
+
+  if (companies.length === 0) {
+    return <p className="text-sm text-muted-foreground">Your organization doesn't have its own companies yet.</p>
+  }
+
+  // What a row falls back to without its own choice: the company-wide choice, then the question type default
+  const fallbackTitle = (questionType: QuestionType | null) =>
+    questionType
+      ? selectRubric(questionType, companyRubrics.filter((r) => r.question_type !== questionType)).title
+      : "by question type"
+
+  const rows: Array<{ questionType: QuestionType | null; label: string }> = [
+    { questionType: null, label: "All question types" },
+    ...QUESTION_TYPES.map((type) => ({ questionType: type, label: type.charAt(0).toUpperCase() + type.slice(1) })),
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Company</Label>
+        <Select value={companyId} onValueChange={setCompanyId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select a company" />
+          </SelectTrigger>
+          <SelectContent>
+            {companies.map((company) => (
+              <SelectItem key={company.id} value={company.id}>
+                {company.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-4">Loading rubrics...</div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map(({ questionType, label }) => {
+            const choice = companyRubrics.find((r) => r.question_type === questionType)
+
+            return (
+              <div key={questionType ?? "all"} className="flex items-center justify-between gap-4">
+                <span className="text-sm font-medium">{label}</span>
+                <Select
+                  value={choice?.rubric_id || DEFAULT_VALUE}
+                  onValueChange={(value) => updateRubric(questionType, value)}
+                  disabled={saving}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_VALUE}>Default ({fallbackTitle(questionType)})</SelectItem>
+                    {rubrics.map((rubric) => (
+                      <SelectItem key={rubric.id} value={rubric.id}>
+                        {rubric.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/use-toast"
+import { Copy, RefreshCw, Send, X } from "lucide-react"
+import {
+  fetchOrganization,
+  createOrganization,
+  regenerateJoinCode,
+  inviteMember,
+  revokeInvitation,
+} from "@/app/admin/actions"
+import { ROLES, roleLabels, type Role } from "@/lib/roles"
+
+interface Organization {
+  id: string
+  name: string
+  join_code: string
+  isOwner: boolean // only the owner can invite admins
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: Role
+  expires_at: string
+}
+
+interface OrganizationSettingsProps {
+  onOrganizationChange?: () => void
+}
+
+export function OrganizationSettings({ onOrganizationChange }: OrganizationSettingsProps) {
+  const [organization, setOrganization] = useState<Organization | null>(null)
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newName, setNewName] = useState("")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<Role>("student")
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadOrganization()
+  }, [])
+
+  const loadOrganization = async () => {
+    setLoading(true)
+    const result = await fetchOrganization()
+    if (result.success) {
+      setOrganization(result.organization)
+      setInvitations(result.invitations)
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+    setLoading(false)
+  }
+
+  const handleCreate = async () => {
+    setBusy(true)
+    const result = await createOrganization(newName)
+    setBusy(false)
+
+    if (result.success) {
+      await loadOrganization()
+      onOrganizationChange?.()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!confirm("Generate a new join code? The current code will stop working.")) return
+
+    const result = await regenerateJoinCode()
+    if (result.success) {
+      await loadOrganization()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const handleInvite = async () => {
+    setBusy(true)
+    const result = await inviteMember(inviteEmail, inviteRole)
+    setBusy(false)
+
+    if (result.success) {
+      setLastInviteUrl(result.inviteUrl ?? null)
+      setInviteEmail("")
+      toast({
+        title: "Invitation created",
+        description: result.emailSent
+          ? `An invitation email was sent to ${inviteEmail}.`
+          : "This address already has an account, so share the invite link with them.",
+      })
+      await loadOrganization()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const handleRevoke = async (invitationId: string) => {
+    const result = await revokeInvitation(invitationId)
+    if (result.success) {
+      await loadOrganization()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text)
+    toast({ title: "Copied to clipboard" })
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">Loading organization...</div>
+  }
+
+  if (!organization) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Create your organization</CardTitle>
+          <CardDescription>
+            Your college or hiring team gets its own students, recruiters, company tests and private question bank.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Input placeholder="Organization name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          <Button onClick={handleCreate} disabled={busy || !newName.trim()}>
+            Create
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{organization.name}</CardTitle>
+        <CardDescription>Students can join with the code below; invite recruiters and admins by email.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Join code</Label>
+          <div className="flex items-center gap-2">
+            <code className="rounded bg-muted px-3 py-2 text-lg font-semibold tracking-widest">
+              {organization.join_code}
+            </code>
+            <Button variant="outline" size="icon" onClick={() => copyToClipboard(organization.join_code)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleRegenerate}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              New code
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="invite-email">Invite by email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="name@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.filter((role) => role !== "admin" || organization.isOwner).map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleInvite} disabled={busy || !inviteEmail.trim()}>
+              <Send className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+          {lastInviteUrl && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="truncate text-muted-foreground">{lastInviteUrl}</span>
+              <Button variant="ghost" size="sm" onClick={() => copyToClipboard(lastInviteUrl)}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy link
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <Label>Pending invitations</Label>
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between rounded border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span>{invitation.email}</span>
+                  <Badge variant="secondary">{roleLabels[invitation.role]}</Badge>
+                  <span className="text-muted-foreground">
+                    expires {new Date(invitation.expires_at).toLocaleDateString()}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Revoke invitation for ${invitation.email}`}
+                  onClick={() => handleRevoke(invitation.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/use-toast"
+import { X } from "lucide-react"
+import {
+  fetchUsers,
+  updateUserRole,
+  assignRecruiterToCompany,
+  removeRecruiterFromCompany,
+} from "@/app/admin/actions"
+import { ROLES, roleLabels, type Role } from "@/lib/roles"
+
+interface ManagedUser {
+  id: string
+  email: string | null
+  full_name: string | null
+  role: Role
+  company_recruiters: Array<{ company_id: string }>
+}
+
+interface UserManagementProps {
+  companies: Array<{ id: string; name: string }>
+}
+
+export function UserManagement({ companies }: UserManagementProps) {
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await fetchUsers()
+      if (result.success) {
+        setUsers(result.users)
+      } else {
+        setError(result.error || "Failed to load users")
+      }
+    } catch (err) {
+      setError("An unexpected error occurred")
+      console.error("Error loading users:", err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Run an admin action, then reload so the list reflects what the server saved
+  const runAction = async (action: Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+    const result = await action
+
+    if (result.success) {
+      toast({ title: successMessage })
+      await loadUsers()
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error })
+    }
+  }
+
+  const companyName = (companyId: string) => companies.find((c) => c.id === companyId)?.name || "Unknown company"
+
+  const filteredUsers = users.filter((user) => {
+    const term = search.toLowerCase()
+    return !term || user.email?.toLowerCase().includes(term) || user.full_name?.toLowerCase().includes(term)
+  })
+
+  if (loading) {
+    return <div className="text-center py-8">Loading users...</div>
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Error: {error}</p>
+        <Button onClick={loadUsers}>Try Again</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Input placeholder="Search by name or email..." value={search} onChange={(e) => setSearch(e.target.value)} />
+
+      {filteredUsers.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">No users found.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        filteredUsers.map((user) => {
+          const assignedIds = user.company_recruiters.map((assignment) => assignment.company_id)
+          const unassignedCompanies = companies.filter((company) => !assignedIds.includes(company.id))
+
+          return (
+            <Card key={user.id}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-base">{user.full_name || user.email || user.id}</CardTitle>
+                  {user.full_name && <CardDescription>{user.email}</CardDescription>}
+                </div>
+                <Select
+                  value={user.role}
+                  onValueChange={(value) =>
+                    runAction(updateUserRole(user.id, value as Role), `Role changed to ${roleLabels[value as Role]}`)
+                  }
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {roleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+
+              {user.role === "recruiter" && (
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {assignedIds.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Not assigned to any company yet.</p>
+                    ) : (
+                      assignedIds.map((companyId) => (
+                        <Badge key={companyId} variant="secondary" className="gap-1">
+                          {companyName(companyId)}
+                          <button
+                            type="button"
+                            aria-label={`Remove from ${companyName(companyId)}`}
+                            onClick={() =>
+                              runAction(removeRecruiterFromCompany(user.id, companyId), "Company assignment removed")
+                            }
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+
+                  {unassignedCompanies.length > 0 && (
+                    <Select
+                      value=""
+                      onValueChange={(companyId) =>
+                        runAction(assignRecruiterToCompany(user.id, companyId), `Assigned to ${companyName(companyId)}`)
+                      }
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="Assign to company..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {unassignedCompanies.map((company) => (
+                          <SelectItem key={company.id} value={company.id}>
+                            {company.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          )
+        })
+      )}
+    </div>
+  )
+}
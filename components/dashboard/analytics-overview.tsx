@@ -5,7 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { createClient } from "@/lib/supabase/client"
-import { BarChart3, TrendingUp, Clock, Target, Award, Users } from "lucide-react"
+import { rollupSkills, type SkillRollup, type SkillScore } from "@/lib/skills"
+import { BarChart3, TrendingUp, TrendingDown, Minus, Clock, Target, Award, Users } from "lucide-react"
 
 interface AnalyticsData {
   totalInterviews: number
@@ -13,7 +14,7 @@ interface AnalyticsData {
   averageScore: number
   totalTimeSpent: number
   topCompanies: Array<{ name: string; count: number }>
-  skillsProgress: Array<{ skill: string; score: number; trend: "up" | "down" | "stable" }>
+  skillsProgress: SkillRollup[]
   recentActivity: Array<{ type: string; description: string; date: string }>
 }
 
@@ -34,7 +35,9 @@ export function AnalyticsOverview() {
           *,
           companies(name),
           questions(
+            skills,
             responses(
+              created_at,
               feedback(confidence_score)
             )
           )
@@ -47,6 +50,7 @@ export function AnalyticsOverview() {
         // Calculate average score
         let totalScore = 0
         let scoreCount = 0
+        const skillScores: SkillScore[] = []
 
         interviews.forEach((interview) => {
           interview.questions?.forEach((question: any) => {
@@ -55,6 +59,14 @@ export function AnalyticsOverview() {
                 if (feedback.confidence_score) {
                   totalScore += feedback.confidence_score * 100
                   scoreCount++
+
+                  if (question.skills?.length) {
+                    skillScores.push({
+                      skills: question.skills,
+                      score: feedback.confidence_score * 100,
+                      date: response.created_at,
+                    })
+                  }
                 }
               })
             })
@@ -79,13 +91,8 @@ export function AnalyticsOverview() {
           .sort((a, b) => b.count - a.count)
           .slice(0, 5)
 
-        // Mock skills progress data
-        const skillsProgress = [
-          { skill: "Communication", score: 85, trend: "up" as const },
-          { skill: "Technical Knowledge", score: 78, trend: "up" as const },
-          { skill: "Problem Solving", score: 82, trend: "stable" as const },
-          { skill: "Leadership", score: 75, trend: "down" as const },
-        ]
+        // The skills practiced most, with the trend from earlier to more recent answers
+        const skillsProgress = rollupSkills(skillScores).slice(0, 6)
 
         // Mock recent activity
         const recentActivity = [
@@ -201,26 +208,33 @@ export function AnalyticsOverview() {
             <CardDescription>Your performance across different skill areas</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {analytics.skillsProgress.map((skill) => (
-              <div key={skill.skill} className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">{skill.skill}</span>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm">{skill.score}%</span>
-                    <TrendingUp
-                      className={`h-4 w-4 ${
-                        skill.trend === "up"
-                          ? "text-green-500"
-                          : skill.trend === "down"
-                            ? "text-red-500"
-                            : "text-gray-500"
-                      }`}
-                    />
+            {analytics.skillsProgress.length > 0 ? (
+              analytics.skillsProgress.map((skill) => (
+                <div key={skill.skill} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{skill.label}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{skill.score}%</span>
+                      {skill.trend === "up" ? (
+                        <TrendingUp className="h-4 w-4 text-green-500" />
+                      ) : skill.trend === "down" ? (
+                        <TrendingDown className="h-4 w-4 text-red-500" />
+                      ) : (
+                        <Minus className="h-4 w-4 text-gray-500" />
+                      )}
+                    </div>
                   </div>
+                  <Progress value={skill.score} />
+                  <p className="text-xs text-muted-foreground">
+                    {skill.responses} {skill.responses === 1 ? "answer" : "answers"}
+                  </p>
                 </div>
-                <Progress value={skill.score} />
-              </div>
-            ))}
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Answer questions tagged with skills to see how you're doing in each one.
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -1,15 +1,28 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
-import { MoonIcon, SunIcon, LayoutDashboard, BookOpen } from "lucide-react"
+import { MoonIcon, SunIcon, LayoutDashboard, BookOpen, LogOut, Briefcase, ShieldCheck } from "lucide-react"
 import { useTheme } from "next-themes"
 import Link from "next/link"
-import { usePathname } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
 import { cn } from "@/lib/utils"
+import { createClient } from "@/lib/supabase/client"
+import { homePathForRole, type Role } from "@/lib/roles"
 
-export function Header() {
+interface HeaderProps {
+  role?: Role
+}
+
+export function Header({ role = "student" }: HeaderProps) {
   const { setTheme, theme } = useTheme()
   const pathname = usePathname()
+  const router = useRouter()
+
+  const handleSignOut = async () => {
+    await createClient().auth.signOut()
+    router.push("/auth/login")
+    router.refresh()
+  }
 
   const routes = [
     {
@@ -17,19 +30,35 @@ export function Header() {
       label: "Dashboard",
       icon: <LayoutDashboard className="mr-2 h-4 w-4" />,
       active: pathname === "/dashboard",
+      roles: ["student", "admin"],
     },
     {
       href: "/tests",
       label: "Available Tests",
       icon: <BookOpen className="mr-2 h-4 w-4" />,
       active: pathname === "/tests",
+      roles: ["student", "admin"],
+    },
+    {
+      href: "/recruiter",
+      label: "Recruiter Portal",
+      icon: <Briefcase className="mr-2 h-4 w-4" />,
+      active: pathname.startsWith("/recruiter"),
+      roles: ["recruiter", "admin"],
     },
-  ]
+    {
+      href: "/admin",
+      label: "Admin",
+      icon: <ShieldCheck className="mr-2 h-4 w-4" />,
+      active: pathname.startsWith("/admin"),
+      roles: ["admin"],
+    },
+  ].filter((route) => route.roles.includes(role))
 
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background">
       <div className="container flex h-16 items-center justify-between py-4">
-        <Link href="/dashboard" className="flex items-center gap-2">
+        <Link href={homePathForRole(role)} className="flex items-center gap-2">
           <span className="text-xl font-bold">MockInterview</span>
         </Link>
 
@@ -47,12 +76,6 @@ export function Header() {
               {route.label}
             </Link>
           ))}
-          <Link
-            href="/recruiter"
-            className="flex items-center text-sm font-medium transition-colors hover:text-primary text-muted-foreground"
-          >
-            Recruiter Portal
-          </Link>
         </nav>
 
         <div className="flex items-center gap-4">
@@ -65,6 +88,10 @@ export function Header() {
             <SunIcon className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
             <MoonIcon className="absolute h-[1.2rem] w-[1.2rem] rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
           </Button>
+          <Button variant="ghost" size="sm" onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </Button>
         </div>
       </div>
     </header>
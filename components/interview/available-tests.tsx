@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { createClient } from "@/lib/supabase/client"
+import { fetchTestQuestions } from "@/app/actions"
 import { Search, Clock, Users, Building2, Play } from "lucide-react"
 import Link from "next/link"
 
@@ -37,20 +37,10 @@ export function AvailableTests() {
 
   const fetchTests = async () => {
     try {
-      const supabase = createClient()
-
-      // Get questions from company_questions table grouped by company and experience level
-      const { data: questions, error } = await supabase
-        .from("company_questions")
-        .select(`
-          company_id,
-          experience_level,
-          question_type,
-          companies(name, logo_url, industry)
-        `)
-        .not("recruiter_id", "is", null) // Only show recruiter-uploaded questions
-
-      if (error) throw error
+      // Get the company questions, grouped below by company and experience level
+      const { success, error, questions } = await fetchTestQuestions()
+
+      if (!success) throw new Error(error)
 
       // Group questions by company and experience level
       const groupedTests = questions?.reduce((acc: Record<string, TestData>, question: any) => {
@@ -69,6 +69,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Technology company specializing in Internet-related services and products",
           logo_url: null,
           industry: "Technology",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -78,6 +82,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Multinational technology corporation",
           logo_url: null,
           industry: "Technology",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -87,6 +95,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "E-commerce and cloud computing company",
           logo_url: null,
           industry: "Technology",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -96,6 +108,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Technology company that designs and manufactures consumer electronics",
           logo_url: null,
           industry: "Technology",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -105,6 +121,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Social media and technology company",
           logo_url: null,
           industry: "Technology",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -114,6 +134,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Streaming entertainment service",
           logo_url: null,
           industry: "Entertainment",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -123,6 +147,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Electric vehicle and clean energy company",
           logo_url: null,
           industry: "Automotive",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
@@ -132,6 +160,10 @@ export function CompanySelector({ onSelectCompany, selectedCompanyId }: CompanyS
           description: "Audio streaming and media services provider",
           logo_url: null,
           industry: "Entertainment",
+          answer_time_limit_seconds: null,
+          prep_time_seconds: null,
+          time_limit_minutes: null,
+          organization_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         },
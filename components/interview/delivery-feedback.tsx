@@ -0,0 +1,127 @@
+"use client"
+
+import type React from "react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import {
+  findDeliveryMarks,
+  type DeliveryHistoryEntry,
+  type DeliveryMarkKind,
+  type DeliveryMetrics,
+} from "@/lib/delivery-analysis"
+
+const markStyles: Record<DeliveryMarkKind, string> = {
+  filler: "bg-amber-200 text-amber-950 dark:bg-amber-900 dark:text-amber-100",
+  hedge: "bg-sky-200 text-sky-950 dark:bg-sky-900 dark:text-sky-100",
+  repeat: "underline decoration-red-500 decoration-wavy",
+}
+
+const markNames: Record<DeliveryMarkKind, string> = {
+  filler: "Filler",
+  hedge: "Hedge",
+  repeat: "Repeated start",
+}
+
+// The answer text with its filler words, hedges and repeated starts highlighted
+export function HighlightedTranscript({ text }: { text: string }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+
+  findDeliveryMarks(text).forEach((mark) => {
+    parts.push(text.slice(position, mark.start))
+    parts.push(
+      <mark key={mark.start} className={`rounded px-0.5 ${markStyles[mark.kind]}`} title={markNames[mark.kind]}>
+        {text.slice(mark.start, mark.end)}
+      </mark>,
+    )
+    position = mark.end
+  })
+  parts.push(text.slice(position))
+
+  return <p className="bg-muted p-3 rounded whitespace-pre-wrap">{parts}</p>
+}
+
+export function DeliveryStats({ metrics }: { metrics: DeliveryMetrics }) {
+  const topFillers = Object.entries(metrics.fillers.counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className={markStyles.filler}>
+          Fillers: {metrics.fillers.total} ({metrics.fillers.per_100_words} per 100 words)
+        </Badge>
+        <Badge variant="outline" className={markStyles.hedge}>
+          Hedges: {metrics.hedges.total} ({metrics.hedges.per_100_words} per 100 words)
+        </Badge>
+        <Badge variant="outline">Repeated starts: {metrics.repeated_starts}</Badge>
+        {metrics.words_per_minute !== null && <Badge variant="outline">Pace: {metrics.words_per_minute} wpm</Badge>}
+        {metrics.longest_pause_seconds !== null && (
+          <Badge variant="outline">Longest pause: {metrics.longest_pause_seconds}s</Badge>
+        )}
+      </div>
+      {topFillers.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Most used: {topFillers.map(([label, count]) => `"${label}" ×${count}`).join(", ")}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface DeliveryTrendsProps {
+  history: DeliveryHistoryEntry[]
+  currentInterviewId: string
+}
+
+// Filler and hedge rates across the student's interviews, oldest first, so habits can be tracked over time
+export function DeliveryTrends({ history, currentInterviewId }: DeliveryTrendsProps) {
+  const currentIndex = history.findIndex((entry) => entry.interviewId === currentInterviewId)
+  const current = history[currentIndex]
+
+  if (!current) {
+    return <p className="text-sm text-muted-foreground">There's no transcript to analyze in this interview yet.</p>
+  }
+
+  const previous = currentIndex > 0 ? history[currentIndex - 1] : null
+  const change = previous
+    ? Math.round((current.metrics.fillers.per_100_words - previous.metrics.fillers.per_100_words) * 10) / 10
+    : null
+
+  const data = history.map((entry) => ({
+    name: entry.interviewId === currentInterviewId ? "This interview" : new Date(entry.date).toLocaleDateString(),
+    fillers: entry.metrics.fillers.per_100_words,
+    hedges: entry.metrics.hedges.per_100_words,
+  }))
+
+  return (
+    <div className="space-y-4">
+      <DeliveryStats metrics={current.metrics} />
+
+      {change !== null && (
+        <p className="text-sm text-muted-foreground">
+          {change < 0
+            ? `You used ${Math.abs(change)} fewer filler words per 100 words than in your previous interview.`
+            : change > 0
+              ? `You used ${change} more filler words per 100 words than in your previous interview.`
+              : "Your filler word rate matched your previous interview."}
+        </p>
+      )}
+
+      {data.length > 1 && (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis width={40} />
+            <Tooltip />
+            <Legend />
+            <Line dataKey="fillers" name="Fillers per 100 words" stroke="#f59e0b" />
+            <Line dataKey="hedges" name="Hedges per 100 words" stroke="#0ea5e9" />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  )
+}
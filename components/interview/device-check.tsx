@@ -0,0 +1,393 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { AlertCircle, CheckCircle2, Loader2, Mic, StopCircle, Sun, Volume2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createVoiceAnalyzer, levelPercent, toDecibels } from "@/lib/voice-analysis"
+import { createFaceAnalyzer, type FaceAnalysis } from "@/lib/face-analysis"
+import { loadDeviceProfile, saveDeviceProfile } from "@/lib/device-preferences"
+import { AUDIO_PROCESSING } from "@/lib/recording"
+
+const TEST_RECORDING_SECONDS = 5
+const NOISE_SAMPLE_SECONDS = 3
+const FRAMING_SAMPLE_SECONDS = 3
+
+function describeNoise(noiseFloorDb: number) {
+  if (noiseFloorDb < -50) return "Quiet room"
+  if (noiseFloorDb < -40) return "Some background noise"
+  return "Noisy. Find a quieter spot or use a headset if you can."
+}
+
+// What to fix before recording video, from a few seconds of the camera preview
+function framingTips(analysis: FaceAnalysis) {
+  if (!analysis.measured) return [`Not measured. ${analysis.reason}`]
+
+  const tips: string[] = []
+  if (analysis.face_in_frame_percent < 80) tips.push("We couldn't see your face most of the time.")
+  if (analysis.framing.face_size === "too_small") tips.push("Move closer to the camera.")
+  if (analysis.framing.face_size === "too_close") tips.push("Sit a little further back.")
+  if (analysis.framing.centered_percent !== null && analysis.framing.centered_percent < 70) {
+    tips.push("Center yourself in the frame.")
+  }
+  if (analysis.lighting.quality === "too_dark") tips.push("It's too dark. Add a light in front of you.")
+  if (analysis.lighting.quality === "too_bright") {
+    tips.push("The picture is washed out. Avoid a bright window behind or beside you.")
+  }
+  return tips.length > 0 ? tips : ["You're well framed and lit."]
+}
+
+interface DeviceCheckProps {
+  onComplete: () => void
+}
+
+// Before an interview: pick the camera and microphone, see that both work, and measure the room
+export function DeviceCheck({ onComplete }: DeviceCheckProps) {
+  const savedProfile = useRef(loadDeviceProfile())
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  // What the candidate picked, and the devices the browser actually opened for it
+  const [requestedAudioId, setRequestedAudioId] = useState(savedProfile.current?.audioInputId ?? null)
+  const [requestedVideoId, setRequestedVideoId] = useState(savedProfile.current?.videoInputId ?? null)
+  const [audioInputId, setAudioInputId] = useState<string | null>(null)
+  const [videoInputId, setVideoInputId] = useState<string | null>(null)
+  const [hasCamera, setHasCamera] = useState(false)
+  const [isStarting, setIsStarting] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [inputLevel, setInputLevel] = useState(0)
+
+  const [noiseFloorDb, setNoiseFloorDb] = useState<number | null>(savedProfile.current?.noiseFloorDb ?? null)
+  const [isMeasuringNoise, setIsMeasuringNoise] = useState(false)
+  const [isTestRecording, setIsTestRecording] = useState(false)
+  const [testRecording, setTestRecording] = useState<{ url: string; isVideo: boolean } | null>(null)
+  const [framing, setFraming] = useState<FaceAnalysis | null>(null)
+  const [isCheckingFraming, setIsCheckingFraming] = useState(false)
+
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const voiceAnalyzerRef = useRef<ReturnType<typeof createVoiceAnalyzer> | null>(null)
+  // Frames heard while the noise floor is being measured
+  const noiseSamplesRef = useRef<number[] | null>(null)
+
+  const stopPreview = () => {
+    voiceAnalyzerRef.current?.stop()
+    voiceAnalyzerRef.current = null
+    audioContextRef.current?.close().catch(() => {})
+    audioContextRef.current = null
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+  }
+
+  // Reopen the devices whenever the selection changes
+  useEffect(() => {
+    let cancelled = false
+
+    const start = async () => {
+      setIsStarting(true)
+      setError(null)
+      stopPreview()
+
+      const audio = { ...AUDIO_PROCESSING, ...(requestedAudioId ? { deviceId: { ideal: requestedAudioId } } : {}) }
+      const video = { width: 640, height: 480, ...(requestedVideoId ? { deviceId: { ideal: requestedVideoId } } : {}) }
+
+      let stream: MediaStream
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio, video })
+      } catch (err) {
+        // Audio-only answers don't need a camera, so try again without one before giving up
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio })
+        } catch {
+          if (!cancelled) {
+            setError(
+              err instanceof DOMException && err.name === "NotAllowedError"
+                ? "Please allow access to your microphone and camera in your browser's site settings."
+                : "We couldn't find a working microphone. Check that one is connected and not used by another app.",
+            )
+            setIsStarting(false)
+          }
+          return
+        }
+      }
+
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+
+      streamRef.current = stream
+      const videoTrack = stream.getVideoTracks()[0]
+      setHasCamera(!!videoTrack)
+      if (videoRef.current) {
+        videoRef.current.srcObject = videoTrack ? stream : null
+      }
+
+      // Device labels are only available once permission has been granted
+      const available = await navigator.mediaDevices.enumerateDevices()
+      if (cancelled) return
+      setDevices(available.filter((device) => device.deviceId && device.kind !== "audiooutput"))
+      setAudioInputId(stream.getAudioTracks()[0]?.getSettings().deviceId ?? null)
+      setVideoInputId(videoTrack?.getSettings().deviceId ?? null)
+
+      try {
+        const AudioContextClass = window.AudioContext || window.webkitAudioContext
+        if (!AudioContextClass) throw new Error("Web Audio isn't supported")
+        const audioContext = new AudioContextClass()
+        const analyzer = audioContext.createAnalyser()
+        analyzer.fftSize = 2048
+        audioContext.createMediaStreamSource(stream).connect(analyzer)
+        audioContextRef.current = audioContext
+        voiceAnalyzerRef.current = createVoiceAnalyzer(analyzer, {
+          onFrame: (frame) => {
+            setInputLevel(levelPercent(frame.rms))
+            noiseSamplesRef.current?.push(frame.rms)
+          },
+        })
+      } catch (err) {
+        console.error("Error setting up the level meter:", err)
+      }
+
+      setIsStarting(false)
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+    }
+  }, [requestedAudioId, requestedVideoId])
+
+  useEffect(() => {
+    return () => {
+      stopPreview()
+    }
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      if (testRecording) URL.revokeObjectURL(testRecording.url)
+    }
+  }, [testRecording])
+
+  const measureNoise = () => {
+    setIsMeasuringNoise(true)
+    noiseSamplesRef.current = []
+
+    setTimeout(() => {
+      const samples = noiseSamplesRef.current || []
+      noiseSamplesRef.current = null
+      setIsMeasuringNoise(false)
+      if (samples.length === 0) return
+
+      // Average power over the sample, so a single click doesn't decide it
+      const rms = Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length)
+      setNoiseFloorDb(Math.round(toDecibels(rms)))
+    }, NOISE_SAMPLE_SECONDS * 1000)
+  }
+
+  const recordTest = () => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    try {
+      const chunks: Blob[] = []
+      const recorder = new MediaRecorder(stream)
+      const isVideo = stream.getVideoTracks().length > 0
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data)
+      }
+      recorder.onstop = () => {
+        const blob = new Blob(chunks, { type: recorder.mimeType || (isVideo ? "video/webm" : "audio/webm") })
+        setTestRecording({ url: URL.createObjectURL(blob), isVideo })
+        setIsTestRecording(false)
+      }
+
+      setTestRecording(null)
+      setIsTestRecording(true)
+      recorder.start()
+      setTimeout(() => recorder.state !== "inactive" && recorder.stop(), TEST_RECORDING_SECONDS * 1000)
+    } catch (err) {
+      console.error("Error making test recording:", err)
+      setError(
+        (err instanceof Error && err.message) || "Your browser couldn't record. Please try Chrome, Firefox, or Edge.",
+      )
+      setIsTestRecording(false)
+    }
+  }
+
+  const checkFraming = () => {
+    if (!videoRef.current) return
+
+    setIsCheckingFraming(true)
+    const analyzer = createFaceAnalyzer(videoRef.current, { intervalMs: 250 })
+    setTimeout(() => {
+      setFraming(analyzer.stop())
+      setIsCheckingFraming(false)
+    }, FRAMING_SAMPLE_SECONDS * 1000)
+  }
+
+  const finish = () => {
+    saveDeviceProfile({ audioInputId, videoInputId, noiseFloorDb, checkedAt: Date.now() })
+    stopPreview()
+    onComplete()
+  }
+
+  const skip = () => {
+    stopPreview()
+    onComplete()
+  }
+
+  const microphones = devices.filter((device) => device.kind === "audioinput")
+  const cameras = devices.filter((device) => device.kind === "videoinput")
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Check your camera and microphone</CardTitle>
+        <CardDescription>
+          Make sure everything works before the first question. Your choices are saved for future interviews on this
+          browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Microphone</Label>
+            <Select value={audioInputId ?? undefined} onValueChange={setRequestedAudioId} disabled={isStarting}>
+              <SelectTrigger>
+                <SelectValue placeholder="Default microphone" />
+              </SelectTrigger>
+              <SelectContent>
+                {microphones.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Camera</Label>
+            <Select
+              value={videoInputId ?? undefined}
+              onValueChange={setRequestedVideoId}
+              disabled={isStarting || cameras.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={cameras.length === 0 ? "No camera found" : "Default camera"} />
+              </SelectTrigger>
+              <SelectContent>
+                {cameras.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="relative aspect-video overflow-hidden rounded-md bg-black">
+          <video ref={videoRef} autoPlay playsInline muted className={hasCamera ? "h-full w-full" : "hidden"} />
+          {!hasCamera && (
+            <div className="flex h-full items-center justify-center text-sm text-white">
+              {isStarting ? <Loader2 className="h-6 w-6 animate-spin" /> : "No camera. You can still answer by audio."}
+            </div>
+          )}
+        </div>
+
+        <CheckStep icon={<Mic className="h-4 w-4" />} title="Microphone level">
+          <Progress value={inputLevel} className="h-2" />
+          <p className="text-xs text-muted-foreground">Say a few words. The bar should move when you speak.</p>
+        </CheckStep>
+
+        <CheckStep icon={<Volume2 className="h-4 w-4" />} title="Background noise">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={measureNoise} disabled={isStarting || isMeasuringNoise}>
+              {isMeasuringNoise && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isMeasuringNoise ? "Stay quiet..." : "Measure"}
+            </Button>
+            {noiseFloorDb !== null && !isMeasuringNoise && (
+              <span className="text-sm">
+                {noiseFloorDb} dB: {describeNoise(noiseFloorDb)}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Stay silent for {NOISE_SAMPLE_SECONDS} seconds. Hands-free answers use this to tell your voice from the
+            room.
+          </p>
+        </CheckStep>
+
+        <CheckStep icon={<StopCircle className="h-4 w-4" />} title="Test recording">
+          <Button variant="outline" size="sm" onClick={recordTest} disabled={isStarting || isTestRecording}>
+            {isTestRecording && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isTestRecording ? "Recording..." : `Record ${TEST_RECORDING_SECONDS} seconds`}
+          </Button>
+          {testRecording &&
+            (testRecording.isVideo ? (
+              <video src={testRecording.url} controls className="w-full max-w-sm rounded-md" />
+            ) : (
+              <audio src={testRecording.url} controls className="w-full" />
+            ))}
+        </CheckStep>
+
+        {hasCamera && (
+          <CheckStep icon={<Sun className="h-4 w-4" />} title="Framing and lighting">
+            <Button variant="outline" size="sm" onClick={checkFraming} disabled={isStarting || isCheckingFraming}>
+              {isCheckingFraming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isCheckingFraming ? "Look at the camera..." : "Check"}
+            </Button>
+            {framing && (
+              <ul className="space-y-1 text-sm">
+                {framingTips(framing).map((tip) => (
+                  <li key={tip}>{tip}</li>
+                ))}
+              </ul>
+            )}
+          </CheckStep>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="ghost" onClick={skip}>
+          Skip check
+        </Button>
+        <Button onClick={finish} disabled={isStarting || !!error}>
+          <CheckCircle2 className="mr-2 h-4 w-4" />
+          Save and start interview
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+function CheckStep({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        {icon}
+        {title}
+      </h4>
+      {children}
+    </div>
+  )
+}
+
+// Holds the interview back until the device check is done or skipped
+export function DeviceCheckGate({ children }: { children: React.ReactNode }) {
+  const [isChecked, setIsChecked] = useState(false)
+  return isChecked ? <>{children}</> : <DeviceCheck onComplete={() => setIsChecked(true)} />
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import { Stat } from "@/components/interview/voice-timeline"
+import type { FaceAnalysis, FaceSize, LightingQuality } from "@/lib/face-analysis"
+
+const faceSizeLabels: Record<FaceSize, string> = {
+  too_small: "Move closer to the camera",
+  good: "Well sized in frame",
+  too_close: "Sit a little further back",
+}
+
+const lightingLabels: Record<LightingQuality, string> = {
+  too_dark: "Too dark",
+  good: "Good",
+  too_bright: "Washed out",
+}
+
+// Camera presence for a video answer, or why it wasn't measured
+export function FacePresenceStats({ analysis }: { analysis: FaceAnalysis | null }) {
+  if (!analysis || !analysis.measured) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Not measured. {analysis ? analysis.reason : "Camera presence wasn't analyzed for this recording."}
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+      <Stat label="Face in frame" value={`${analysis.face_in_frame_percent}%`} detail="of the recording" />
+      <Stat
+        label="Eye contact"
+        value={analysis.eye_contact_percent !== null ? `${analysis.eye_contact_percent}%` : "—"}
+        detail="looking toward the camera"
+      />
+      <Stat
+        label="Head movement"
+        value={analysis.head_movement !== null ? `${analysis.head_movement}°/s` : "—"}
+        detail={
+          analysis.head_movement === null ? undefined : analysis.head_movement > 20 ? "Quite restless" : "Steady"
+        }
+      />
+      <Stat
+        label="Framing and lighting"
+        value={analysis.lighting.quality ? lightingLabels[analysis.lighting.quality] : "—"}
+        detail={
+          analysis.framing.face_size
+            ? `${faceSizeLabels[analysis.framing.face_size]}, centered ${analysis.framing.centered_percent ?? 0}% of the time`
+            : undefined
+        }
+      />
+    </div>
+  )
+}
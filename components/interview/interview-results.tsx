@@ -28,6 +28,15 @@ import { Progress } from "@/components/ui/progress"
 import { Slider } from "@/components/ui/slider"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { rubricDimensions } from "@/lib/rubrics"
+import { rollupSkills } from "@/lib/skills"
+import { formatCountdown } from "@/lib/interview-timing"
+import type { VoiceAnalysis } from "@/lib/voice-analysis"
+import { VoiceTimeline } from "@/components/interview/voice-timeline"
+import type { FaceAnalysis } from "@/lib/face-analysis"
+import { FacePresenceStats } from "@/components/interview/face-presence"
+import { analyzeDelivery, type DeliveryHistoryEntry, type DeliveryMetrics } from "@/lib/delivery-analysis"
+import { DeliveryStats, DeliveryTrends, HighlightedTranscript } from "@/components/interview/delivery-feedback"
 
 type Interview = Database["public"]["Tables"]["interviews"]["Row"]
 type Question = Database["public"]["Tables"]["questions"]["Row"] & {
@@ -37,6 +46,11 @@ type Question = Database["public"]["Tables"]["questions"]["Row"] & {
     response_type: "text" | "video" | "audio"
     response_text: string | null
     media_url: string | null
+    voice_analysis: VoiceAnalysis | null
+    face_analysis: FaceAnalysis | null
+    delivery_metrics: DeliveryMetrics | null
+    time_spent_seconds: number | null
+    over_time_limit: boolean
     created_at: string
     feedback: Array<{
       id: string
@@ -45,7 +59,19 @@ type Question = Database["public"]["Tables"]["questions"]["Row"] & {
       improvement_areas: string[] | null
       strengths: string[] | null
       confidence_score: number | null
+      rubric_id: string | null
+      key_points_covered: string[] | null
+      key_points_missed: string[] | null
+      red_flags_triggered: string[] | null
+      analysis_status: "completed" | "unavailable"
+      analysis_error: string | null
       created_at: string
+      feedback_scores: Array<{
+        id: string
+        dimension: string
+        score: number
+        justification: string | null
+      }>
     }>
   }>
 }
@@ -53,9 +79,10 @@ type Question = Database["public"]["Tables"]["questions"]["Row"] & {
 interface InterviewResultsProps {
   interview: Interview
   questions: Question[]
+  deliveryHistory: DeliveryHistoryEntry[]
 }
 
-export function InterviewResults({ interview, questions }: InterviewResultsProps) {
+export function InterviewResults({ interview, questions, deliveryHistory }: InterviewResultsProps) {
   const [activeTab, setActiveTab] = useState("summary")
   const [openAccordionItems, setOpenAccordionItems] = useState<string[]>([])
   const [expandedFeedback, setExpandedFeedback] = useState<string[]>([])
@@ -258,7 +285,8 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
       }
     } catch (err) {
       console.error(`Error in togglePlayback for ${type} ${id}:`, err)
-      setMediaError((prev) => ({ ...prev, [id]: `Error controlling ${type}. ${err?.message || ""}` }))
+      const message = err instanceof Error ? err.message : ""
+      setMediaError((prev) => ({ ...prev, [id]: `Error controlling ${type}. ${message}` }))
     }
   }
 
@@ -442,6 +470,49 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
     return result
   }
 
+  // Average 1-5 score for each rubric dimension, weakest first
+  const getDimensionScores = () => {
+    const dimensions: Record<string, { total: number; count: number }> = {}
+
+    questions.forEach((question) => {
+      question.responses.forEach((response) => {
+        response.feedback.forEach((feedback) => {
+          feedback.feedback_scores?.forEach(({ dimension, score }) => {
+            dimensions[dimension] = dimensions[dimension] || { total: 0, count: 0 }
+            dimensions[dimension].total += score
+            dimensions[dimension].count += 1
+          })
+        })
+      })
+    })
+
+    return Object.entries(dimensions)
+      .map(([dimension, data]) => ({
+        dimension,
+        label: getDimensionLabel(dimension),
+        score: data.total / data.count,
+      }))
+      .sort((a, b) => a.score - b.score)
+  }
+
+  // Average score for each skill the questions were tagged with, weakest first
+  const getSkillScores = () =>
+    rollupSkills(
+      questions.flatMap((question) =>
+        question.responses.flatMap((response) =>
+          response.feedback
+            .filter((feedback) => feedback.confidence_score !== null)
+            .map((feedback) => ({
+              skills: question.skills || [],
+              score: feedback.confidence_score! * 100,
+              date: response.created_at,
+            })),
+        ),
+      ),
+    ).sort((a, b) => a.score - b.score)
+
+  const getDimensionLabel = (dimension: string) => rubricDimensions[dimension]?.label || dimension
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
@@ -462,10 +533,24 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
     alert("This would share your interview results via email or a shareable link.")
   }
 
+  // Time recorded by the server for each answer
+  const getTimingSummary = () => {
+    const times = questions.flatMap((question) => question.responses.filter((r) => r.time_spent_seconds != null))
+
+    return {
+      total: times.reduce((sum, r) => sum + (r.time_spent_seconds || 0), 0),
+      answered: times.length,
+      overLimit: times.filter((r) => r.over_time_limit).length,
+    }
+  }
+
   const overallScore = getOverallScore()
+  const timingSummary = getTimingSummary()
   const strengths = getAllStrengths()
   const improvementAreas = getAllImprovementAreas()
   const categoryScores = getCategoryScores()
+  const dimensionScores = getDimensionScores()
+  const skillScores = getSkillScores()
 
   return (
     <div className="space-y-6">
@@ -535,6 +620,18 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                 </p>
               </div>
 
+              {timingSummary.answered > 0 && (
+                <div className="flex flex-wrap justify-center gap-4 text-sm text-muted-foreground">
+                  <span>Total answer time: {formatCountdown(timingSummary.total)}</span>
+                  <span>Average per question: {formatCountdown(timingSummary.total / timingSummary.answered)}</span>
+                  {interview.answer_time_limit_seconds && (
+                    <span className={timingSummary.overLimit > 0 ? "text-red-500" : ""}>
+                      {timingSummary.overLimit} of {timingSummary.answered} over the time limit
+                    </span>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-4 mt-6">
                 <h3 className="font-semibold text-lg">Performance by Question Type</h3>
 
@@ -551,6 +648,47 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                 </div>
               </div>
 
+              {skillScores.length > 0 && (
+                <div className="space-y-4 mt-8">
+                  <h3 className="font-semibold text-lg">Performance by Skill</h3>
+
+                  <div className="space-y-3">
+                    {skillScores.map(({ skill, label, score, responses }) => (
+                      <div key={skill} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>
+                            {label}{" "}
+                            <span className="text-muted-foreground">
+                              ({responses} {responses === 1 ? "answer" : "answers"})
+                            </span>
+                          </span>
+                          <span>{score}%</span>
+                        </div>
+                        <Progress value={score} className={getProgressColor(score)} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {dimensionScores.length > 0 && (
+                <div className="space-y-4 mt-8">
+                  <h3 className="font-semibold text-lg">Performance by Rubric Dimension</h3>
+
+                  <div className="space-y-3">
+                    {dimensionScores.map(({ dimension, label, score }) => (
+                      <div key={dimension} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>{label}</span>
+                          <span>{score.toFixed(1)} / 5</span>
+                        </div>
+                        <Progress value={(score / 5) * 100} className={getProgressColor((score / 5) * 100)} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="grid gap-6 mt-8 md:grid-cols-2">
                 <div>
                   <h3 className="font-semibold text-lg mb-2">Key Strengths</h3>
@@ -579,6 +717,18 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery Habits</CardTitle>
+              <CardDescription>
+                Filler words, hedging and pacing across your answers, compared with your past interviews
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DeliveryTrends history={deliveryHistory} currentInterviewId={interview.id} />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Next Steps</CardTitle>
@@ -605,13 +755,26 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                   <div>
                     <h4 className="font-medium">Focus on Weak Areas</h4>
                     <p className="text-sm text-muted-foreground">
-                      Concentrate on improving your responses to{" "}
-                      {Object.entries(categoryScores)
-                        .sort((a, b) => a[1] - b[1])
-                        .slice(0, 2)
-                        .map(([category]) => category)
-                        .join(" and ")}{" "}
-                      questions.
+                      {dimensionScores.length > 0 ? (
+                        <>
+                          Concentrate on your{" "}
+                          {dimensionScores
+                            .slice(0, 2)
+                            .map(({ label }) => label.toLowerCase())
+                            .join(" and ")}
+                          , the lowest-scoring parts of your answers.
+                        </>
+                      ) : (
+                        <>
+                          Concentrate on improving your responses to{" "}
+                          {Object.entries(categoryScores)
+                            .sort((a, b) => a[1] - b[1])
+                            .slice(0, 2)
+                            .map(([category]) => category)
+                            .join(" and ")}{" "}
+                          questions.
+                        </>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -671,7 +834,8 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                   <AccordionTrigger className="hover:no-underline">
                     <div className="flex items-center text-left">
                       <span className="font-medium">
-                        Question {index + 1}: {question.question_text.substring(0, 60)}
+                        {question.parent_question_id ? "Follow-up" : `Question ${index + 1}`}:{" "}
+                        {question.question_text.substring(0, 60)}
                         {question.question_text.length > 60 ? "..." : ""}
                       </span>
 
@@ -696,11 +860,20 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                       <div>
                         <h4 className="font-medium mb-2">Question:</h4>
                         <p>{question.question_text}</p>
-                        <div className="mt-2">
+                        <div className="mt-2 flex gap-2">
                           <Badge variant="outline">
-                            {question.question_type?.charAt(0).toUpperCase() + question.question_type?.slice(1) ||
-                              "General"}
+                            {question.question_type
+                              ? question.question_type.charAt(0).toUpperCase() + question.question_type.slice(1)
+                              : "General"}
                           </Badge>
+                          {response?.time_spent_seconds != null && (
+                            <Badge variant={response.over_time_limit ? "destructive" : "outline"}>
+                              Time: {formatCountdown(response.time_spent_seconds)}
+                              {interview.answer_time_limit_seconds &&
+                                ` / ${formatCountdown((interview.prep_time_seconds || 0) + interview.answer_time_limit_seconds)}`}
+                              {response.over_time_limit && " (over limit)"}
+                            </Badge>
+                          )}
                         </div>
                       </div>
 
@@ -708,7 +881,7 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                         <div>
                           <h4 className="font-medium mb-2">Your Response:</h4>
                           {response.response_type === "text" && response.response_text && (
-                            <p className="bg-muted p-3 rounded">{response.response_text}</p>
+                            <HighlightedTranscript text={response.response_text} />
                           )}
 
                           {response.response_type === "video" && response.media_url && (
@@ -849,6 +1022,35 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                             </div>
                           )}
 
+                          {response.response_type !== "text" && response.response_text && (
+                            <div className="mt-4 space-y-2">
+                              <h4 className="font-medium">Transcript:</h4>
+                              <HighlightedTranscript text={response.response_text} />
+                            </div>
+                          )}
+
+                          {response.response_text && (
+                            <div className="mt-4">
+                              <DeliveryStats
+                                metrics={response.delivery_metrics ?? analyzeDelivery(response.response_text)}
+                              />
+                            </div>
+                          )}
+
+                          {response.response_type !== "text" && response.voice_analysis && (
+                            <div className="mt-4 space-y-2">
+                              <h4 className="font-medium">Voice Analysis:</h4>
+                              <VoiceTimeline analysis={response.voice_analysis} />
+                            </div>
+                          )}
+
+                          {response.response_type === "video" && response.face_analysis && (
+                            <div className="mt-4 space-y-2">
+                              <h4 className="font-medium">Camera Presence:</h4>
+                              <FacePresenceStats analysis={response.face_analysis} />
+                            </div>
+                          )}
+
                           <div className="mt-2">
                             <Badge>
                               {response.response_type.charAt(0).toUpperCase() + response.response_type.slice(1)}{" "}
@@ -882,9 +1084,18 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                             </Button>
                           </div>
 
-                          <div className={`bg-primary/5 p-3 rounded ${isFeedbackExpanded ? "" : "line-clamp-3"}`}>
-                            {feedback.feedback_text}
-                          </div>
+                          {feedback.analysis_status === "unavailable" ? (
+                            <Alert className="mb-2">
+                              <AlertCircle className="h-4 w-4" />
+                              <AlertDescription>
+                                Automated analysis was unavailable for this response, so it has not been scored.
+                              </AlertDescription>
+                            </Alert>
+                          ) : (
+                            <div className={`bg-primary/5 p-3 rounded ${isFeedbackExpanded ? "" : "line-clamp-3"}`}>
+                              {feedback.feedback_text}
+                            </div>
+                          )}
 
                           <div className="grid gap-4 mt-4 md:grid-cols-2">
                             {feedback.strengths && feedback.strengths.length > 0 && (
@@ -916,6 +1127,35 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                             )}
                           </div>
 
+                          {(feedback.key_points_covered || feedback.key_points_missed) && (
+                            <div className="mt-4">
+                              <h5 className="font-medium mb-2 text-sm">Key Points:</h5>
+                              <ul className="space-y-1">
+                                {feedback.key_points_covered?.map((point, i) => (
+                                  <li key={`covered-${i}`} className="flex items-start text-sm">
+                                    <CheckCircle className="h-4 w-4 text-green-500 mr-2 shrink-0 mt-0.5" />
+                                    <span>{point}</span>
+                                  </li>
+                                ))}
+                                {feedback.key_points_missed?.map((point, i) => (
+                                  <li key={`missed-${i}`} className="flex items-start text-sm text-muted-foreground">
+                                    <XCircle className="h-4 w-4 text-red-500 mr-2 shrink-0 mt-0.5" />
+                                    <span>Missed: {point}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+
+                          {feedback.red_flags_triggered && feedback.red_flags_triggered.length > 0 && (
+                            <Alert variant="destructive" className="mt-4">
+                              <AlertCircle className="h-4 w-4" />
+                              <AlertDescription>
+                                Watch out for: {feedback.red_flags_triggered.join("; ")}
+                              </AlertDescription>
+                            </Alert>
+                          )}
+
                           {feedback.confidence_score && (
                             <div className="mt-4">
                               <h5 className="font-medium mb-2 text-sm">Response Score:</h5>
@@ -931,6 +1171,29 @@ export function InterviewResults({ interview, questions }: InterviewResultsProps
                               </div>
                             </div>
                           )}
+
+                          {feedback.feedback_scores && feedback.feedback_scores.length > 0 && (
+                            <div className="mt-4">
+                              <h5 className="font-medium mb-2 text-sm">Rubric Scores:</h5>
+                              <div className="space-y-3">
+                                {feedback.feedback_scores.map((dimensionScore) => (
+                                  <div key={dimensionScore.id} className="space-y-1">
+                                    <div className="flex justify-between text-sm">
+                                      <span>{getDimensionLabel(dimensionScore.dimension)}</span>
+                                      <span>{dimensionScore.score} / 5</span>
+                                    </div>
+                                    <Progress
+                                      value={(dimensionScore.score / 5) * 100}
+                                      className={getProgressColor((dimensionScore.score / 5) * 100)}
+                                    />
+                                    {dimensionScore.justification && (
+                                      <p className="text-xs text-muted-foreground">{dimensionScore.justification}</p>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { createClient } from "@/lib/supabase/client"
 import type { Database } from "@/types/supabase"
@@ -10,6 +10,8 @@ import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
 import { useToast } from "@/components/ui/use-toast"
 import {
   ArrowLeft,
@@ -22,9 +24,12 @@ import {
   AlertCircle,
   ThumbsUp,
   ThumbsDown,
+  Volume2,
+  RotateCcw,
+  Clock,
 } from "lucide-react"
 import { MediaRecorder } from "./media-recorder"
-import { saveResponseWithFeedback, completeInterview } from "@/app/actions"
+import { saveResponseWithFeedback, completeInterview, addFollowUpQuestion, startQuestion } from "@/app/actions"
 import {
   Dialog,
   DialogContent,
@@ -36,6 +41,21 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { v4 as uuidv4 } from "uuid"
 import { InterviewSummary } from "./interview-summary"
+import { getTextToSpeechProvider } from "@/lib/tts"
+import { formatCountdown, timingFromRow } from "@/lib/interview-timing"
+import {
+  clearPendingRecording,
+  clearTextDraft,
+  loadPendingRecording,
+  loadTextDraft,
+  savePendingRecording,
+  saveTextDraft,
+  type PendingRecording,
+} from "@/lib/session-recovery"
+import type { VoiceAnalysis } from "@/lib/voice-analysis"
+import type { FaceAnalysis } from "@/lib/face-analysis"
+import { analyzeDelivery } from "@/lib/delivery-analysis"
+import { extensionForMimeType } from "@/lib/media-types"
 
 type Interview = Database["public"]["Tables"]["interviews"]["Row"]
 type Question = Database["public"]["Tables"]["questions"]["Row"]
@@ -43,10 +63,13 @@ type Question = Database["public"]["Tables"]["questions"]["Row"]
 interface InterviewSessionProps {
   interview: Interview
   questions: Question[]
+  initialQuestionIndex?: number // Where a resumed interview picks up
 }
 
-export function InterviewSession({ interview, questions }: InterviewSessionProps) {
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
+export function InterviewSession({ interview, questions: initialQuestions, initialQuestionIndex }: InterviewSessionProps) {
+  // Adaptive interviews grow this list as follow-up questions are inserted
+  const [questions, setQuestions] = useState(initialQuestions)
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(initialQuestionIndex ?? 0)
   const [responseType, setResponseType] = useState<"text" | "video" | "audio">("text")
   const [textResponse, setTextResponse] = useState("")
   const [videoBlob, setVideoBlob] = useState<Blob | null>(null)
@@ -56,14 +79,31 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
   const [feedbackLoading, setFeedbackLoading] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [validationError, setValidationError] = useState<string | null>(null)
-  const [audioAnalysis, setAudioAnalysis] = useState<any>(null)
-  const [videoAnalysis, setVideoAnalysis] = useState<any>(null)
+  const [voiceAnalysis, setVoiceAnalysis] = useState<VoiceAnalysis | null>(null)
+  const [faceAnalysis, setFaceAnalysis] = useState<FaceAnalysis | null>(null)
   const [showPreviewDialog, setShowPreviewDialog] = useState(false)
   const [previewFeedback, setPreviewFeedback] = useState<any>(null)
   const [uploadProgress, setUploadProgress] = useState(0)
-  const [transcribedText, setTranscribedText] = useState<string | null>(null)
   const [uploadError, setUploadError] = useState<string | null>(null)
   const [sessionStartTime] = useState(Date.now())
+  // Voice interviewer mode: questions are spoken aloud and answers recorded hands-free
+  const [voiceMode, setVoiceMode] = useState(false)
+  const [voicePhase, setVoicePhase] = useState<"idle" | "speaking" | "listening">("idle")
+  const [voicePromptKey, setVoicePromptKey] = useState(0)
+  const [isSpeechSupported, setIsSpeechSupported] = useState(false)
+  const ttsRef = useRef(getTextToSpeechProvider())
+  // Server timestamps for the countdowns; clockOffset corrects for the browser clock being off
+  const [questionStartedAt, setQuestionStartedAt] = useState<number | null>(null)
+  const [deadlineAt, setDeadlineAt] = useState<number | null>(null)
+  const [clockOffset, setClockOffset] = useState(0)
+  const [prepSkippedAt, setPrepSkippedAt] = useState<number | null>(null)
+  const [summaryResponses, setSummaryResponses] = useState<
+    Array<{ id: string; question_id: string; response_type: "text" | "video" | "audio"; created_at: string }>
+  >([])
+  const [now, setNow] = useState(Date.now())
+  const timeoutFinishRef = useRef<() => void>(() => {})
+  // A recording made before the page was closed or the upload failed
+  const [recoveredRecording, setRecoveredRecording] = useState<PendingRecording | null>(null)
 
   const router = useRouter()
   const { toast } = useToast()
@@ -71,11 +111,151 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
   const currentQuestion = questions[currentQuestionIndex]
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100
 
+  // Time limits: preparation time, then the answer clock, all within the interview deadline
+  const timing = timingFromRow(interview)
+  const serverNow = now + clockOffset
+  const prepEndsAt =
+    questionStartedAt !== null
+      ? Math.min(questionStartedAt + (timing.prepTimeSeconds || 0) * 1000, prepSkippedAt ?? Infinity)
+      : null
+  const isPreparing = !!timing.prepTimeSeconds && prepEndsAt !== null && serverNow < prepEndsAt
+  const answerSecondsLeft =
+    timing.answerTimeLimitSeconds && prepEndsAt !== null
+      ? (prepEndsAt + timing.answerTimeLimitSeconds * 1000 - serverNow) / 1000
+      : null
+  const interviewSecondsLeft = deadlineAt !== null ? (deadlineAt - serverNow) / 1000 : null
+  const isInterviewTimeUp = interviewSecondsLeft !== null && interviewSecondsLeft <= 0
+  const isAnswerTimeUp = (answerSecondsLeft !== null && answerSecondsLeft <= 0) || isInterviewTimeUp
+
   // Reset media state when changing questions or response type
   useEffect(() => {
     resetResponseState()
   }, [currentQuestionIndex, responseType])
 
+  // Bring back an unsent text answer. Runs after the reset above so the draft wins.
+  useEffect(() => {
+    if (!currentQuestion || responseType !== "text") return
+
+    const draft = loadTextDraft(interview.id, currentQuestion.id)
+    if (draft) {
+      setTextResponse(draft.text)
+    }
+  }, [currentQuestionIndex, responseType])
+
+  useEffect(() => {
+    if (!currentQuestion || isCompleted) return
+
+    let cancelled = false
+    setRecoveredRecording(null)
+
+    loadPendingRecording(interview.id, currentQuestion.id).then((recording) => {
+      if (!cancelled) setRecoveredRecording(recording)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentQuestion?.id, isCompleted])
+
+  // The summary counts the answers that were saved, however the interview ended
+  useEffect(() => {
+    if (!isCompleted) return
+
+    let cancelled = false
+    createClient()
+      .from("responses")
+      .select("id, question_id, response_type, created_at")
+      .in(
+        "question_id",
+        questions.map((question) => question.id),
+      )
+      .then(({ data }) => {
+        if (!cancelled) setSummaryResponses(data || [])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isCompleted])
+
+  useEffect(() => {
+    setIsSpeechSupported(ttsRef.current.isSupported())
+  }, [])
+
+  // The server records when each question was first shown; that is what answers are timed against
+  useEffect(() => {
+    if (!currentQuestion || isCompleted) return
+
+    setQuestionStartedAt(null)
+    setPrepSkippedAt(null)
+
+    startQuestion(currentQuestion.id).then((result) => {
+      if (!result.success || !result.startedAt) return
+
+      setClockOffset(new Date(result.serverTime!).getTime() - Date.now())
+      setQuestionStartedAt(new Date(result.startedAt).getTime())
+      setDeadlineAt(result.deadlineAt ? new Date(result.deadlineAt).getTime() : null)
+    })
+  }, [currentQuestion?.id, isCompleted])
+
+  // Tick the countdowns
+  useEffect(() => {
+    if (isCompleted || (!timing.answerTimeLimitSeconds && !timing.prepTimeSeconds && !timing.interviewTimeLimitMinutes)) {
+      return
+    }
+
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isCompleted])
+
+  // When the interview deadline passes, submit whatever has been answered and end the interview.
+  // The recorder is stopped by the same deadline, so give it a moment to hand over its recording.
+  useEffect(() => {
+    if (!isInterviewTimeUp || isCompleted) return
+
+    const timer = setTimeout(() => timeoutFinishRef.current(), 2000)
+    return () => clearTimeout(timer)
+  }, [isInterviewTimeUp, isCompleted])
+
+  // Speak each question, then hand over to the recorder
+  useEffect(() => {
+    if (!voiceMode || !currentQuestion || isCompleted) {
+      setVoicePhase("idle")
+      return
+    }
+
+    const controller = new AbortController()
+    setResponseType("audio")
+    setVoicePhase("speaking")
+
+    ttsRef.current
+      .speak(currentQuestion.question_text, { signal: controller.signal })
+      .catch((error) => {
+        console.error("Error speaking question:", error)
+        toast({
+          variant: "destructive",
+          title: "Couldn't read the question aloud",
+          description: "Read it on screen instead; recording will start now.",
+        })
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        // Hearing the question replaces the preparation time
+        setPrepSkippedAt(Date.now() + clockOffset)
+        setVoicePhase("listening")
+      })
+
+    return () => controller.abort()
+  }, [voiceMode, currentQuestion?.id, voicePromptKey, isCompleted])
+
+  // Submit as soon as the recorder has the answer, without the confirmation dialog
+  useEffect(() => {
+    if (voiceMode && voicePhase === "listening" && audioBlob && !isSubmitting) {
+      setVoicePhase("idle")
+      confirmSubmission()
+    }
+  }, [voiceMode, voicePhase, audioBlob])
+
   const handleNextQuestion = async () => {
     if (!currentQuestion) return
 
@@ -87,16 +267,32 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
     setShowConfirmDialog(true)
   }
 
-  const confirmSubmission = async () => {
+  const confirmSubmission = async (recovered?: PendingRecording) => {
     setShowConfirmDialog(false)
     setIsSubmitting(true)
 
     try {
       // Save the current response
-      await saveResponse()
+      await saveResponse(recovered)
+
+      // In adaptive mode the server may decide to drill down on this answer
+      let remainingQuestions = questions.length - 1 - currentQuestionIndex
+      if (interview.adaptive) {
+        const followUpResult = await addFollowUpQuestion(currentQuestion.id)
+        const followUp = followUpResult.followUp
+
+        if (followUp) {
+          setQuestions((prev) => [
+            ...prev.slice(0, currentQuestionIndex + 1),
+            followUp,
+            ...prev.slice(currentQuestionIndex + 1),
+          ])
+          remainingQuestions += 1
+        }
+      }
 
       // Move to the next question or complete the interview
-      if (currentQuestionIndex < questions.length - 1) {
+      if (remainingQuestions > 0) {
         setCurrentQuestionIndex(currentQuestionIndex + 1)
         resetResponseState()
       } else {
@@ -116,6 +312,35 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
     }
   }
 
+  const finishOnTimeout = async () => {
+    if (isSubmitting || isCompleted) return
+
+    setIsSubmitting(true)
+    toast({
+      title: "Time is up",
+      description: "The interview time limit has been reached. Submitting what you have answered.",
+    })
+
+    try {
+      const hasAnswer =
+        (responseType === "text" && textResponse.trim()) ||
+        (responseType === "video" && videoBlob) ||
+        (responseType === "audio" && audioBlob)
+
+      if (hasAnswer) {
+        await saveResponse().catch((error) => console.error("Error saving final response:", error))
+      }
+
+      await completeInterviewSession()
+      setIsCompleted(true)
+    } catch (error) {
+      console.error("Error completing timed-out interview:", error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+  timeoutFinishRef.current = finishOnTimeout
+
   const handlePreviousQuestion = () => {
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(currentQuestionIndex - 1)
@@ -128,11 +353,10 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
     setVideoBlob(null)
     setAudioBlob(null)
     setValidationError(null)
-    setAudioAnalysis(null)
-    setVideoAnalysis(null)
+    setVoiceAnalysis(null)
+    setFaceAnalysis(null)
     setPreviewFeedback(null)
     setUploadProgress(0)
-    setTranscribedText(null)
     setUploadError(null)
   }
 
@@ -173,12 +397,13 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
       console.log(`Uploading ${type} blob:`, {
         size: blob.size,
         type: blob.type,
-        lastModified: blob.lastModified,
       })
 
-      // Generate a unique filename
+      // Generate a unique filename; Safari records MP4 and Firefox may record Ogg, so the name and content
+      // type follow the recording instead of assuming WebM
+      const contentType = blob.type || `${type}/webm`
       const timestamp = new Date().getTime()
-      const fileExt = type === "audio" ? "webm" : "webm"
+      const fileExt = extensionForMimeType(contentType)
       const fileName = `interviews/${interview.id}/question_${currentQuestion.id}_${type}_${timestamp}_${uuidv4()}.${fileExt}`
 
       console.log(`Uploading ${type} file: ${fileName}, size: ${blob.size} bytes, type: ${blob.type}`)
@@ -186,23 +411,19 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
       // Create Supabase client
       const supabase = createClient()
 
-      // Upload to Supabase Storage with progress tracking
-      const { data, error } = await supabase.storage.from("responses").upload(fileName, blob, {
-        contentType: type === "audio" ? "audio/webm" : "video/webm",
+      // Upload to Supabase Storage; the client doesn't report progress, so it jumps to 100% when done
+      const { error } = await supabase.storage.from("responses").upload(fileName, blob, {
+        contentType,
         upsert: true,
-        onUploadProgress: (progress) => {
-          const percentage = (progress.loaded / progress.total) * 100
-          setUploadProgress(percentage)
-          console.log(`Upload progress: ${percentage.toFixed(2)}%`)
-        },
       })
 
       if (error) {
         console.error(`Error uploading ${type}:`, error)
         throw error
       }
+      setUploadProgress(100)
 
-      // Get public URL
+      // Stored as the object locator; the bucket is private, so playback goes through signed URLs
       const { data: publicUrlData } = supabase.storage.from("responses").getPublicUrl(fileName)
       console.log(`${type} uploaded successfully. Public URL:`, publicUrlData.publicUrl)
 
@@ -220,30 +441,55 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
     }
   }
 
-  const handleMediaRecordingComplete = (blob: Blob, type: "audio" | "video", transcription?: string) => {
+  const handleTextChange = (text: string) => {
+    setTextResponse(text)
+    saveTextDraft(interview.id, currentQuestion.id, text)
+  }
+
+  const handleMediaRecordingComplete = (
+    blob: Blob,
+    type: "audio" | "video",
+    analysis?: VoiceAnalysis,
+    presence?: FaceAnalysis,
+  ) => {
     console.log(`${type} recording complete, blob size:`, blob.size, "bytes, type:", blob.type)
 
+    // Keep the recording until the server has it, so a reload or failed upload doesn't lose the answer
+    savePendingRecording(interview.id, currentQuestion.id, {
+      blob,
+      mediaType: type,
+      voiceAnalysis: analysis || null,
+      faceAnalysis: presence || null,
+      recordedAt: Date.now(),
+    })
+    setVoiceAnalysis(analysis || null)
+    setFaceAnalysis(presence || null)
+
     if (type === "audio") {
       setAudioBlob(blob)
-      if (transcription) {
-        setTranscribedText(transcription)
-      }
     } else {
       setVideoBlob(blob)
     }
   }
 
-  // Update the saveResponse function to ensure it only uses client-side transcription
-  const saveResponse = async () => {
+  // A recovered recording is submitted as-is instead of whatever is in the form
+  const saveResponse = async (recovered?: PendingRecording) => {
     if (!currentQuestion) return
 
     setFeedbackLoading(true)
+    const submittedType = recovered?.mediaType ?? responseType
+    // Only typed answers carry text; the server transcribes recordings
     let responseText = null
     let mediaUrl = null
 
     try {
       // Process response based on type
-      if (responseType === "text") {
+      if (recovered) {
+        mediaUrl = await uploadMedia(recovered.blob, recovered.mediaType)
+        if (!mediaUrl) {
+          throw new Error(`Failed to upload ${recovered.mediaType}`)
+        }
+      } else if (responseType === "text") {
         responseText = textResponse
       } else if (responseType === "video" && videoBlob) {
         // Upload video to Supabase Storage
@@ -251,38 +497,44 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
         if (!mediaUrl) {
           throw new Error("Failed to upload video")
         }
-
-        // Use transcribed text if available
-        responseText = transcribedText || "Video response (transcription not available)"
       } else if (responseType === "audio" && audioBlob) {
         // Upload audio to Supabase Storage
         mediaUrl = await uploadMedia(audioBlob, "audio")
         if (!mediaUrl) {
           throw new Error("Failed to upload audio")
         }
-
-        // Use transcribed text if available
-        responseText = transcribedText || "Audio response (transcription not available)"
       }
 
       // Save response and generate feedback using Gemini API
       const result = await saveResponseWithFeedback({
         questionId: currentQuestion.id,
-        responseType,
+        responseType: submittedType,
         responseText,
         mediaUrl,
-        questionText: currentQuestion.question_text,
-        jobRole: interview.job_role,
+        // Recordings saved before voice analysis existed have none
+        voiceAnalysis: recovered ? (recovered.voiceAnalysis ?? null) : submittedType === "text" ? null : voiceAnalysis,
+        faceAnalysis: recovered ? (recovered.faceAnalysis ?? null) : submittedType === "video" ? faceAnalysis : null,
       })
 
       if (!result.success) {
         throw new Error(result.error || "Failed to save response")
       }
 
-      toast({
-        title: "Response saved",
-        description: "Your response has been saved and analyzed.",
-      })
+      clearTextDraft(interview.id, currentQuestion.id)
+      await clearPendingRecording(interview.id, currentQuestion.id)
+      setRecoveredRecording(null)
+
+      if (result.feedback?.analysis_status === "unavailable") {
+        toast({
+          title: "Response saved",
+          description: "Your response has been saved, but automated analysis is unavailable right now.",
+        })
+      } else {
+        toast({
+          title: "Response saved",
+          description: "Your response has been saved and analyzed.",
+        })
+      }
     } catch (error) {
       console.error("Error saving response with feedback:", error)
       toast({
@@ -303,47 +555,6 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
       throw new Error(result.error || "Failed to complete interview")
     }
 
-    // Calculate average score based on feedback
-    let totalScore = 0
-    let questionCount = 0
-
-    try {
-      const supabase = createClient()
-
-      // Get responses for this interview
-      const { data: responses } = await supabase
-        .from("responses")
-        .select("id, question_id")
-        .in(
-          "question_id",
-          questions.map((q) => q.id),
-        )
-
-      if (responses && responses.length > 0) {
-        // Get feedback for these responses
-        const { data: feedbacks } = await supabase
-          .from("feedback")
-          .select("confidence_score")
-          .in(
-            "response_id",
-            responses.map((r) => r.id),
-          )
-
-        if (feedbacks && feedbacks.length > 0) {
-          // Calculate average score
-          totalScore = feedbacks.reduce((sum, fb) => sum + Number(fb.confidence_score), 0)
-          questionCount = feedbacks.length
-        }
-      }
-    } catch (error) {
-      console.error("Error calculating score:", error)
-    }
-
-    const averageScore = questionCount > 0 ? Math.round((totalScore / questionCount) * 100) : 0
-
-    // Record performance and XP
-    await recordPerformance(averageScore)
-
     toast({
       title: "Interview completed",
       description: "Your mock interview has been completed successfully.",
@@ -356,86 +567,6 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
     setIsCompleted(true)
   }
 
-  const recordPerformance = async (score: number) => {
-    try {
-      const supabase = createClient()
-
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.auth.getUser()
-
-      if (!user) return
-
-      // Record performance for each question
-      for (const question of questions) {
-        // Get the response for this question
-        const { data: response } = await supabase.from("responses").select("id").eq("question_id", question.id).single()
-
-        if (!response) continue
-
-        // Get feedback for this response
-        const { data: feedback } = await supabase
-          .from("feedback")
-          .select("confidence_score, feedback_text")
-          .eq("response_id", response.id)
-          .single()
-
-        if (!feedback) continue
-
-        // Calculate question score based on confidence score (0-100)
-        const questionScore = Math.round(Number(feedback.confidence_score) * 100)
-
-        // Record performance
-        await supabase.from("student_performance").insert({
-          student_id: user.id,
-          interview_id: interview.id,
-          question_id: question.id,
-          score: questionScore,
-          feedback: feedback.feedback_text,
-          xp_earned: Math.floor(questionScore / 10), // 1 XP for every 10 points
-        })
-
-        // Update student XP
-        const { data: existingXP } = await supabase.from("student_xp").select("*").eq("student_id", user.id).single()
-
-        const xpEarned = Math.floor(questionScore / 10)
-
-        if (existingXP) {
-          // Update existing record
-          const newTotalXP = existingXP.total_xp + xpEarned
-          const newLevel = Math.floor(newTotalXP / 1000) + 1 // Level up every 1000 XP
-
-          await supabase
-            .from("student_xp")
-            .update({
-              total_xp: newTotalXP,
-              level: newLevel,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("student_id", user.id)
-        } else {
-          // Create new record
-          await supabase.from("student_xp").insert({
-            student_id: user.id,
-            total_xp: xpEarned,
-            level: Math.floor(xpEarned / 1000) + 1,
-          })
-        }
-      }
-    } catch (error) {
-      console.error("Error recording performance:", error)
-    }
-  }
-
-  const handleAnalysisUpdate = (analysis: any) => {
-    if (responseType === "audio") {
-      setAudioAnalysis(analysis)
-    } else {
-      setVideoAnalysis(analysis)
-    }
-  }
-
   const handlePreviewResponse = async () => {
     if (!validateResponse()) {
       return
@@ -464,42 +595,48 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
 
         if (textResponse.length > 200) strengths.push("Comprehensive answer")
         else improvements.push("Elaborate on your points")
-      } else if (responseType === "audio") {
-        // Analyze audio response
-        if (audioAnalysis) {
-          if (audioAnalysis.volume > 70) strengths.push("Good volume level")
-          else improvements.push("Speak a bit louder")
+      } else if (voiceAnalysis?.signal) {
+        // Delivery of a recorded answer, from the voice analysis
+        const { loudness, pitch, pauses } = voiceAnalysis.signal
 
-          if (audioAnalysis.pace > 70) strengths.push("Good speaking pace")
-          else improvements.push("Adjust your speaking pace")
+        if (loudness.mean_db !== null && loudness.mean_db >= -35) strengths.push("Good volume level")
+        else improvements.push("Speak a bit louder")
 
-          if (audioAnalysis.clarity > 70) strengths.push("Clear articulation")
-          else improvements.push("Work on clarity of speech")
+        if (loudness.consistency !== null && loudness.consistency >= 60) strengths.push("Steady volume")
+        else improvements.push("Keep your volume steady")
 
-          if (audioAnalysis.confidence > 70) strengths.push("Confident delivery")
-          else improvements.push("Work on sounding more confident")
+        if (pitch.variability_semitones !== null && pitch.variability_semitones >= 1.5) {
+          strengths.push("Expressive intonation")
+        } else {
+          improvements.push("Vary your tone to avoid sounding monotone")
         }
-      } else if (responseType === "video") {
-        // Analyze video response
-        if (videoAnalysis) {
-          if (videoAnalysis.volume > 70) strengths.push("Good volume level")
-          else improvements.push("Speak a bit louder")
 
-          if (videoAnalysis.pace > 70) strengths.push("Good speaking pace")
-          else improvements.push("Adjust your speaking pace")
+        if (pauses.longest_seconds <= 3) strengths.push("Smooth delivery without long pauses")
+        else improvements.push("Avoid long pauses mid-answer")
+      }
 
-          if (videoAnalysis.clarity > 70) strengths.push("Clear articulation")
-          else improvements.push("Work on clarity of speech")
+      // Camera presence, only when it was actually measured
+      if (responseType === "video" && faceAnalysis?.measured) {
+        if (faceAnalysis.face_in_frame_percent < 80) improvements.push("Stay in frame while you answer")
 
-          if (videoAnalysis.confidence > 70) strengths.push("Confident delivery")
-          else improvements.push("Work on sounding more confident")
+        if (faceAnalysis.eye_contact_percent !== null && faceAnalysis.eye_contact_percent >= 60) {
+          strengths.push("Good eye contact")
+        } else if (faceAnalysis.eye_contact_percent !== null) {
+          improvements.push("Look at the camera more often")
+        }
 
-          if (videoAnalysis.facialExpressions > 70) strengths.push("Good facial expressions")
-          else improvements.push("Use more expressive facial cues")
+        if (faceAnalysis.lighting.quality === "too_dark") improvements.push("Add some light in front of you")
+      }
 
-          if (videoAnalysis.eyeContact > 70) strengths.push("Good eye contact")
-          else improvements.push("Maintain better eye contact")
-        }
+      // Delivery habits in a typed answer; recordings get theirs from the server transcript after grading
+      if (responseType === "text" && textResponse.trim()) {
+        const delivery = analyzeDelivery(textResponse)
+
+        if (delivery.fillers.per_100_words <= 2) strengths.push("Few filler words")
+        else improvements.push(`Cut down on filler words (${delivery.fillers.total} found)`)
+
+        if (delivery.hedges.per_100_words > 3) improvements.push("Hedge less and state your points directly")
+        if (delivery.repeated_starts > 2) improvements.push("Pause to collect your thoughts instead of restarting")
       }
 
       // Ensure we have at least some feedback
@@ -551,10 +688,14 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
 
   if (isCompleted) {
     const totalTimeSpent = Math.floor((Date.now() - sessionStartTime) / 1000)
+    const answeredQuestions = questions.map((question) => ({
+      ...question,
+      responses: summaryResponses.filter((response) => response.question_id === question.id),
+    }))
 
     return (
       <div className="space-y-6">
-        <InterviewSummary interview={interview} questions={questions} totalTime={totalTimeSpent} />
+        <InterviewSummary interview={interview} questions={answeredQuestions} totalTime={totalTimeSpent} />
       </div>
     )
   }
@@ -574,16 +715,50 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
             Question {currentQuestionIndex + 1} of {questions.length}
           </span>
         </div>
-        <Progress value={progress} className="w-1/3" />
+        <div className="flex items-center space-x-4 w-1/2 justify-end">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="voice-mode"
+              checked={voiceMode}
+              onCheckedChange={setVoiceMode}
+              disabled={!isSpeechSupported || isSubmitting}
+            />
+            <Label htmlFor="voice-mode" className="text-sm">
+              Voice interviewer
+            </Label>
+          </div>
+          {interviewSecondsLeft !== null && (
+            <Badge variant={interviewSecondsLeft <= 60 ? "destructive" : "outline"} className="whitespace-nowrap">
+              <Clock className="h-3 w-3 mr-1" />
+              {formatCountdown(interviewSecondsLeft)} left
+            </Badge>
+          )}
+          <Progress value={progress} className="w-2/3" />
+        </div>
       </div>
 
       <Card>
         <CardHeader>
           <div className="flex items-start justify-between">
             <div>
-              <CardTitle className="text-xl">Question {currentQuestionIndex + 1}</CardTitle>
+              <CardTitle className="text-xl">
+                {currentQuestion?.parent_question_id ? "Follow-up Question" : `Question ${currentQuestionIndex + 1}`}
+              </CardTitle>
               <CardDescription>{getQuestionTypeBadge(currentQuestion?.question_type)}</CardDescription>
             </div>
+            {isPreparing && prepEndsAt !== null ? (
+              <Badge variant="secondary" className="text-sm">
+                <Clock className="h-4 w-4 mr-1" />
+                Prepare: {formatCountdown((prepEndsAt - serverNow) / 1000)}
+              </Badge>
+            ) : (
+              answerSecondsLeft !== null && (
+                <Badge variant={answerSecondsLeft <= 15 ? "destructive" : "outline"} className="text-sm">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {isAnswerTimeUp ? "Time's up" : `${formatCountdown(answerSecondsLeft)} to answer`}
+                </Badge>
+              )
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -603,44 +778,136 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
             </Alert>
           )}
 
-          <Tabs value={responseType} onValueChange={(value) => setResponseType(value as any)}>
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="text">
-                <Type className="h-4 w-4 mr-2" />
-                Text
-              </TabsTrigger>
-              <TabsTrigger value="video">
-                <Video className="h-4 w-4 mr-2" />
-                Video
-              </TabsTrigger>
-              <TabsTrigger value="audio">
-                <Mic className="h-4 w-4 mr-2" />
-                Audio
-              </TabsTrigger>
-            </TabsList>
-            <TabsContent value="text" className="mt-4">
-              <Textarea
-                placeholder="Type your answer here..."
-                className="min-h-[200px]"
-                value={textResponse}
-                onChange={(e) => setTextResponse(e.target.value)}
-              />
-            </TabsContent>
-            <TabsContent value="video" className="mt-4">
-              <MediaRecorder
-                onRecordingComplete={handleMediaRecordingComplete}
-                onAnalysisUpdate={handleAnalysisUpdate}
-                defaultType="video"
-              />
-            </TabsContent>
-            <TabsContent value="audio" className="mt-4">
-              <MediaRecorder
-                onRecordingComplete={handleMediaRecordingComplete}
-                onAnalysisUpdate={handleAnalysisUpdate}
-                defaultType="audio"
-              />
-            </TabsContent>
-          </Tabs>
+          {recoveredRecording && !audioBlob && !videoBlob && !isSubmitting && (
+            <Alert className="mb-4">
+              <RotateCcw className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between gap-4">
+                <span>
+                  You have an unsent {recoveredRecording.mediaType} answer recorded{" "}
+                  {new Date(recoveredRecording.recordedAt).toLocaleTimeString()}.
+                </span>
+                <span className="flex shrink-0 gap-2">
+                  <Button size="sm" onClick={() => confirmSubmission(recoveredRecording)}>
+                    Submit recording
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      clearPendingRecording(interview.id, currentQuestion.id)
+                      setRecoveredRecording(null)
+                    }}
+                  >
+                    Discard
+                  </Button>
+                </span>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isAnswerTimeUp && !isInterviewTimeUp && (
+            <Alert className="mb-4">
+              <Clock className="h-4 w-4" />
+              <AlertDescription>
+                Time is up for this question. Submit what you have to move on.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isPreparing && !voiceMode ? (
+            <div className="flex flex-col items-center justify-center p-6 border rounded-lg space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Take a moment to plan your answer. The answer clock starts when preparation time ends.
+              </p>
+              <Button variant="outline" onClick={() => setPrepSkippedAt(serverNow)}>
+                Start answering now
+              </Button>
+            </div>
+          ) : voiceMode ? (
+            <div className="space-y-4">
+              {voicePhase === "speaking" ? (
+                <div className="flex flex-col items-center justify-center p-6 border rounded-lg">
+                  <Volume2 className="h-8 w-8 text-primary animate-pulse mb-2" />
+                  <p className="text-sm text-muted-foreground">The interviewer is asking the question...</p>
+                </div>
+              ) : voicePhase === "listening" ? (
+                <MediaRecorder
+                  key={`${currentQuestion?.id}-${voicePromptKey}`}
+                  onRecordingComplete={handleMediaRecordingComplete}
+                  defaultType="audio"
+                  autoStart
+                  stopOnSilence
+                  timeUp={isAnswerTimeUp}
+                />
+              ) : isSubmitting ? (
+                <div className="flex flex-col items-center justify-center p-6 border rounded-lg">
+                  <Loader2 className="h-8 w-8 animate-spin mb-2" />
+                  <p className="text-sm text-muted-foreground">Submitting your answer...</p>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center p-6 border rounded-lg">
+                  <AlertCircle className="h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">Repeat the question to answer again.</p>
+                </div>
+              )}
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    resetResponseState()
+                    setVoicePromptKey((key) => key + 1)
+                  }}
+                  disabled={isSubmitting}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Repeat question
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Tabs value={responseType} onValueChange={(value) => setResponseType(value as any)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="text">
+                  <Type className="h-4 w-4 mr-2" />
+                  Text
+                </TabsTrigger>
+                <TabsTrigger value="video">
+                  <Video className="h-4 w-4 mr-2" />
+                  Video
+                </TabsTrigger>
+                <TabsTrigger value="audio">
+                  <Mic className="h-4 w-4 mr-2" />
+                  Audio
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="text" className="mt-4">
+                <Textarea
+                  placeholder="Type your answer here..."
+                  className="min-h-[200px]"
+                  value={textResponse}
+                  onChange={(e) => handleTextChange(e.target.value)}
+                  readOnly={isAnswerTimeUp}
+                />
+              </TabsContent>
+              <TabsContent value="video" className="mt-4">
+                <MediaRecorder
+                  onRecordingComplete={handleMediaRecordingComplete}
+                  defaultType="video"
+                  timeUp={isAnswerTimeUp}
+                  uploading={isSubmitting}
+                />
+              </TabsContent>
+              <TabsContent value="audio" className="mt-4">
+                <MediaRecorder
+                  onRecordingComplete={handleMediaRecordingComplete}
+                  defaultType="audio"
+                  timeUp={isAnswerTimeUp}
+                  uploading={isSubmitting}
+                />
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button
@@ -713,7 +980,7 @@ export function InterviewSession({ interview, questions }: InterviewSessionProps
             <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={confirmSubmission}>Submit</Button>
+            <Button onClick={() => confirmSubmission()}>Submit</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
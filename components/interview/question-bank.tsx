@@ -7,15 +7,12 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { createClient } from "@/lib/supabase/client"
+import { getOrganizationId, visibleCompaniesFilter } from "@/lib/organizations"
+import { fetchQuestionBank } from "@/app/actions"
+import { skillLabel } from "@/lib/skills"
 import { Search, Filter, BookOpen, Building2 } from "lucide-react"
-import type { Database } from "@/types/supabase"
 
-type CompanyQuestion = Database["public"]["Tables"]["company_questions"]["Row"] & {
-  companies: {
-    name: string
-    industry: string | null
-  }
-}
+type CompanyQuestion = Awaited<ReturnType<typeof fetchQuestionBank>>["questions"][number]
 
 export function QuestionBank() {
   const [questions, setQuestions] = useState<CompanyQuestion[]>([])
@@ -24,6 +21,8 @@ export function QuestionBank() {
   const [selectedCompany, setSelectedCompany] = useState<string>("all")
   const [selectedType, setSelectedType] = useState<string>("all")
   const [selectedLevel, setSelectedLevel] = useState<string>("all")
+  const [selectedSkill, setSelectedSkill] = useState<string>("all")
+  const [selectedTag, setSelectedTag] = useState<string>("all")
   const [isLoading, setIsLoading] = useState(true)
   const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([])
 
@@ -34,23 +33,15 @@ export function QuestionBank() {
 
   useEffect(() => {
     filterQuestions()
-  }, [questions, searchTerm, selectedCompany, selectedType, selectedLevel])
+  }, [questions, searchTerm, selectedCompany, selectedType, selectedLevel, selectedSkill, selectedTag])
 
   const fetchQuestions = async () => {
     try {
-      const supabase = createClient()
-
-      const { data, error } = await supabase
-        .from("company_questions")
-        .select(`
-          *,
-          companies(name, industry)
-        `)
-        .order("created_at", { ascending: false })
+      const result = await fetchQuestionBank()
 
-      if (error) throw error
+      if (!result.success) throw new Error(result.error)
 
-      setQuestions(data || [])
+      setQuestions(result.questions)
     } catch (error) {
       console.error("Error fetching questions:", error)
     } finally {
@@ -61,8 +52,13 @@ export function QuestionBank() {
   const fetchCompanies = async () => {
     try {
       const supabase = createClient()
+      const organizationId = await getOrganizationId(supabase)
 
-      const { data, error } = await supabase.from("companies").select("id, name").order("name")
+      const { data, error } = await supabase
+        .from("companies")
+        .select("id, name")
+        .or(visibleCompaniesFilter(organizationId))
+        .order("name")
 
       if (error) throw error
 
@@ -99,6 +95,15 @@ export function QuestionBank() {
       filtered = filtered.filter((q) => q.experience_level === selectedLevel)
     }
 
+    // Filter by skill and tag
+    if (selectedSkill !== "all") {
+      filtered = filtered.filter((q) => q.skills?.includes(selectedSkill))
+    }
+
+    if (selectedTag !== "all") {
+      filtered = filtered.filter((q) => q.tags?.includes(selectedTag))
+    }
+
     setFilteredQuestions(filtered)
   }
 
@@ -139,6 +144,12 @@ export function QuestionBank() {
     )
   }
 
+  // Only offer the skills and tags that appear on visible questions
+  const skillOptions = Array.from(new Set(questions.flatMap((q) => q.skills || []))).sort((a, b) =>
+    skillLabel(a).localeCompare(skillLabel(b)),
+  )
+  const tagOptions = Array.from(new Set(questions.flatMap((q) => q.tags || []))).sort()
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -174,7 +185,7 @@ export function QuestionBank() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
@@ -223,6 +234,34 @@ export function QuestionBank() {
                 <SelectItem value="3-plus-years">3+ Years</SelectItem>
               </SelectContent>
             </Select>
+
+            <Select value={selectedSkill} onValueChange={setSelectedSkill}>
+              <SelectTrigger>
+                <SelectValue placeholder="Skill" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Skills</SelectItem>
+                {skillOptions.map((skill) => (
+                  <SelectItem key={skill} value={skill}>
+                    {skillLabel(skill)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedTag} onValueChange={setSelectedTag}>
+              <SelectTrigger>
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Tags</SelectItem>
+                {tagOptions.map((tag) => (
+                  <SelectItem key={tag} value={tag}>
+                    {tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -253,6 +292,20 @@ export function QuestionBank() {
               </CardHeader>
               <CardContent>
                 <p className="text-lg mb-4">{question.question_text}</p>
+                {(question.skills?.length > 0 || question.tags?.length > 0) && (
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {question.skills?.map((skill) => (
+                      <Badge key={skill} variant="secondary" className="text-xs font-normal">
+                        {skillLabel(skill)}
+                      </Badge>
+                    ))}
+                    {question.tags?.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs font-normal">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <div className="flex justify-end">
                   <Button variant="outline" size="sm">
                     Practice This Question
@@ -0,0 +1,159 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, Mic, Pause, Play, Volume2, VolumeX } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { formatDuration, type RecorderMediaType } from "@/lib/recording"
+
+interface RecordingPlaybackProps {
+  url: string
+  mediaType: RecorderMediaType
+  durationSeconds: number // from the recorder, for browsers that can't read a recording's length until it has played
+}
+
+// Play back a finished answer, audio or video, with the same seek and volume controls
+export function RecordingPlayback({ url, mediaType, durationSeconds }: RecordingPlaybackProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [isToggling, setIsToggling] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(durationSeconds)
+  const [volume, setVolume] = useState(0.5)
+  const [previousVolume, setPreviousVolume] = useState(0.5)
+  const [error, setError] = useState<string | null>(null)
+
+  const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement | null>(null)
+
+  useEffect(() => {
+    setIsPlaying(false)
+    setIsLoaded(false)
+    setCurrentTime(0)
+    setDuration(durationSeconds)
+    setError(null)
+  }, [url])
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.volume = volume
+  }, [volume])
+
+  const handleLoadedMetadata = () => {
+    const element = mediaRef.current
+    // Recorded WebM often reports an infinite duration until the whole file has been read
+    if (element && Number.isFinite(element.duration) && element.duration > 0) {
+      setDuration(element.duration)
+    }
+    setIsLoaded(true)
+  }
+
+  const togglePlayback = async () => {
+    const element = mediaRef.current
+    if (!element || isToggling) return
+
+    setIsToggling(true)
+    try {
+      if (isPlaying) {
+        element.pause()
+        setIsPlaying(false)
+      } else {
+        await element.play()
+        setIsPlaying(true)
+      }
+    } catch (err) {
+      console.error(`Error playing ${mediaType}:`, err)
+      setError(`Error playing ${mediaType}: ${err instanceof Error ? err.message : "Unknown error"}`)
+    } finally {
+      setIsToggling(false)
+    }
+  }
+
+  const seek = (value: number[]) => {
+    if (mediaRef.current) {
+      mediaRef.current.currentTime = value[0]
+      setCurrentTime(value[0])
+    }
+  }
+
+  const toggleMute = () => {
+    if (volume > 0) {
+      setPreviousVolume(volume)
+      setVolume(0)
+    } else {
+      setVolume(previousVolume || 0.5)
+    }
+  }
+
+  const mediaEvents = {
+    src: url,
+    onLoadedMetadata: handleLoadedMetadata,
+    onCanPlay: () => setIsLoaded(true),
+    onTimeUpdate: () => setCurrentTime(mediaRef.current?.currentTime ?? 0),
+    onEnded: () => setIsPlaying(false),
+    onError: () => setError(`Error loading the ${mediaType}. Please record it again.`),
+  }
+
+  return (
+    <div className="space-y-4">
+      {mediaType === "video" ? (
+        <div className="aspect-video bg-black">
+          <video
+            ref={(element) => {
+              mediaRef.current = element
+            }}
+            playsInline
+            className="w-full h-full object-cover"
+            {...mediaEvents}
+          />
+        </div>
+      ) : (
+        <div className="flex items-center justify-center p-6">
+          <audio
+            ref={(element) => {
+              mediaRef.current = element
+            }}
+            className="hidden"
+            {...mediaEvents}
+          />
+          <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+            <Mic className="h-8 w-8 text-primary" />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 px-4">
+        <Slider value={[currentTime]} max={duration || 1} step={0.1} onValueChange={seek} disabled={!isLoaded} />
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>{formatDuration(currentTime)}</span>
+          <span>{formatDuration(duration)}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 px-4 pb-4">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 rounded-full"
+          onClick={togglePlayback}
+          disabled={isToggling || !isLoaded}
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isToggling ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : isPlaying ? (
+            <Pause className="h-5 w-5" />
+          ) : (
+            <Play className="h-5 w-5" />
+          )}
+        </Button>
+
+        <Button variant="ghost" size="icon" onClick={toggleMute} aria-label={volume > 0 ? "Mute" : "Unmute"}>
+          {volume > 0 ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+        </Button>
+
+        <Slider value={[volume]} max={1} step={0.01} onValueChange={(value) => setVolume(value[0])} className="w-24" />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  )
+}
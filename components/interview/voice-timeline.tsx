@@ -0,0 +1,125 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { SpeakingRate, VoiceAnalysis, VoiceSignal } from "@/lib/voice-analysis"
+
+function describePitch(semitones: number | null) {
+  if (semitones === null) return "Not enough voiced speech"
+  if (semitones < 1.5) return "Fairly monotone"
+  if (semitones > 4) return "Very animated"
+  return "Natural variation"
+}
+
+function describePace(wordsPerMinute: number) {
+  if (wordsPerMinute < 110) return "Slow"
+  if (wordsPerMinute > 170) return "Fast"
+  return "Conversational"
+}
+
+// One headline number with an optional explanation underneath
+export function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  )
+}
+
+interface VoiceStatsProps {
+  signal: VoiceSignal | null
+  speakingRate?: SpeakingRate | null
+}
+
+// Headline numbers for a recording: loudness, how steady it was, intonation, pauses and pace
+export function VoiceStats({ signal, speakingRate }: VoiceStatsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+      {signal && (
+        <>
+          <Stat
+            label="Volume"
+            value={signal.loudness.mean_db !== null ? `${signal.loudness.mean_db} dB` : "—"}
+            detail={
+              signal.loudness.consistency !== null ? `${signal.loudness.consistency}% consistent` : "No speech heard"
+            }
+          />
+          <Stat
+            label="Pitch variation"
+            value={
+              signal.pitch.variability_semitones !== null ? `${signal.pitch.variability_semitones} semitones` : "—"
+            }
+            detail={describePitch(signal.pitch.variability_semitones)}
+          />
+          <Stat
+            label="Pauses"
+            value={String(signal.pauses.count)}
+            detail={signal.pauses.count > 0 ? `Longest ${signal.pauses.longest_seconds}s` : undefined}
+          />
+        </>
+      )}
+      {speakingRate && (
+        <Stat
+          label="Speaking rate"
+          value={`${speakingRate.words_per_minute} wpm`}
+          detail={`${describePace(speakingRate.words_per_minute)}, ${speakingRate.articulation_rate} wpm while talking`}
+        />
+      )}
+    </div>
+  )
+}
+
+// Loudness and pitch over the course of an answer, with pauses shaded
+export function VoiceTimeline({ analysis }: { analysis: VoiceAnalysis }) {
+  const { signal } = analysis
+  const data = signal
+    ? signal.timeline.loudness_db.map((loudness, index) => ({
+        time: Math.round(index * signal.timeline.step_seconds * 10) / 10,
+        loudness,
+        pitch: signal.timeline.pitch_hz[index],
+      }))
+    : []
+
+  const pauses = signal?.pauses.segments.map(([start, end]) => (
+    <ReferenceArea key={start} x1={start} x2={end} fill="hsl(var(--muted-foreground))" fillOpacity={0.15} />
+  ))
+
+  return (
+    <div className="space-y-4">
+      <VoiceStats signal={signal} speakingRate={analysis.speaking_rate} />
+
+      {data.length > 1 && (
+        <>
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Loudness (dB)</p>
+            <ResponsiveContainer width="100%" height={140}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" type="number" domain={["dataMin", "dataMax"]} unit="s" />
+                <YAxis domain={[-60, 0]} width={40} />
+                <Tooltip />
+                {pauses}
+                <Line dataKey="loudness" name="Loudness (dB)" stroke="#3b82f6" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Pitch (Hz)</p>
+            <ResponsiveContainer width="100%" height={140}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" type="number" domain={["dataMin", "dataMax"]} unit="s" />
+                <YAxis domain={["auto", "auto"]} width={40} />
+                <Tooltip />
+                {pauses}
+                <Line dataKey="pitch" name="Pitch (Hz)" stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-muted-foreground">Shaded areas are pauses of half a second or longer.</p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Merge, X } from "lucide-react"
+import { dismissDuplicates, findDuplicateQuestions, mergeQuestions } from "@/app/recruiter/actions"
+
+interface DuplicateQuestion {
+  id: string
+  question_text: string
+  question_type: string | null
+  experience_level: string
+  model_answer: string | null
+  key_points: string[] | null
+  created_at: string
+  companies?: { name: string } | null
+}
+
+interface DuplicateGroup {
+  items: DuplicateQuestion[]
+  similarity: number
+}
+
+interface DuplicateReviewProps {
+  onClose: () => void
+  onMerged: () => void
+}
+
+// Lists groups of look-alike questions so the recruiter can merge each group into one question,
+// or mark the group as different questions so it isn't offered again
+export function DuplicateReview({ onClose, onMerged }: DuplicateReviewProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [keep, setKeep] = useState<Record<number, string>>({})
+  const [busyGroup, setBusyGroup] = useState<number | null>(null)
+
+  useEffect(() => {
+    loadGroups()
+  }, [])
+
+  const loadGroups = async () => {
+    setLoading(true)
+    setError(null)
+
+    const result = await findDuplicateQuestions()
+    if (result.success) {
+      setGroups(result.groups as DuplicateGroup[])
+      setKeep({})
+    } else {
+      setError(result.error || "Failed to look for duplicates")
+    }
+
+    setLoading(false)
+  }
+
+  // Default to keeping the question with the most detail, then the oldest
+  const defaultKeep = (group: DuplicateGroup) =>
+    [...group.items].sort(
+      (a, b) =>
+        Number(!!b.model_answer) - Number(!!a.model_answer) ||
+        (b.key_points?.length || 0) - (a.key_points?.length || 0) ||
+        a.created_at.localeCompare(b.created_at),
+    )[0].id
+
+  const handleMerge = async (group: DuplicateGroup, index: number) => {
+    const keepId = keep[index] || defaultKeep(group)
+    setBusyGroup(index)
+
+    const result = await mergeQuestions(
+      keepId,
+      group.items.filter((question) => question.id !== keepId).map((question) => question.id),
+    )
+
+    setBusyGroup(null)
+    if (result.success) {
+      onMerged()
+      await loadGroups()
+    } else {
+      setError(result.error || "Failed to merge questions")
+    }
+  }
+
+  const handleDismiss = async (group: DuplicateGroup, index: number) => {
+    setBusyGroup(index)
+    const result = await dismissDuplicates(group.items.map((question) => question.id))
+    setBusyGroup(null)
+
+    if (result.success) {
+      setGroups((current) => current.filter((_, i) => i !== index))
+    } else {
+      setError(result.error || "Failed to update duplicates")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Possible Duplicates</CardTitle>
+          <CardDescription>
+            Questions for the same company and experience level that read alike. Merging keeps the selected question,
+            adds the others' key points, red flags, tags and skills to it, and deletes the rest.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close duplicate review">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Looking for duplicates...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No duplicate questions found.</p>
+        ) : (
+          groups.map((group, index) => (
+            <div key={group.items.map((question) => question.id).join(":")} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{Math.round(group.similarity * 100)}% similar</Badge>
+                <Badge variant="outline">{group.items[0].companies?.name || "General"}</Badge>
+                <Badge variant="outline">{group.items[0].experience_level}</Badge>
+              </div>
+
+              <RadioGroup
+                value={keep[index] || defaultKeep(group)}
+                onValueChange={(value) => setKeep((current) => ({ ...current, [index]: value }))}
+              >
+                {group.items.map((question) => (
+                  <div key={question.id} className="flex items-start gap-3">
+                    <RadioGroupItem value={question.id} id={`keep-${question.id}`} className="mt-1" />
+                    <Label htmlFor={`keep-${question.id}`} className="font-normal leading-snug">
+                      {question.question_text}
+                      <span className="block text-xs text-muted-foreground">
+                        {question.question_type || "general"}
+                        {question.model_answer ? " · has model answer" : ""}
+                        {question.key_points?.length ? ` · ${question.key_points.length} key points` : ""}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleMerge(group, index)} disabled={busyGroup !== null}>
+                  <Merge className="h-4 w-4 mr-2" />
+                  {busyGroup === index ? "Merging..." : "Merge into selected"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDismiss(group, index)}
+                  disabled={busyGroup !== null}
+                >
+                  Not duplicates
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
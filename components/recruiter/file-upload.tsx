@@ -7,9 +7,19 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { uploadQuestions } from "@/app/recruiter/actions"
+import { importQuestions, previewQuestionUpload } from "@/app/recruiter/actions"
+import { UploadPreview } from "@/components/recruiter/upload-preview"
+import { UploadReportDetails } from "@/components/recruiter/upload-report"
+import type {
+  ColumnMapping,
+  ParseRowError,
+  ParsedTable,
+  QuestionImport,
+  UploadReport,
+} from "@/lib/file-parsers/questions"
 import { Upload, FileText, CheckCircle, XCircle } from "lucide-react"
 
 interface FileUploadProps {
@@ -17,42 +27,88 @@ interface FileUploadProps {
   onUploadComplete?: () => void
 }
 
+// Uploads happen in two steps: the file is parsed into a preview the recruiter maps and reviews,
+// then only the reviewed rows are sent back to be imported
 export function FileUpload({ companies = [], onUploadComplete }: FileUploadProps) {
   const [file, setFile] = useState<File | null>(null)
   const [companyId, setCompanyId] = useState<string>("")
-  const [uploading, setUploading] = useState(false)
+  const [shareAcrossOrganizations, setShareAcrossOrganizations] = useState(false)
+  const [loadingPreview, setLoadingPreview] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [preview, setPreview] = useState<{ table: ParsedTable; sheets: string[] } | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [sheetName, setSheetName] = useState<string>("")
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+  const [report, setReport] = useState<UploadReport | null>(null)
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (selectedFile) {
       setFile(selectedFile)
       setResult(null)
+      setReport(null)
+      setSheetName("")
     }
   }
 
-  const handleUpload = async () => {
+  const loadPreview = async (sheet: string) => {
     if (!file) return
 
-    setUploading(true)
+    setLoadingPreview(true)
     setResult(null)
+    setReport(null)
 
     const formData = new FormData()
     formData.append("file", file)
-    if (companyId) {
-      formData.append("companyId", companyId)
+    if (sheet) {
+      formData.append("sheetName", sheet)
     }
 
     try {
-      const response = await uploadQuestions(formData)
+      const response = await previewQuestionUpload(formData)
 
-      if (response.success) {
+      if (response.success && response.table) {
+        setPreview({ table: response.table, sheets: response.sheets })
+        setMapping(response.mapping)
+        setSheetName(sheet)
+      } else {
+        setResult({ success: false, message: response.error || "Could not read the file" })
+      }
+    } catch (error) {
+      setResult({ success: false, message: "An unexpected error occurred" })
+    } finally {
+      setLoadingPreview(false)
+    }
+  }
+
+  const handleImport = async (rows: QuestionImport["rows"], skipped: ParseRowError[]) => {
+    if (!file) return
+
+    setImporting(true)
+    setResult(null)
+
+    try {
+      const response = await importQuestions({
+        filename: file.name,
+        fileType: file.type,
+        companyId: companyId || undefined,
+        visibility: shareAcrossOrganizations ? "public" : "private",
+        sheetName: sheetName || undefined,
+        mapping,
+        rows,
+        skipped,
+      })
+
+      if (response.success && response.report) {
         setResult({
           success: true,
           message: `Successfully uploaded ${response.questionsCount} questions!`,
         })
+        setReport(response.report)
+        setPreview(null)
         setFile(null)
         setCompanyId("")
+        setSheetName("")
         // Reset file input
         const fileInput = document.getElementById("file-upload") as HTMLInputElement
         if (fileInput) fileInput.value = ""
@@ -70,11 +126,11 @@ export function FileUpload({ companies = [], onUploadComplete }: FileUploadProps
         message: "An unexpected error occurred",
       })
     } finally {
-      setUploading(false)
+      setImporting(false)
     }
   }
 
-  const acceptedFormats = ".csv,.txt,.xlsx,.xls,.pdf,.doc,.docx"
+  const acceptedFormats = ".csv,.txt,.xlsx,.pdf,.docx"
 
   return (
     <div className="space-y-6">
@@ -86,51 +142,118 @@ export function FileUpload({ companies = [], onUploadComplete }: FileUploadProps
           </CardTitle>
           <CardDescription>
             Upload questions in CSV, Excel, PDF, Word, or text format. For best results, use CSV format with columns:
-            Question Text, Question Type, Experience Level
+            Question Text, Question Type, Experience Level, and optionally Model Answer, Key Points, Red Flags, Tags,
+            Skills and Difficulty (separate multiple entries with semicolons). Columns are matched by their header names.
+            Skills must come from the skill list; other entries are kept as tags.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="company-select">Company (Optional)</Label>
-            <Select value={companyId} onValueChange={setCompanyId}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select a company or leave blank for general questions" />
-              </SelectTrigger>
-              <SelectContent>
-                {companies.map((company) => (
-                  <SelectItem key={company.id} value={company.id}>
-                    {company.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="file-upload">Question File</Label>
-            <Input
-              id="file-upload"
-              type="file"
-              accept={acceptedFormats}
-              onChange={handleFileChange}
-              className="cursor-pointer"
-            />
-            <p className="text-sm text-muted-foreground">
-              Supported formats: CSV, Excel (.xlsx, .xls), PDF, Word (.docx, .doc), Text (.txt)
-            </p>
-          </div>
-
-          {file && (
-            <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
-              <FileText className="h-4 w-4" />
-              <span className="text-sm">{file.name}</span>
-              <span className="text-xs text-muted-foreground">({(file.size / 1024).toFixed(1)} KB)</span>
-            </div>
-          )}
+          {preview ? (
+            <>
+              {file && (
+                <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                  <FileText className="h-4 w-4" />
+                  <span className="text-sm">{file.name}</span>
+                  <span className="text-xs text-muted-foreground">({preview.table.rows.length} rows)</span>
+                </div>
+              )}
+
+              {preview.sheets.length > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="sheet-select">Worksheet</Label>
+                  <Select
+                    value={sheetName || "all"}
+                    onValueChange={(value) => loadPreview(value === "all" ? "" : value)}
+                    disabled={loadingPreview}
+                  >
+                    <SelectTrigger id="sheet-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All sheets</SelectItem>
+                      {preview.sheets.map((sheet) => (
+                        <SelectItem key={sheet} value={sheet}>
+                          {sheet}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <UploadPreview
+                // Start the review over when a different sheet is loaded
+                key={sheetName}
+                table={preview.table}
+                mapping={mapping}
+                onMappingChange={setMapping}
+                importing={importing}
+                onCancel={() => setPreview(null)}
+                onImport={handleImport}
+              />
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="company-select">Company (Optional)</Label>
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a company or leave blank for general questions" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <Label htmlFor="share-questions">Share with other organizations</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Shared questions appear in every organization's question bank. Otherwise only your organization
+                    sees them.
+                  </p>
+                </div>
+                <Switch
+                  id="share-questions"
+                  checked={shareAcrossOrganizations}
+                  onCheckedChange={setShareAcrossOrganizations}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="file-upload">Question File</Label>
+                <Input
+                  id="file-upload"
+                  type="file"
+                  accept={acceptedFormats}
+                  onChange={handleFileChange}
+                  className="cursor-pointer"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Supported formats: CSV, Excel (.xlsx), PDF, Word (.docx), Text (.txt). Word tables and Excel sheets
+                  are read like CSV; numbered or bulleted lists in Word and PDF files are imported as general
+                  questions.
+                </p>
+              </div>
 
-          <Button onClick={handleUpload} disabled={!file || uploading} className="w-full">
-            {uploading ? "Uploading..." : "Upload Questions"}
-          </Button>
+              {file && (
+                <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                  <FileText className="h-4 w-4" />
+                  <span className="text-sm">{file.name}</span>
+                  <span className="text-xs text-muted-foreground">({(file.size / 1024).toFixed(1)} KB)</span>
+                </div>
+              )}
+
+              <Button onClick={() => loadPreview("")} disabled={!file || loadingPreview} className="w-full">
+                {loadingPreview ? "Reading file..." : "Preview Questions"}
+              </Button>
+            </>
+          )}
 
           {result && (
             <Alert className={result.success ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
@@ -146,6 +269,8 @@ export function FileUpload({ companies = [], onUploadComplete }: FileUploadProps
               </div>
             </Alert>
           )}
+
+          {report && <UploadReportDetails report={report} />}
         </CardContent>
       </Card>
 
@@ -156,11 +281,11 @@ export function FileUpload({ companies = [], onUploadComplete }: FileUploadProps
         </CardHeader>
         <CardContent>
           <pre className="text-sm bg-muted p-4 rounded-lg overflow-x-auto">
-            {`Question Text,Question Type,Experience Level
-"Tell me about yourself",behavioral,fresher
-"What is React?",technical,fresher
-"How do you handle conflicts?",situational,1-3-years
-"Explain microservices architecture",technical,3-plus-years`}
+            {`Question Text,Question Type,Experience Level,Model Answer,Key Points,Red Flags,Tags,Skills,Difficulty
+"Tell me about yourself",behavioral,fresher,,,,introductions,Self-introduction,easy
+"What is React?",technical,fresher,"A library for building UIs from components","components;virtual DOM;state and props","confuses React with a framework",react;frontend,,easy
+"How do you handle conflicts?",situational,1-3-years,,,,teamwork,Conflict resolution,medium
+"Explain microservices architecture",technical,3-plus-years,,,,architecture,System design: microservices,hard`}
           </pre>
         </CardContent>
       </Card>
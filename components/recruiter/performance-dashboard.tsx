@@ -7,27 +7,37 @@ import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts"
 import { Trophy, Users, Target, TrendingUp } from "lucide-react"
-import { fetchStudentPerformance, createSamplePerformanceData } from "@/app/recruiter/actions"
-import { Button } from "@/components/ui/button"
+import { fetchStudentPerformance, fetchDimensionScores, fetchSkillScores } from "@/app/recruiter/actions"
+import type { SkillRollup } from "@/lib/skills"
 
 interface PerformanceData {
   id: string
+  student_id: string
   score: number
   xp_earned: number
   created_at: string
   student_name: string
-  feedback?: string
+  feedback?: string | null
   interviews?: {
     title: string
     job_role: string
     companies?: {
       name: string
-    }
-  }
+    } | null
+  } | null
+}
+
+interface DimensionScore {
+  dimension: string
+  label: string
+  averageScore: number
+  count: number
 }
 
 export function PerformanceDashboard() {
   const [performance, setPerformance] = useState<PerformanceData[]>([])
+  const [dimensionScores, setDimensionScores] = useState<DimensionScore[]>([])
+  const [skillScores, setSkillScores] = useState<SkillRollup[]>([])
   const [loading, setLoading] = useState(true)
   const [stats, setStats] = useState({
     totalStudents: 0,
@@ -42,23 +52,26 @@ export function PerformanceDashboard() {
 
   const loadPerformance = async () => {
     setLoading(true)
-    const result = await fetchStudentPerformance()
+    const [result, dimensionResult, skillResult] = await Promise.all([
+      fetchStudentPerformance(),
+      fetchDimensionScores(),
+      fetchSkillScores(),
+    ])
     if (result.success) {
       setPerformance(result.performance)
       calculateStats(result.performance)
     }
-    setLoading(false)
-  }
-
-  const createSampleData = async () => {
-    const result = await createSamplePerformanceData()
-    if (result.success) {
-      loadPerformance() // Reload data after creating samples
+    if (dimensionResult.success) {
+      setDimensionScores(dimensionResult.dimensions)
     }
+    if (skillResult.success) {
+      setSkillScores(skillResult.skills)
+    }
+    setLoading(false)
   }
 
   const calculateStats = (data: PerformanceData[]) => {
-    const uniqueStudents = new Set(data.map((p) => p.student_name)).size
+    const uniqueStudents = new Set(data.map((p) => p.student_id)).size
     const totalScore = data.reduce((sum, p) => sum + p.score, 0)
     const averageScore = data.length > 0 ? totalScore / data.length : 0
     const totalXP = data.reduce((sum, p) => sum + p.xp_earned, 0)
@@ -92,16 +105,16 @@ export function PerformanceDashboard() {
   }
 
   const getTopPerformers = () => {
-    const studentScores = new Map<string, { name: string; totalScore: number; testCount: number }>()
+    const studentScores = new Map<string, { id: string; name: string; totalScore: number; testCount: number }>()
 
+    // Grouped by student, since two students can share a name
     performance.forEach((p) => {
-      const name = p.student_name || "Unknown"
-      if (studentScores.has(name)) {
-        const existing = studentScores.get(name)!
+      const existing = studentScores.get(p.student_id)
+      if (existing) {
         existing.totalScore += p.score
         existing.testCount += 1
       } else {
-        studentScores.set(name, { name, totalScore: p.score, testCount: 1 })
+        studentScores.set(p.student_id, { id: p.student_id, name: p.student_name, totalScore: p.score, testCount: 1 })
       }
     })
 
@@ -123,12 +136,12 @@ export function PerformanceDashboard() {
 
   return (
     <div className="space-y-6">
-      {/* Show sample data button if no data */}
       {performance.length === 0 && (
         <Card>
           <CardContent className="p-6 text-center">
-            <p className="text-muted-foreground mb-4">No student performance data available yet.</p>
-            <Button onClick={createSampleData}>Create Sample Data for Demo</Button>
+            <p className="text-muted-foreground">
+              No student performance data yet. Scores appear here as your organization's students finish interviews.
+            </p>
           </CardContent>
         </Card>
       )}
@@ -189,6 +202,7 @@ export function PerformanceDashboard() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="students">Top Performers</TabsTrigger>
           <TabsTrigger value="recent">Recent Activity</TabsTrigger>
+          <TabsTrigger value="skills">Skills</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -209,7 +223,7 @@ export function PerformanceDashboard() {
                       outerRadius={80}
                       fill="#8884d8"
                       dataKey="count"
-                      label={({ name, count }) => `${name}: ${count}`}
+                      label={({ name, value }) => `${name}: ${value}`}
                     >
                       {scoreDistribution.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={entry.color} />
@@ -251,7 +265,7 @@ export function PerformanceDashboard() {
             <CardContent>
               <div className="space-y-4">
                 {topPerformers.map((student, index) => (
-                  <div key={student.name} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div key={student.id} className="flex items-center justify-between p-4 border rounded-lg">
                     <div className="flex items-center gap-4">
                       <div className="flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-bold">
                         {index + 1}
@@ -307,6 +321,73 @@ export function PerformanceDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="skills" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Skills</CardTitle>
+              <CardDescription>
+                Average score on questions tagged with each skill, weakest first. The trend compares recent answers with
+                earlier ones.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {skillScores.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No graded answers to skill-tagged questions yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {skillScores.map((skill) => (
+                    <div key={skill.skill} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{skill.label}</span>
+                        <span className="text-muted-foreground">
+                          {skill.score}% ({skill.responses} answer{skill.responses !== 1 ? "s" : ""}
+                          {skill.trend !== "stable" && `, trending ${skill.trend}`})
+                        </span>
+                      </div>
+                      <Progress value={skill.score} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rubric Dimensions</CardTitle>
+              <CardDescription>Average score per skill across all graded answers, weakest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dimensionScores.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No graded answers yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={dimensionScores}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis domain={[0, 5]} />
+                      <Tooltip />
+                      <Bar dataKey="averageScore" fill="#3b82f6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  {dimensionScores.map((dimension) => (
+                    <div key={dimension.dimension} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{dimension.label}</span>
+                        <span className="text-muted-foreground">
+                          {dimension.averageScore} / 5 ({dimension.count} answer{dimension.count !== 1 ? "s" : ""})
+                        </span>
+                      </div>
+                      <Progress value={(dimension.averageScore / 5) * 100} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   )
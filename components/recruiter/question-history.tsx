@@ -0,0 +1,255 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { X } from "lucide-react"
+import { fetchQuestionHistory } from "@/app/recruiter/actions"
+import { diffLists, diffWords } from "@/lib/text-diff"
+import { skillLabel } from "@/lib/skills"
+
+interface QuestionVersion {
+  id: string
+  version: number
+  question_text: string
+  question_type: string | null
+  experience_level: string
+  model_answer: string | null
+  key_points: string[] | null
+  red_flags: string[] | null
+  tags: string[]
+  skills: string[]
+  difficulty: string | null
+  created_at: string
+  performance: {
+    responses: number
+    averageScore: number | null
+    keyPointCoverage: number | null
+  }
+}
+
+interface QuestionHistoryProps {
+  questionId: string
+  onClose: () => void
+}
+
+function TextDiff({ label, before, after }: { label: string; before: string | null; after: string | null }) {
+  if ((before || "") === (after || "")) return null
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-2">
+        {diffWords(before || "", after || "").map((part, index) =>
+          part.type === "added" ? (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">
+              {part.text}
+            </ins>
+          ) : part.type === "removed" ? (
+            <del key={index} className="bg-red-100 text-red-900">
+              {part.text}
+            </del>
+          ) : (
+            <span key={index}>{part.text}</span>
+          ),
+        )}
+      </p>
+    </div>
+  )
+}
+
+function ListDiff({ label, before, after }: { label: string; before: string[] | null; after: string[] | null }) {
+  const { added, removed } = diffLists(before, after)
+  if (added.length === 0 && removed.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <ul className="text-sm space-y-0.5">
+        {added.map((item) => (
+          <li key={`added-${item}`} className="text-green-800">
+            + {item}
+          </li>
+        ))}
+        {removed.map((item) => (
+          <li key={`removed-${item}`} className="text-red-800 line-through">
+            − {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+// How a question changed between two of its versions, and how students did on each version
+export function QuestionHistory({ questionId, onClose }: QuestionHistoryProps) {
+  const [versions, setVersions] = useState<QuestionVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true)
+      const result = await fetchQuestionHistory(questionId)
+      if (result.success) {
+        const loaded = result.versions as QuestionVersion[]
+        setVersions(loaded)
+        // Start with the latest edit
+        const latest = loaded[loaded.length - 1]?.version ?? 1
+        setCompare({ from: loaded.length > 1 ? loaded[loaded.length - 2].version : latest, to: latest })
+      } else {
+        setError(result.error || "Failed to load question history")
+      }
+      setLoading(false)
+    }
+
+    loadHistory()
+  }, [questionId])
+
+  const from = versions.find((version) => version.version === compare?.from)
+  const to = versions.find((version) => version.version === compare?.to)
+
+  const fieldChanges =
+    from && to
+      ? [
+          ["Type", from.question_type || "general", to.question_type || "general"],
+          ["Experience level", from.experience_level, to.experience_level],
+          ["Difficulty", from.difficulty || "none", to.difficulty || "none"],
+        ].filter(([, before, after]) => before !== after)
+      : []
+
+  const unchanged =
+    from &&
+    to &&
+    fieldChanges.length === 0 &&
+    from.question_text === to.question_text &&
+    (from.model_answer || "") === (to.model_answer || "") &&
+    [
+      diffLists(from.key_points, to.key_points),
+      diffLists(from.red_flags, to.red_flags),
+      diffLists(from.tags, to.tags),
+      diffLists(from.skills, to.skills),
+    ].every(({ added, removed }) => added.length === 0 && removed.length === 0)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Question History</CardTitle>
+          <CardDescription>
+            Every edit to the question, its answer guide, its tags or its skills saves a new version. Interviews record
+            the version they asked, so scores below are for the wording students actually saw.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close question history">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          versions.length > 0 &&
+          compare && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 pr-4 font-medium">Version</th>
+                      <th className="py-1 pr-4 font-medium">Saved</th>
+                      <th className="py-1 pr-4 font-medium">Responses</th>
+                      <th className="py-1 pr-4 font-medium">Average score</th>
+                      <th className="py-1 font-medium">Key points covered</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...versions].reverse().map((version) => (
+                      <tr key={version.id} className="border-t">
+                        <td className="py-1 pr-4">
+                          v{version.version}
+                          {version.version === versions[versions.length - 1].version && (
+                            <Badge variant="secondary" className="ml-2">
+                              current
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="py-1 pr-4">{new Date(version.created_at).toLocaleString()}</td>
+                        <td className="py-1 pr-4">{version.performance.responses}</td>
+                        <td className="py-1 pr-4">
+                          {version.performance.averageScore !== null ? `${version.performance.averageScore}%` : "—"}
+                        </td>
+                        <td className="py-1">
+                          {version.performance.keyPointCoverage !== null
+                            ? `${version.performance.keyPointCoverage}%`
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {versions.length === 1 ? (
+                <p className="text-sm text-muted-foreground">This question hasn't been edited since it was added.</p>
+              ) : (
+                <div className="space-y-3 rounded-lg border p-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Label>Compare</Label>
+                    {(["from", "to"] as const).map((side) => (
+                      <Select
+                        key={side}
+                        value={String(compare[side])}
+                        onValueChange={(value) => setCompare({ ...compare, [side]: Number(value) })}
+                      >
+                        <SelectTrigger className="w-24" aria-label={side === "from" ? "Older version" : "Newer version"}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map((version) => (
+                            <SelectItem key={version.id} value={String(version.version)}>
+                              v{version.version}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                  </div>
+
+                  {from && to && (
+                    <>
+                      {unchanged && <p className="text-sm text-muted-foreground">No differences.</p>}
+                      <TextDiff label="Question" before={from.question_text} after={to.question_text} />
+                      {fieldChanges.map(([label, before, after]) => (
+                        <p key={label} className="text-sm">
+                          <span className="text-xs font-medium text-muted-foreground">{label}: </span>
+                          <del className="bg-red-100 text-red-900">{before}</del> →{" "}
+                          <ins className="bg-green-100 text-green-900 no-underline">{after}</ins>
+                        </p>
+                      ))}
+                      <TextDiff label="Model answer" before={from.model_answer} after={to.model_answer} />
+                      <ListDiff label="Key points" before={from.key_points} after={to.key_points} />
+                      <ListDiff label="Red flags" before={from.red_flags} after={to.red_flags} />
+                      <ListDiff label="Tags" before={from.tags} after={to.tags} />
+                      <ListDiff
+                        label="Skills"
+                        before={from.skills.map(skillLabel)}
+                        after={to.skills.map(skillLabel)}
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
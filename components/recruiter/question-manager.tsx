@@ -8,16 +8,30 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
-import { Edit, Trash2, Save, X } from "lucide-react"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Edit, Trash2, Save, X, Download, Copy, History } from "lucide-react"
 import { fetchRecruiterQuestions, updateQuestion, deleteQuestion } from "@/app/recruiter/actions"
+import { parseList } from "@/lib/file-parsers/questions"
+import { filterQuestions, type ExportFormat } from "@/lib/question-export"
+import { DuplicateReview } from "@/components/recruiter/duplicate-review"
+import { SkillPicker } from "@/components/skill-picker"
+import { skillLabel } from "@/lib/skills"
+import { QuestionHistory } from "@/components/recruiter/question-history"
 
 interface Question {
   id: string
   question_text: string
-  question_type: "behavioral" | "technical" | "situational" | "general"
+  question_type: "behavioral" | "technical" | "situational" | "general" | null
   experience_level: "fresher" | "1-3-years" | "3-plus-years"
   order_number: number
-  companies?: { name: string; logo_url: string | null }
+  model_answer: string | null
+  key_points: string[] | null
+  red_flags: string[] | null
+  tags: string[]
+  skills: string[]
+  difficulty: "easy" | "medium" | "hard" | null
+  version: number
+  companies?: { name: string; logo_url: string | null } | null
 }
 
 export function QuestionManager() {
@@ -26,9 +40,13 @@ export function QuestionManager() {
   const [error, setError] = useState<string | null>(null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editForm, setEditForm] = useState<Partial<Question>>({})
+  const [reviewingDuplicates, setReviewingDuplicates] = useState(false)
+  const [historyId, setHistoryId] = useState<string | null>(null)
   const [filter, setFilter] = useState({
     type: "all",
     level: "all",
+    tag: "all",
+    skill: "all",
     search: "",
   })
 
@@ -63,7 +81,17 @@ export function QuestionManager() {
   const handleSave = async () => {
     if (!editingId || !editForm) return
 
-    const result = await updateQuestion(editingId, editForm)
+    const result = await updateQuestion(editingId, {
+      question_text: editForm.question_text,
+      question_type: editForm.question_type ?? undefined,
+      experience_level: editForm.experience_level,
+      model_answer: editForm.model_answer || null,
+      key_points: editForm.key_points || [],
+      red_flags: editForm.red_flags || [],
+      tags: editForm.tags || [],
+      skills: editForm.skills || [],
+      difficulty: editForm.difficulty || null,
+    })
     if (result.success) {
       await loadQuestions()
       setEditingId(null)
@@ -85,15 +113,21 @@ export function QuestionManager() {
     setEditForm({})
   }
 
-  const filteredQuestions = questions.filter((question) => {
-    const matchesType = filter.type === "all" || question.question_type === filter.type
-    const matchesLevel = filter.level === "all" || question.experience_level === filter.level
-    const matchesSearch = !filter.search || question.question_text.toLowerCase().includes(filter.search.toLowerCase())
+  const filteredQuestions = filterQuestions(questions, filter)
 
-    return matchesType && matchesLevel && matchesSearch
-  })
+  // Only offer the tags and skills that are actually in use
+  const tagOptions = Array.from(new Set(questions.flatMap((question) => question.tags || []))).sort()
+  const skillOptions = Array.from(new Set(questions.flatMap((question) => question.skills || []))).sort((a, b) =>
+    skillLabel(a).localeCompare(skillLabel(b)),
+  )
+
+  // Exports the questions currently shown, using the same filters
+  const exportUrl = (format: ExportFormat, includeAnswers: boolean) => {
+    const params = new URLSearchParams({ format, ...filter, answers: includeAnswers ? "1" : "0" })
+    return `/api/company-questions/export?${params}`
+  }
 
-  const getTypeColor = (type: string) => {
+  const getTypeColor = (type: string | null) => {
     switch (type) {
       case "technical":
         return "bg-blue-100 text-blue-800"
@@ -140,7 +174,7 @@ export function QuestionManager() {
           <CardTitle>Filter Questions</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
             <div>
               <Label htmlFor="search">Search</Label>
               <Input
@@ -179,6 +213,38 @@ export function QuestionManager() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="skill">Skill</Label>
+              <Select value={filter.skill} onValueChange={(value) => setFilter((prev) => ({ ...prev, skill: value }))}>
+                <SelectTrigger id="skill">
+                  <SelectValue placeholder="All skills" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All skills</SelectItem>
+                  {skillOptions.map((skill) => (
+                    <SelectItem key={skill} value={skill}>
+                      {skillLabel(skill)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tag">Tag</Label>
+              <Select value={filter.tag} onValueChange={(value) => setFilter((prev) => ({ ...prev, tag: value }))}>
+                <SelectTrigger id="tag">
+                  <SelectValue placeholder="All tags" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tags</SelectItem>
+                  {tagOptions.map((tag) => (
+                    <SelectItem key={tag} value={tag}>
+                      {tag}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -187,8 +253,40 @@ export function QuestionManager() {
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold">Questions ({filteredQuestions.length})</h3>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setReviewingDuplicates(true)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Find Duplicates
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={filteredQuestions.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl("csv", true)}>CSV (re-importable)</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl("json", true)}>JSON with all details</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl("markdown", false)}>Markdown handout</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl("markdown", true)}>Markdown with answers</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
+        {reviewingDuplicates && (
+          <DuplicateReview onClose={() => setReviewingDuplicates(false)} onMerged={loadQuestions} />
+        )}
+
         {filteredQuestions.length === 0 ? (
           <Card>
             <CardContent className="text-center py-8">
@@ -249,6 +347,77 @@ export function QuestionManager() {
                         </Select>
                       </div>
                     </div>
+                    <div>
+                      <Label htmlFor="model_answer">Model Answer (used for grading only)</Label>
+                      <Textarea
+                        id="model_answer"
+                        value={editForm.model_answer || ""}
+                        onChange={(e) => setEditForm((prev) => ({ ...prev, model_answer: e.target.value }))}
+                        rows={4}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="key_points">Key Points (separate with semicolons)</Label>
+                        <Textarea
+                          id="key_points"
+                          defaultValue={(editForm.key_points || []).join("; ")}
+                          onChange={(e) => setEditForm((prev) => ({ ...prev, key_points: parseList(e.target.value) }))}
+                          rows={3}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="red_flags">Red Flags (separate with semicolons)</Label>
+                        <Textarea
+                          id="red_flags"
+                          defaultValue={(editForm.red_flags || []).join("; ")}
+                          onChange={(e) => setEditForm((prev) => ({ ...prev, red_flags: parseList(e.target.value) }))}
+                          rows={3}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="tags">Tags (separate with semicolons)</Label>
+                        <Input
+                          id="tags"
+                          defaultValue={(editForm.tags || []).join("; ")}
+                          onChange={(e) =>
+                            setEditForm((prev) => ({
+                              ...prev,
+                              tags: parseList(e.target.value).map((tag) => tag.toLowerCase()),
+                            }))
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="difficulty">Difficulty</Label>
+                        <Select
+                          value={editForm.difficulty || "none"}
+                          onValueChange={(value) =>
+                            setEditForm((prev) => ({ ...prev, difficulty: value === "none" ? null : (value as any) }))
+                          }
+                        >
+                          <SelectTrigger id="difficulty">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not set</SelectItem>
+                            <SelectItem value="easy">Easy</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="hard">Hard</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="skills">Skills</Label>
+                      <SkillPicker
+                        id="skills"
+                        value={editForm.skills || []}
+                        onChange={(skills) => setEditForm((prev) => ({ ...prev, skills }))}
+                      />
+                    </div>
                     <div className="flex gap-2">
                       <Button onClick={handleSave} size="sm">
                         <Save className="h-4 w-4 mr-2" />
@@ -270,10 +439,49 @@ export function QuestionManager() {
                           <Badge className={getLevelColor(question.experience_level)}>
                             {question.experience_level}
                           </Badge>
+                          {question.difficulty && <Badge variant="secondary">{question.difficulty}</Badge>}
                           {question.companies && <Badge variant="outline">{question.companies.name}</Badge>}
+                          {question.version > 1 && <Badge variant="outline">v{question.version}</Badge>}
                         </div>
+                        {question.skills?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            {question.skills.map((skill) => (
+                              <Badge key={skill} variant="secondary" className="text-xs font-normal">
+                                {skillLabel(skill)}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {question.tags?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            {question.tags.map((tag) => (
+                              <Badge key={tag} variant="outline" className="text-xs font-normal">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {!!(question.model_answer || question.key_points?.length || question.red_flags?.length) && (
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            {question.model_answer && <p className="line-clamp-2">Model answer: {question.model_answer}</p>}
+                            {question.key_points && question.key_points.length > 0 && (
+                              <p>Key points: {question.key_points.join("; ")}</p>
+                            )}
+                            {question.red_flags && question.red_flags.length > 0 && (
+                              <p>Red flags: {question.red_flags.join("; ")}</p>
+                            )}
+                          </div>
+                        )}
                       </div>
                       <div className="flex gap-2">
+                        <Button
+                          onClick={() => setHistoryId(historyId === question.id ? null : question.id)}
+                          variant="outline"
+                          size="sm"
+                          aria-label="Question history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button onClick={() => handleEdit(question)} variant="outline" size="sm">
                           <Edit className="h-4 w-4" />
                         </Button>
@@ -282,6 +490,14 @@ export function QuestionManager() {
                         </Button>
                       </div>
                     </div>
+                    {historyId === question.id && (
+                      // Keyed by version so the history reloads after an edit
+                      <QuestionHistory
+                        key={question.version}
+                        questionId={question.id}
+                        onClose={() => setHistoryId(null)}
+                      />
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ChevronDown, ChevronRight, RotateCcw, Undo2 } from "lucide-react"
+import { fetchUploadBatch, fetchUploadHistory, rerunUpload, rollbackUpload } from "@/app/recruiter/actions"
+import { UploadReportDetails } from "@/components/recruiter/upload-report"
+import type { UploadReport } from "@/lib/file-parsers/questions"
+
+interface Upload {
+  id: string
+  filename: string
+  questions_count: number
+  upload_status: "processing" | "completed" | "failed" | "rolled_back"
+  report: UploadReport | null
+  import_request: unknown
+  created_at: string
+}
+
+interface BatchQuestion {
+  id: string
+  question_text: string
+  question_type: string | null
+  experience_level: string
+}
+
+const statusStyles: Record<Upload["upload_status"], string> = {
+  processing: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  rolled_back: "bg-gray-100 text-gray-800",
+}
+
+const statusLabels: Record<Upload["upload_status"], string> = {
+  processing: "Processing",
+  completed: "Completed",
+  failed: "Failed",
+  rolled_back: "Rolled back",
+}
+
+// Past uploads with their row reports. A batch can be rolled back (its questions deleted) or re-run
+// (its reviewed rows imported again with the current rules), each as a single transaction.
+export function UploadHistory() {
+  const [uploads, setUploads] = useState<Upload[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [batchQuestions, setBatchQuestions] = useState<BatchQuestion[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadUploads()
+  }, [])
+
+  const loadUploads = async () => {
+    setLoading(true)
+    const result = await fetchUploadHistory()
+    if (result.success) {
+      setUploads(result.uploads as Upload[])
+    } else {
+      setError(result.error || "Failed to load upload history")
+    }
+    setLoading(false)
+  }
+
+  const loadBatch = async (uploadId: string) => {
+    setBatchQuestions([])
+    const result = await fetchUploadBatch(uploadId)
+    if (result.success) {
+      setBatchQuestions(result.questions as BatchQuestion[])
+    } else {
+      setError(result.error || "Failed to load upload")
+    }
+  }
+
+  const toggleExpanded = async (uploadId: string) => {
+    if (expandedId === uploadId) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(uploadId)
+    await loadBatch(uploadId)
+  }
+
+  const handleRollback = async (upload: Upload) => {
+    if (!confirm(`Delete all ${upload.questions_count} questions added by ${upload.filename}?`)) return
+
+    setBusyId(upload.id)
+    setError(null)
+    const result = await rollbackUpload(upload.id)
+    setBusyId(null)
+
+    if (result.success) {
+      await loadUploads()
+      if (expandedId === upload.id) await loadBatch(upload.id)
+    } else {
+      setError(result.error || "Failed to roll back upload")
+    }
+  }
+
+  const handleRerun = async (upload: Upload) => {
+    if (!confirm(`Re-import ${upload.filename}? Its current questions will be replaced.`)) return
+
+    setBusyId(upload.id)
+    setError(null)
+    const result = await rerunUpload(upload.id)
+    setBusyId(null)
+
+    if (result.success) {
+      await loadUploads()
+      if (expandedId === upload.id) await loadBatch(upload.id)
+    } else {
+      setError(result.error || "Failed to re-run upload")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload History</CardTitle>
+        <CardDescription>
+          Every upload is kept as a batch. Roll back a batch to delete the questions it added, or re-run it to import
+          its rows again, for example after a rollback or once duplicates have been cleaned up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading uploads...</p>
+        ) : uploads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No uploads yet.</p>
+        ) : (
+          uploads.map((upload) => (
+            <div key={upload.id} className="rounded-lg border">
+              <div className="flex items-center gap-3 p-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleExpanded(upload.id)}
+                  aria-label={expandedId === upload.id ? "Hide details" : "Show details"}
+                >
+                  {expandedId === upload.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </Button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{upload.filename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(upload.created_at).toLocaleString()} · {upload.questions_count} questions
+                  </p>
+                </div>
+                <Badge className={statusStyles[upload.upload_status]}>{statusLabels[upload.upload_status]}</Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRerun(upload)}
+                  disabled={busyId !== null || !upload.import_request}
+                  title={upload.import_request ? undefined : "This upload predates re-runs"}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Re-run
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(upload)}
+                  disabled={busyId !== null || upload.upload_status === "rolled_back"}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Roll back
+                </Button>
+              </div>
+
+              {expandedId === upload.id && (
+                <div className="border-t p-3 space-y-3">
+                  {upload.report ? (
+                    <UploadReportDetails report={upload.report} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No row report was kept for this upload.</p>
+                  )}
+
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Questions in this batch ({batchQuestions.length})</p>
+                    {batchQuestions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">None</p>
+                    ) : (
+                      <ol className="max-h-64 overflow-y-auto list-decimal pl-6 text-sm space-y-1">
+                        {batchQuestions.map((question) => (
+                          <li key={question.id}>
+                            {question.question_text}{" "}
+                            <span className="text-xs text-muted-foreground">
+                              ({question.question_type || "general"}, {question.experience_level})
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
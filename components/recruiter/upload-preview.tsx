@@ -0,0 +1,266 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Edit, Save } from "lucide-react"
+import {
+  EXPERIENCE_LEVELS,
+  QUESTION_TYPES,
+  questionFields,
+  reviewRow,
+  rowValues,
+  type ColumnMapping,
+  type ParseRowError,
+  type ParsedTable,
+  type QuestionField,
+  type QuestionImport,
+  type RowValues,
+} from "@/lib/file-parsers/questions"
+
+interface UploadPreviewProps {
+  table: ParsedTable
+  mapping: ColumnMapping
+  onMappingChange: (mapping: ColumnMapping) => void
+  importing: boolean
+  onCancel: () => void
+  onImport: (rows: QuestionImport["rows"], skipped: ParseRowError[]) => void
+}
+
+// Review step of the upload: map file columns onto question fields, then fix or skip rows that fail
+// validation. Rows are validated with the same rules the server applies on import.
+export function UploadPreview({ table, mapping, onMappingChange, importing, onCancel, onImport }: UploadPreviewProps) {
+  // Edits and skips are keyed by the row's index in the table
+  const [edits, setEdits] = useState<Record<number, RowValues>>({})
+  const [skipped, setSkipped] = useState<Set<number>>(new Set())
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+
+  const rows = useMemo(
+    () =>
+      table.rows.map((row, index) => {
+        const values = { ...rowValues(row, mapping), ...edits[index] }
+        return { row, index, values, review: reviewRow(values, row.row, row.source) }
+      }),
+    [table, mapping, edits],
+  )
+
+  const included = rows.filter(({ index }) => !skipped.has(index))
+  const readyCount = included.filter(({ review }) => review.question).length
+  const invalidCount = included.length - readyCount
+  const normalizedCount = included.filter(({ review }) => review.normalized.length > 0).length
+
+  const setMapping = (field: QuestionField, value: string) => {
+    const next = { ...mapping }
+    if (value === "none") {
+      delete next[field]
+    } else {
+      next[field] = Number(value)
+    }
+    onMappingChange(next)
+  }
+
+  const setEdit = (index: number, field: QuestionField, value: string) => {
+    setEdits((current) => ({ ...current, [index]: { ...current[index], [field]: value } }))
+  }
+
+  const toggleSkipped = (index: number, skip: boolean) => {
+    setSkipped((current) => {
+      const next = new Set(current)
+      if (skip) {
+        next.add(index)
+      } else {
+        next.delete(index)
+      }
+      return next
+    })
+  }
+
+  const skipInvalidRows = () => {
+    setSkipped(new Set([...skipped, ...rows.filter(({ review }) => !review.question).map(({ index }) => index)]))
+  }
+
+  const handleImport = () => {
+    onImport(
+      included.map(({ row, values }) => ({ row: row.row, source: row.source, values })),
+      rows
+        .filter(({ index }) => skipped.has(index))
+        .map(({ row }) => ({ row: row.row, source: row.source, message: "Skipped in preview" })),
+    )
+  }
+
+  const rowLabel = (row: { row: number; source?: string }) => (row.source ? `${row.source}, ${row.row}` : row.row)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="font-medium">Column mapping</h3>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {questionFields.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`map-${field.key}`}>
+                {field.label}
+                {field.required && " *"}
+              </Label>
+              <Select
+                value={mapping[field.key] === undefined ? "none" : String(mapping[field.key])}
+                onValueChange={(value) => setMapping(field.key, value)}
+              >
+                <SelectTrigger id={`map-${field.key}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not in file</SelectItem>
+                  {table.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header || `Column ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Unmapped types default to general and unmapped levels to fresher.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="secondary">{readyCount} ready</Badge>
+        {normalizedCount > 0 && <Badge variant="outline">{normalizedCount} normalized</Badge>}
+        {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+        {skipped.size > 0 && <Badge variant="outline">{skipped.size} skipped</Badge>}
+        {invalidCount > 0 && (
+          <Button variant="outline" size="sm" onClick={skipInvalidRows}>
+            Skip rows with errors
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-[28rem] overflow-y-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Import</TableHead>
+              <TableHead className="w-16">Row</TableHead>
+              <TableHead>Question</TableHead>
+              <TableHead className="w-40">Type</TableHead>
+              <TableHead className="w-40">Level</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ row, index, values, review }) => {
+              const isSkipped = skipped.has(index)
+              const isEditing = editingIndex === index
+
+              return (
+                <TableRow key={index} className={isSkipped ? "opacity-50" : review.question ? "" : "bg-red-50"}>
+                  <TableCell>
+                    <Checkbox
+                      checked={!isSkipped}
+                      onCheckedChange={(checked) => toggleSkipped(index, checked !== true)}
+                      aria-label={`Import row ${row.row}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{rowLabel(row)}</TableCell>
+                  <TableCell className="space-y-1">
+                    {isEditing ? (
+                      <Input
+                        value={values.question_text || ""}
+                        onChange={(e) => setEdit(index, "question_text", e.target.value)}
+                      />
+                    ) : (
+                      <p className="text-sm">{values.question_text || <em className="text-muted-foreground">empty</em>}</p>
+                    )}
+                    {review.errors.map((message) => (
+                      <p key={message} className="text-xs text-red-700">
+                        {message}
+                      </p>
+                    ))}
+                    {review.normalized.map((change) => (
+                      <p key={change.field} className="text-xs text-muted-foreground">
+                        {change.from} → {change.to}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Select
+                        value={review.question?.question_type}
+                        onValueChange={(value) => setEdit(index, "question_type", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={values.question_type} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {QUESTION_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm">{values.question_type || "general"}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Select
+                        value={review.question?.experience_level}
+                        onValueChange={(value) => setEdit(index, "experience_level", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={values.experience_level} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXPERIENCE_LEVELS.map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {level}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm">{values.experience_level || "fresher"}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingIndex(isEditing ? null : index)}
+                      aria-label={isEditing ? "Done editing" : "Edit row"}
+                    >
+                      {isEditing ? <Save className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={importing}>
+          Back
+        </Button>
+        <Button onClick={handleImport} disabled={importing || readyCount === 0} className="flex-1">
+          {importing ? "Importing..." : `Import ${readyCount} questions`}
+        </Button>
+      </div>
+      {invalidCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Rows that still have errors won't be imported and will be listed in the upload report.
+        </p>
+      )}
+    </div>
+  )
+}
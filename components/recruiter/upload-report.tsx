@@ -0,0 +1,59 @@
+"use client"
+
+import type { UploadReport } from "@/lib/file-parsers/questions"
+
+const rowLabel = (row: { row: number; source?: string }) =>
+  row.source ? `${row.source}, row ${row.row}` : `Row ${row.row}`
+
+// What happened to the rows of one upload: rejected, skipped, normalized and duplicate rows
+export function UploadReportDetails({ report }: { report: UploadReport }) {
+  const notImported = [...report.rejected, ...report.skipped]
+  const duplicates = report.duplicates || []
+
+  if (notImported.length === 0 && duplicates.length === 0 && report.normalized.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {report.imported} of {report.total_rows} rows imported, {report.normalized.length} values normalized
+      </p>
+      {duplicates.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Duplicates found</p>
+          <ul className="max-h-48 overflow-y-auto rounded-lg border divide-y text-sm">
+            {duplicates.map((duplicate, index) => (
+              <li key={index} className="px-3 py-2 space-y-0.5">
+                <div className="flex gap-3">
+                  <span className="shrink-0 text-muted-foreground">{rowLabel(duplicate)}</span>
+                  <span className="flex-1">{duplicate.question_text}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {duplicate.action === "skipped" ? "Skipped" : "Imported"}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {Math.round(duplicate.similarity * 100)}% like{" "}
+                  {duplicate.match_id ? "an existing question" : "an earlier row"}: {duplicate.match_text}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            Near duplicates were imported; use Find Duplicates in Manage Questions to merge them.
+          </p>
+        </div>
+      )}
+      {notImported.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto rounded-lg border divide-y text-sm">
+          {notImported.map((rowError, index) => (
+            <li key={index} className="flex gap-3 px-3 py-2">
+              <span className="shrink-0 text-muted-foreground">{rowLabel(rowError)}</span>
+              <span>{rowError.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown } from "lucide-react"
+import { skillLabel, skillsByCategory } from "@/lib/skills"
+
+interface SkillPickerProps {
+  id?: string
+  value: string[]
+  onChange: (skills: string[]) => void
+  placeholder?: string
+}
+
+// Multi-select over the skill taxonomy, grouped by category
+export function SkillPicker({ id, value, onChange, placeholder = "Choose skills" }: SkillPickerProps) {
+  const toggle = (key: string, checked: boolean) =>
+    onChange(checked ? [...value, key] : value.filter((skill) => skill !== key))
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="w-full justify-between font-normal">
+          <span className="truncate">{value.length > 0 ? value.map(skillLabel).join(", ") : placeholder}</span>
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-80 w-72 overflow-y-auto">
+        {skillsByCategory().map((group, index) => (
+          <div key={group.category}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{group.label}</DropdownMenuLabel>
+            {group.skills.map((skill) => (
+              <DropdownMenuCheckboxItem
+                key={skill.key}
+                checked={value.includes(skill.key)}
+                onCheckedChange={(checked) => toggle(skill.key, checked)}
+                // Keep the menu open while picking several skills
+                onSelect={(event) => event.preventDefault()}
+              >
+                {skill.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
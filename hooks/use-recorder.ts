@@ -0,0 +1,417 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { audioConstraints, loadDeviceProfile, saveDeviceProfile, videoConstraints } from "@/lib/device-preferences"
+import {
+  AUDIO_PROCESSING,
+  isRecordingSupported,
+  pickMimeType,
+  recorderTransitions,
+  type AnalyzerResults,
+  type AnalyzerSession,
+  type RecorderMediaType,
+  type RecorderStatus,
+  type Recording,
+  type RecordingAnalyzers,
+} from "@/lib/recording"
+
+interface UseRecorderOptions<A> {
+  mediaType: RecorderMediaType
+  analyzers?: A // read when recording starts, so they can be recreated on every render
+  maxDurationSeconds?: number // stop on its own once this much has been recorded
+  onComplete?: (recording: Recording<A>) => void
+}
+
+// Headless recording engine shared by every answer recorder: opens the devices, records with the best
+// container the browser supports, runs the analyzers alongside, and keeps the finished recording for
+// playback until it is re-recorded or uploaded. The UI only reads `status` and calls the actions.
+export function useRecorder<A extends RecordingAnalyzers>({
+  mediaType,
+  analyzers,
+  maxDurationSeconds,
+  onComplete,
+}: UseRecorderOptions<A>) {
+  const [status, setStatus] = useState<RecorderStatus>("idle")
+  const [error, setError] = useState<string | null>(null)
+  const [elapsedSeconds, setElapsedSeconds] = useState(0)
+  const [recording, setRecording] = useState<Recording<A> | null>(null)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [activeDevices, setActiveDevices] = useState<{ audioInputId: string | null; videoInputId: string | null }>({
+    audioInputId: null,
+    videoInputId: null,
+  })
+  const [isSupported, setIsSupported] = useState(true)
+
+  // Timers, recorder callbacks and analyzers outlive the render that started them, so they read refs
+  const statusRef = useRef<RecorderStatus>("idle")
+  const streamRef = useRef<MediaStream | null>(null)
+  const previewRef = useRef<HTMLVideoElement | null>(null)
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const clockRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const elapsedRef = useRef(0)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const sessionsRef = useRef<[string, AnalyzerSession<unknown>][]>([])
+  const analysisRef = useRef<AnalyzerResults<A>>({})
+  const discardRef = useRef(false)
+  const streamRequestRef = useRef(0)
+  const recordingRef = useRef<Recording<A> | null>(null)
+  const analyzersRef = useRef(analyzers)
+  analyzersRef.current = analyzers
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+
+  // Transitions the state machine doesn't allow are ignored; a late callback can ask for one after a reset
+  const moveTo = useCallback((next: RecorderStatus) => {
+    const current = statusRef.current
+    if (next !== current && !recorderTransitions[current].includes(next)) return false
+    statusRef.current = next
+    setStatus(next)
+    return true
+  }, [])
+
+  // The preview element can mount after the stream opens, e.g. when going back from playback
+  const attachPreview = useCallback((element: HTMLVideoElement | null) => {
+    previewRef.current = element
+    if (element && element.srcObject !== streamRef.current) {
+      element.srcObject = streamRef.current
+    }
+  }, [])
+
+  const closeStream = useCallback((stream = streamRef.current) => {
+    stream?.getTracks().forEach((track) => track.stop())
+    if (stream === streamRef.current) {
+      streamRef.current = null
+      if (previewRef.current) previewRef.current.srcObject = null
+    }
+  }, [])
+
+  const openStream = useCallback(
+    async (kind: RecorderMediaType): Promise<MediaStream | null> => {
+      const request = ++streamRequestRef.current
+      closeStream()
+      moveTo("requesting")
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: audioConstraints(AUDIO_PROCESSING),
+          video: kind === "video" ? videoConstraints({ width: 640, height: 480 }) : false,
+        })
+
+        // A newer request (another device, the other media type, or unmounting) replaced this one
+        if (request !== streamRequestRef.current) {
+          stream.getTracks().forEach((track) => track.stop())
+          return null
+        }
+
+        streamRef.current = stream
+        if (previewRef.current) {
+          previewRef.current.srcObject = stream
+        }
+
+        setActiveDevices({
+          audioInputId: stream.getAudioTracks()[0]?.getSettings().deviceId ?? null,
+          videoInputId: stream.getVideoTracks()[0]?.getSettings().deviceId ?? null,
+        })
+        // Labels are only available once permission has been granted
+        navigator.mediaDevices
+          .enumerateDevices()
+          .then((available) =>
+            setDevices(available.filter((device) => device.deviceId && device.kind !== "audiooutput")),
+          )
+          .catch((err) => console.warn("Could not list devices:", err))
+
+        return stream
+      } catch (err) {
+        if (request !== streamRequestRef.current) return null
+
+        console.error(`Error accessing ${kind}:`, err)
+        setError(
+          err instanceof DOMException && err.name === "NotAllowedError"
+            ? `Please grant permission to use your ${kind === "video" ? "camera and microphone" : "microphone"}.`
+            : `Failed to access your ${kind === "video" ? "camera" : "microphone"}. ${
+                (err instanceof Error && err.message) || "Please check your device settings."
+              }`,
+        )
+        moveTo("idle")
+        return null
+      }
+    },
+    [closeStream, moveTo],
+  )
+
+  const prepare = async () => {
+    if (await openStream(mediaType)) moveTo("idle")
+  }
+
+  const stopClock = () => {
+    if (clockRef.current) clearInterval(clockRef.current)
+    clockRef.current = null
+  }
+
+  const startClock = () => {
+    stopClock()
+    clockRef.current = setInterval(() => {
+      elapsedRef.current += 1
+      setElapsedSeconds(elapsedRef.current)
+      if (maxDurationSeconds && elapsedRef.current >= maxDurationSeconds) {
+        stopRef.current()
+      }
+    }, 1000)
+  }
+
+  // One analyser node per recording, shared by whichever analyzers need the audio
+  const startAnalyzers = (stream: MediaStream) => {
+    let analyser: AnalyserNode | null = null
+    try {
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext
+      if (!AudioContextClass) throw new Error("Web Audio isn't supported")
+      const audioContext = new AudioContextClass()
+      analyser = audioContext.createAnalyser()
+      analyser.fftSize = 2048
+      audioContext.createMediaStreamSource(stream).connect(analyser)
+      audioContextRef.current = audioContext
+    } catch (err) {
+      // Recording still works without analysis
+      console.error("Error setting up audio analysis:", err)
+    }
+
+    sessionsRef.current = Object.entries(analyzersRef.current ?? {}).flatMap(([name, analyzer]) => {
+      if (!analyzer || (analyzer.mediaTypes && !analyzer.mediaTypes.includes(mediaType))) return []
+      try {
+        const session = analyzer.start({
+          mediaType,
+          stream,
+          analyser,
+          video: previewRef.current,
+          stopRecording: () => stopRef.current(),
+        })
+        return [[name, session] as [string, AnalyzerSession<unknown>]]
+      } catch (err) {
+        console.error(`Error starting ${name} analysis:`, err)
+        return []
+      }
+    })
+  }
+
+  const stopAnalyzers = () => {
+    const results: Record<string, unknown> = {}
+    sessionsRef.current.forEach(([name, session]) => {
+      try {
+        results[name] = session.stop()
+      } catch (err) {
+        console.error(`Error finishing ${name} analysis:`, err)
+      }
+    })
+    sessionsRef.current = []
+
+    audioContextRef.current?.close().catch((err) => console.error("Error closing AudioContext:", err))
+    audioContextRef.current = null
+
+    return results as AnalyzerResults<A>
+  }
+
+  const discardRecording = useCallback(() => {
+    if (recordingRef.current) URL.revokeObjectURL(recordingRef.current.url)
+    recordingRef.current = null
+    setRecording(null)
+  }, [])
+
+  // Runs once the MediaRecorder has handed over its last chunk. By then a reset may already have opened
+  // a new stream, so only the one this recording used is closed.
+  const finish = (mediaRecorder: MediaRecorder, stream: MediaStream, mimeType: string) => {
+    closeStream(stream)
+    if (mediaRecorderRef.current === mediaRecorder) mediaRecorderRef.current = null
+
+    if (discardRef.current) {
+      discardRef.current = false
+      return
+    }
+
+    const blob = new Blob(chunksRef.current, { type: mimeType })
+    chunksRef.current = []
+    if (blob.size === 0) {
+      setError(`No ${mediaType} data was recorded. Please try again.`)
+      prepare()
+      return
+    }
+
+    const finished: Recording<A> = {
+      blob,
+      url: URL.createObjectURL(blob),
+      mediaType,
+      durationSeconds: elapsedRef.current,
+      analysis: analysisRef.current,
+    }
+    recordingRef.current = finished
+    setRecording(finished)
+    onCompleteRef.current?.(finished)
+  }
+
+  const start = async () => {
+    if (statusRef.current !== "idle") return
+    if (!isRecordingSupported()) {
+      setError("Your browser doesn't support MediaRecorder. Please try using Chrome, Firefox, or Edge.")
+      return
+    }
+
+    setError(null)
+    discardRef.current = false
+    const stream = streamRef.current ?? (await openStream(mediaType))
+    if (!stream) return
+
+    try {
+      const mimeType = pickMimeType(mediaType)
+      const mediaRecorder = new window.MediaRecorder(stream, {
+        mimeType,
+        audioBitsPerSecond: 128000,
+        videoBitsPerSecond: mediaType === "video" ? 2500000 : undefined,
+      })
+
+      chunksRef.current = []
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data && event.data.size > 0) chunksRef.current.push(event.data)
+      }
+      mediaRecorder.onstop = () =>
+        finish(mediaRecorder, stream, mediaRecorder.mimeType || mimeType || `${mediaType}/webm`)
+
+      // Small time slices so a crash mid-answer loses as little as possible
+      mediaRecorder.start(100)
+      mediaRecorderRef.current = mediaRecorder
+
+      elapsedRef.current = 0
+      setElapsedSeconds(0)
+      analysisRef.current = {}
+      moveTo("recording")
+      startClock()
+      startAnalyzers(stream)
+    } catch (err) {
+      console.error(`Error starting ${mediaType} recording:`, err)
+      setError((err instanceof Error && err.message) || `Failed to start ${mediaType} recording. Please try again.`)
+      moveTo("idle")
+    }
+  }
+
+  const pause = () => {
+    if (statusRef.current !== "recording" || !mediaRecorderRef.current) return
+    try {
+      mediaRecorderRef.current.pause()
+      stopClock()
+      sessionsRef.current.forEach(([, session]) => session.pause?.())
+      moveTo("paused")
+    } catch (err) {
+      console.error("Error pausing recording:", err)
+    }
+  }
+
+  const resume = () => {
+    if (statusRef.current !== "paused" || !mediaRecorderRef.current) return
+    try {
+      mediaRecorderRef.current.resume()
+      startClock()
+      sessionsRef.current.forEach(([, session]) => session.resume?.())
+      moveTo("recording")
+    } catch (err) {
+      console.error("Error resuming recording:", err)
+    }
+  }
+
+  const stop = () => {
+    if (statusRef.current !== "recording" && statusRef.current !== "paused") return
+    stopClock()
+    // Read by finish(), which runs after the recorder's stop event
+    analysisRef.current = stopAnalyzers()
+    moveTo("stopped")
+    try {
+      mediaRecorderRef.current?.stop()
+    } catch (err) {
+      console.error("Error stopping recording:", err)
+      setError("Failed to stop recording. Please refresh the page and try again.")
+    }
+  }
+
+  // Analyzers and timers call the latest stop, whichever render started them
+  const stopRef = useRef(stop)
+  stopRef.current = stop
+
+  // Throws away the recording, or the one in progress, so the next one starts from zero
+  const clearRecording = useCallback(() => {
+    if (statusRef.current === "recording" || statusRef.current === "paused") {
+      discardRef.current = true
+      stopRef.current()
+    }
+    discardRecording()
+    elapsedRef.current = 0
+    setElapsedSeconds(0)
+    setError(null)
+  }, [discardRecording])
+
+  // Throws away the recording and gets ready to record again
+  const reset = () => {
+    if (statusRef.current === "uploading") return
+    clearRecording()
+    prepare()
+  }
+
+  // Reopens the devices with another camera or microphone and remembers it for future recordings
+  const switchDevice = (kind: "audioinput" | "videoinput", deviceId: string) => {
+    if (statusRef.current !== "idle" && statusRef.current !== "requesting") return
+
+    const profile = loadDeviceProfile() ?? { audioInputId: null, videoInputId: null, noiseFloorDb: null, checkedAt: 0 }
+    saveDeviceProfile({ ...profile, [kind === "audioinput" ? "audioInputId" : "videoInputId"]: deviceId })
+    setError(null)
+    prepare()
+  }
+
+  // The answer is on its way to the server; it can't be re-recorded until that fails
+  const setUploading = (uploading: boolean) => {
+    if (uploading && statusRef.current === "stopped") moveTo("uploading")
+    if (!uploading && statusRef.current === "uploading") moveTo("stopped")
+  }
+
+  // Open the devices up front so the preview and permission prompt come before the answer. Switching media
+  // type drops any recording of the old one and reopens the devices for the new one.
+  useEffect(() => {
+    if (statusRef.current === "uploading") return
+    clearRecording()
+    openStream(mediaType).then((stream) => {
+      if (stream) moveTo("idle")
+    })
+  }, [mediaType, clearRecording, openStream, moveTo])
+
+  useEffect(() => {
+    setIsSupported(isRecordingSupported())
+
+    return () => {
+      streamRequestRef.current += 1
+      discardRef.current = true
+      stopClock()
+      stopAnalyzers()
+      try {
+        if (mediaRecorderRef.current?.state !== "inactive") mediaRecorderRef.current?.stop()
+      } catch {
+        // Already stopped
+      }
+      closeStream()
+      if (recordingRef.current) URL.revokeObjectURL(recordingRef.current.url)
+    }
+  }, [])
+
+  return {
+    status,
+    error,
+    elapsedSeconds,
+    recording,
+    isSupported,
+    devices,
+    activeDevices,
+    previewRef: attachPreview,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+    switchDevice,
+    setUploading,
+  }
+}
@@ -0,0 +1,178 @@
+import { z } from "zod"
+import type { JsonSchema } from "@/lib/llm"
+import type { Rubric } from "@/lib/rubrics"
+import { normalizeSkill, SKILL_KEYS } from "@/lib/skills"
+
+// Schemas for the payloads we ask the LLM to produce. Each zod schema has a JSON Schema twin
+// that is passed to the provider so the model is constrained to the same shape we validate.
+
+const QUESTION_TYPES = ["behavioral", "technical", "situational", "general"] as const
+
+export const generatedQuestionSchema = z.object({
+  question_text: z.string().trim().min(10, "question_text is too short"),
+  question_type: z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase().trim() : value),
+    z.enum(QUESTION_TYPES),
+  ),
+  // Skills outside the taxonomy are dropped rather than failing the whole batch
+  skills: z
+    .array(z.string())
+    .default([])
+    .transform((skills) => Array.from(new Set(skills.map(normalizeSkill).filter((skill): skill is string => !!skill)))),
+  tags: z
+    .array(z.string())
+    .default([])
+    .transform((tags) => tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+})
+
+// Accept a bare array too; some local models ignore the wrapper object
+export const generatedQuestionsSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { questions: value } : value),
+  z.object({
+    questions: z.array(generatedQuestionSchema).min(1, "at least one question is required"),
+  }),
+)
+
+export type GeneratedQuestion = z.infer<typeof generatedQuestionSchema>
+
+export const generatedQuestionsJsonSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          question_text: { type: "string" },
+          question_type: { type: "string", enum: [...QUESTION_TYPES] },
+          skills: { type: "array", items: { type: "string", enum: SKILL_KEYS } },
+          tags: { type: "array", items: { type: "string" } },
+        },
+        required: ["question_text", "question_type"],
+      },
+    },
+  },
+  required: ["questions"],
+}
+
+export const dimensionScoreSchema = z.object({
+  dimension: z.string(),
+  score: z.number().int().min(1).max(5),
+  justification: z.string().trim().min(1, "justification is required"),
+})
+
+export type DimensionScore = z.infer<typeof dimensionScoreSchema>
+
+// Recruiter-supplied reference material for a company question
+export interface AnswerReference {
+  modelAnswer: string | null
+  keyPoints: string[]
+  redFlags: string[]
+}
+
+// The model must score every dimension of the rubric exactly once, and place every key point
+// in either key_points_covered or key_points_missed
+export function createFeedbackAnalysisSchema(rubric: Rubric, reference?: AnswerReference) {
+  const keys = rubric.dimensions.map((d) => d.key)
+  const keyPoints = reference?.keyPoints || []
+  const redFlags = reference?.redFlags || []
+
+  return z
+    .object({
+      feedback_text: z.string().trim().min(1, "feedback_text is required"),
+      strengths: z.array(z.string().trim().min(1)).min(1, "list at least one strength"),
+      improvement_areas: z.array(z.string().trim().min(1)).min(1, "list at least one improvement area"),
+      dimension_scores: z
+        .array(dimensionScoreSchema)
+        .refine(
+          (scores) => keys.every((key) => scores.filter((s) => s.dimension === key).length === 1),
+          `score each of these dimensions exactly once: ${keys.join(", ")}`,
+        )
+        .transform((scores) => scores.filter((s) => keys.includes(s.dimension))),
+      key_points_covered: z.array(z.string()).default([]),
+      key_points_missed: z.array(z.string()).default([]),
+      red_flags_triggered: z
+        .array(z.string())
+        .default([])
+        .transform((flags) => flags.filter((flag) => redFlags.includes(flag))),
+    })
+    .refine(
+      (analysis) =>
+        keyPoints.every(
+          (point) => analysis.key_points_covered.includes(point) !== analysis.key_points_missed.includes(point),
+        ),
+      {
+        message: `list each of these key points in exactly one of key_points_covered or key_points_missed: ${keyPoints.join("; ")}`,
+        path: ["key_points_covered"],
+      },
+    )
+    .transform((analysis) => ({
+      ...analysis,
+      key_points_covered: analysis.key_points_covered.filter((point) => keyPoints.includes(point)),
+      key_points_missed: analysis.key_points_missed.filter((point) => keyPoints.includes(point)),
+    }))
+}
+
+export type FeedbackAnalysis = z.infer<ReturnType<typeof createFeedbackAnalysisSchema>>
+
+export function createFeedbackAnalysisJsonSchema(rubric: Rubric, reference?: AnswerReference): JsonSchema {
+  const keyPointList: JsonSchema = { type: "array", items: { type: "string", enum: reference?.keyPoints } }
+
+  return {
+    type: "object",
+    properties: {
+      feedback_text: { type: "string" },
+      strengths: { type: "array", items: { type: "string" } },
+      improvement_areas: { type: "array", items: { type: "string" } },
+      dimension_scores: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            dimension: { type: "string", enum: rubric.dimensions.map((d) => d.key) },
+            score: { type: "integer", description: "1 (poor) to 5 (excellent)" },
+            justification: { type: "string" },
+          },
+          required: ["dimension", "score", "justification"],
+        },
+      },
+      ...(reference?.keyPoints.length
+        ? { key_points_covered: keyPointList, key_points_missed: keyPointList }
+        : {}),
+      ...(reference?.redFlags.length
+        ? { red_flags_triggered: { type: "array", items: { type: "string", enum: reference.redFlags } } }
+        : {}),
+    },
+    required: [
+      "feedback_text",
+      "strengths",
+      "improvement_areas",
+      "dimension_scores",
+      ...(reference?.keyPoints.length ? ["key_points_covered", "key_points_missed"] : []),
+    ],
+  }
+}
+
+// Whether the interviewer should drill down on the last answer, and with what question
+export const followUpDecisionSchema = z
+  .object({
+    ask_follow_up: z.boolean(),
+    question_text: z.string().trim().nullish(),
+    reason: z.string().trim().min(1, "reason is required"),
+  })
+  .refine((decision) => !decision.ask_follow_up || (decision.question_text?.length ?? 0) >= 10, {
+    message: "question_text is required when ask_follow_up is true",
+    path: ["question_text"],
+  })
+
+export type FollowUpDecision = z.infer<typeof followUpDecisionSchema>
+
+export const followUpDecisionJsonSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    ask_follow_up: { type: "boolean" },
+    question_text: { type: "string", description: "The follow-up question, or an empty string when not asking one" },
+    reason: { type: "string" },
+  },
+  required: ["ask_follow_up", "question_text", "reason"],
+}
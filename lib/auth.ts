@@ -0,0 +1,71 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Role } from "@/lib/roles"
+
+export class UnauthorizedError extends Error {
+  constructor(message = "You must be signed in to do that") {
+    super(message)
+    this.name = "UnauthorizedError"
+  }
+}
+
+// The signed-in user for this request, verified with Supabase Auth, or null
+export async function getCurrentUser() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return user
+}
+
+export async function requireUser() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    throw new UnauthorizedError()
+  }
+
+  return user
+}
+
+// The signed-in user with their role and organization; users without a profile row are treated as students
+export async function getCurrentProfile() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return null
+  }
+
+  const supabase = await createClient()
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, organization_id")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  return {
+    user,
+    role: (profile?.role ?? "student") as Role,
+    organizationId: (profile?.organization_id ?? null) as string | null,
+  }
+}
+
+export async function requireProfile() {
+  const profile = await getCurrentProfile()
+
+  if (!profile) {
+    throw new UnauthorizedError()
+  }
+
+  return profile
+}
+
+export async function requireRole(...roles: Role[]) {
+  const profile = await requireProfile()
+
+  if (!roles.includes(profile.role)) {
+    throw new UnauthorizedError("You don't have permission to do that")
+  }
+
+  return profile
+}
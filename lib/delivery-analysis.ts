@@ -0,0 +1,207 @@
+// Delivery habits in an answer's transcript: filler words, hedging, repeated starts and pacing. Counting
+// is deterministic so the same transcript always gives the same numbers, and the marks used to
+// highlight the transcript are the ones the counts come from.
+
+import type { TranscriptWord } from "@/lib/transcription/types"
+import { speakingRate } from "@/lib/voice-analysis"
+
+export type DeliveryMarkKind = "filler" | "hedge" | "repeat"
+
+export interface DeliveryMark {
+  kind: DeliveryMarkKind
+  label: string // the normalized phrase, e.g. "you know"
+  start: number // character offsets into the text
+  end: number
+}
+
+export interface DeliveryMetrics {
+  word_count: number
+  fillers: { total: number; per_100_words: number; counts: Record<string, number> }
+  hedges: { total: number; per_100_words: number; counts: Record<string, number> }
+  repeated_starts: number
+  words_per_minute: number | null // only for recorded answers, from the word timings
+  longest_pause_seconds: number | null
+}
+
+export interface DeliveryHistoryEntry {
+  interviewId: string
+  jobRole: string
+  date: string
+  metrics: DeliveryMetrics // all of the interview's answers combined
+}
+
+// "like" is handled separately because it is usually a real word
+const FILLERS = ["um", "umm", "uh", "uhh", "er", "erm", "ah", "hmm", "you know", "i mean", "basically", "literally"]
+
+const HEDGES = [
+  "i think",
+  "i guess",
+  "i believe",
+  "i suppose",
+  "i feel like",
+  "i'm not sure",
+  "i'm not really sure",
+  "maybe",
+  "perhaps",
+  "probably",
+  "possibly",
+  "sort of",
+  "kind of",
+  "somewhat",
+  "a little bit",
+  "more or less",
+]
+
+// After these words a phrase is meant literally: "do you know", "what kind of database"
+const DETERMINERS = ["what", "which", "this", "that", "the", "a", "any", "some", "every", "same", "another"]
+const LITERAL_AFTER: Record<string, Set<string>> = {
+  "you know": new Set(["do", "did", "don't", "didn't", "if", "would", "to"]),
+  "kind of": new Set(DETERMINERS),
+  "sort of": new Set(DETERMINERS),
+}
+
+// Words that are grammatical when doubled ("that that", "had had")
+const ALLOWED_REPEATS = new Set(["that", "had", "is"])
+
+interface Token {
+  word: string
+  start: number
+  end: number
+}
+
+const toPhrase = (phrase: string) => phrase.split(" ")
+
+const phrases = [
+  ...FILLERS.map((phrase) => ({ kind: "filler" as const, phrase, words: toPhrase(phrase) })),
+  ...HEDGES.map((phrase) => ({ kind: "hedge" as const, phrase, words: toPhrase(phrase) })),
+].sort((a, b) => b.words.length - a.words.length)
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g), (match) => ({
+    word: match[0].toLowerCase().replace(/’/g, "'"),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+}
+
+export function findDeliveryMarks(text: string): DeliveryMark[] {
+  const tokens = tokenize(text)
+  const marks: DeliveryMark[] = []
+
+  // The text between two tokens tells us about commas and sentence breaks
+  const gapBefore = (index: number) => text.slice(index > 0 ? tokens[index - 1].end : 0, tokens[index].start)
+  const gapAfter = (index: number) => text.slice(tokens[index].end, tokens[index + 1]?.start ?? text.length)
+  const startsClause = (index: number) => index === 0 || /[.!?,;:—-]/.test(gapBefore(index))
+
+  const mark = (kind: DeliveryMarkKind, from: number, to: number) =>
+    marks.push({
+      kind,
+      label: tokens
+        .slice(from, to + 1)
+        .map((token) => token.word)
+        .join(" "),
+      start: tokens[from].start,
+      end: tokens[to].end,
+    })
+
+  let i = 0
+  while (i < tokens.length) {
+    const matched = phrases.find(({ words }) =>
+      words.every((word, offset) => i + offset < tokens.length && tokens[i + offset].word === word),
+    )
+
+    if (matched && !LITERAL_AFTER[matched.phrase]?.has(tokens[i - 1]?.word)) {
+      mark(matched.kind, i, i + matched.words.length - 1)
+      i += matched.words.length
+      continue
+    }
+
+    // "like" set off by a comma or opening a sentence is a filler; "tools like Redis" is not
+    if (tokens[i].word === "like" && (startsClause(i) || /^\s*,/.test(gapAfter(i)))) {
+      mark("filler", i, i)
+      i += 1
+      continue
+    }
+
+    // A restart: the same one or two words said twice in a row ("I I", "we were, we were")
+    const sameWord = tokens[i + 1]?.word === tokens[i].word
+    const samePair =
+      i + 3 < tokens.length && tokens[i].word === tokens[i + 2].word && tokens[i + 1].word === tokens[i + 3].word
+    if (sameWord && !ALLOWED_REPEATS.has(tokens[i].word) && !/^\d+$/.test(tokens[i].word)) {
+      mark("repeat", i, i)
+      i += 1
+      continue
+    }
+    if (samePair && !sameWord) {
+      mark("repeat", i, i + 1)
+      i += 2
+      continue
+    }
+
+    i += 1
+  }
+
+  return marks
+}
+
+const per100 = (count: number, words: number) => (words > 0 ? Math.round((count / words) * 1000) / 10 : 0)
+
+function countLabels(marks: DeliveryMark[]) {
+  return marks.reduce<Record<string, number>>((counts, mark) => {
+    counts[mark.label] = (counts[mark.label] || 0) + 1
+    return counts
+  }, {})
+}
+
+// Pacing needs word timings, so text answers only get the counts
+export function analyzeDelivery(text: string, words: TranscriptWord[] = []): DeliveryMetrics {
+  const wordCount = tokenize(text).length
+  const marks = findDeliveryMarks(text)
+  const fillers = marks.filter((mark) => mark.kind === "filler")
+  const hedges = marks.filter((mark) => mark.kind === "hedge")
+
+  const gaps = words.slice(1).map((word, index) => word.start - words[index].end)
+
+  return {
+    word_count: wordCount,
+    fillers: { total: fillers.length, per_100_words: per100(fillers.length, wordCount), counts: countLabels(fillers) },
+    hedges: { total: hedges.length, per_100_words: per100(hedges.length, wordCount), counts: countLabels(hedges) },
+    repeated_starts: marks.filter((mark) => mark.kind === "repeat").length,
+    words_per_minute: speakingRate(words)?.words_per_minute ?? null,
+    longest_pause_seconds: gaps.length > 0 ? Math.round(Math.max(0, ...gaps) * 10) / 10 : null,
+  }
+}
+
+function mergeCounts(counts: Record<string, number>[]) {
+  return counts.reduce<Record<string, number>>((merged, entry) => {
+    Object.entries(entry).forEach(([label, count]) => (merged[label] = (merged[label] || 0) + count))
+    return merged
+  }, {})
+}
+
+// Several answers as one, with rates weighted by how much was said in each
+export function combineDelivery(metrics: DeliveryMetrics[]): DeliveryMetrics {
+  const total = (pick: (entry: DeliveryMetrics) => number) => metrics.reduce((sum, entry) => sum + pick(entry), 0)
+  const words = total((entry) => entry.word_count)
+  const fillers = total((entry) => entry.fillers.total)
+  const hedges = total((entry) => entry.hedges.total)
+  const paced = metrics.flatMap((entry) => (entry.words_per_minute !== null ? [entry.words_per_minute] : []))
+  const pauses = metrics.flatMap((entry) => (entry.longest_pause_seconds !== null ? [entry.longest_pause_seconds] : []))
+
+  return {
+    word_count: words,
+    fillers: {
+      total: fillers,
+      per_100_words: per100(fillers, words),
+      counts: mergeCounts(metrics.map((entry) => entry.fillers.counts)),
+    },
+    hedges: {
+      total: hedges,
+      per_100_words: per100(hedges, words),
+      counts: mergeCounts(metrics.map((entry) => entry.hedges.counts)),
+    },
+    repeated_starts: total((entry) => entry.repeated_starts),
+    words_per_minute: paced.length > 0 ? Math.round(paced.reduce((sum, rate) => sum + rate, 0) / paced.length) : null,
+    longest_pause_seconds: pauses.length > 0 ? Math.max(...pauses) : null,
+  }
+}
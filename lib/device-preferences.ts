@@ -0,0 +1,41 @@
+// The camera and microphone a candidate picked in the device check, plus what the check measured about
+// their room. Saved in localStorage so every recorder on this browser opens the same devices.
+
+export interface DeviceProfile {
+  audioInputId: string | null
+  videoInputId: string | null
+  noiseFloorDb: number | null // background level with nobody talking, in dBFS
+  checkedAt: number
+}
+
+const STORAGE_KEY = "interview-device-profile"
+
+export function loadDeviceProfile(): DeviceProfile | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as DeviceProfile) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveDeviceProfile(profile: DeviceProfile) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile))
+  } catch (error) {
+    // Private browsing or a full quota; recorders fall back to the default devices
+    console.warn("Could not save device profile:", error)
+  }
+}
+
+// `ideal` rather than `exact`, so an unplugged device falls back to the default instead of failing
+const withDevice = (deviceId: string | null | undefined, constraints: MediaTrackConstraints) =>
+  deviceId ? { ...constraints, deviceId: { ideal: deviceId } } : constraints
+
+export function audioConstraints(constraints: MediaTrackConstraints = {}): MediaTrackConstraints {
+  return withDevice(loadDeviceProfile()?.audioInputId, constraints)
+}
+
+export function videoConstraints(constraints: MediaTrackConstraints = {}): MediaTrackConstraints {
+  return withDevice(loadDeviceProfile()?.videoInputId, constraints)
+}
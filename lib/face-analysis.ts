@@ -0,0 +1,282 @@
+// On-device camera presence for video answers: whether the candidate's face is in frame, whether they
+// look toward the camera, how much their head moves, and how well they are framed and lit. Frames are
+// analyzed in the browser with MediaPipe's face landmarker and never leave the device.
+//
+// Everything is served from our own origin: on install, scripts/copy-vision-assets.mjs copies the WASM
+// runtime to public/vision/wasm and downloads MediaPipe's float16 face landmarker model to
+// public/vision/face_landmarker.task. If either is missing, or the browser can't run the model, the
+// analysis reports "not measured" rather than guessing.
+
+import type { FaceLandmarker } from "@mediapipe/tasks-vision"
+
+const WASM_PATH = "/vision/wasm"
+const MODEL_PATH = "/vision/face_landmarker.task"
+
+// Head turned further than this from the camera, in degrees, is looking away
+const MAX_GAZE_YAW = 15
+const MAX_GAZE_PITCH = 12
+
+// Eye blendshape scores above this mean the eyes are turned away even if the head faces the camera
+const EYE_LOOK_THRESHOLD = 0.5
+
+// Face width as a share of the frame width
+const MIN_FACE_WIDTH = 0.15
+const MAX_FACE_WIDTH = 0.6
+
+// Mean luma (0-255) outside this range is too dark or washed out
+const MIN_BRIGHTNESS = 60
+const MAX_BRIGHTNESS = 200
+
+interface FaceSample {
+  time: number // seconds from the start of the recording
+  face: boolean
+  lookingAtCamera: boolean | null
+  yaw: number | null
+  pitch: number | null
+  centered: boolean | null
+  width: number | null
+  brightness: number | null
+}
+
+export type FaceSize = "too_small" | "good" | "too_close"
+export type LightingQuality = "too_dark" | "good" | "too_bright"
+
+export type FaceAnalysis =
+  | {
+      measured: true
+      duration_seconds: number
+      samples: number
+      face_in_frame_percent: number
+      eye_contact_percent: number | null // of the samples with a face in frame
+      head_movement: number | null // average change in head angle, degrees per second
+      framing: { centered_percent: number | null; face_size: FaceSize | null }
+      lighting: { brightness: number | null; quality: LightingQuality | null }
+    }
+  | {
+      measured: false
+      reason: string
+    }
+
+let landmarkerPromise: Promise<FaceLandmarker> | null = null
+
+// Loaded once per page and shared by every recording
+export function loadFaceLandmarker(): Promise<FaceLandmarker> {
+  if (!landmarkerPromise) {
+    landmarkerPromise = (async () => {
+      const { FaceLandmarker, FilesetResolver } = await import("@mediapipe/tasks-vision")
+      const fileset = await FilesetResolver.forVisionTasks(WASM_PATH)
+      return FaceLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: MODEL_PATH },
+        runningMode: "VIDEO",
+        numFaces: 1,
+        outputFaceBlendshapes: true,
+        outputFacialTransformationMatrixes: true,
+      })
+    })()
+
+    // Let a later recording try again, e.g. after the model file has been added
+    landmarkerPromise.catch(() => {
+      landmarkerPromise = null
+    })
+  }
+  return landmarkerPromise
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const percent = (count: number, total: number) => Math.round((count / total) * 100)
+
+// Head yaw and pitch in degrees from the facial transformation matrix (column-major 4x4)
+function headAngles(data: number[]) {
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI
+  return {
+    yaw: toDegrees(Math.asin(Math.max(-1, Math.min(1, -data[2])))),
+    pitch: toDegrees(Math.atan2(data[6], data[10])),
+  }
+}
+
+// Average brightness of a small copy of the frame
+function frameBrightness(video: HTMLVideoElement, canvas: HTMLCanvasElement) {
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) return null
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height)
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height)
+  let sum = 0
+  for (let i = 0; i < data.length; i += 4) {
+    sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+  }
+  return sum / (data.length / 4)
+}
+
+export interface FaceAnalyzerOptions {
+  intervalMs?: number
+  onSample?: (faceInFrame: boolean) => void
+}
+
+// Samples the camera preview until stopped. stop() returns the summary, or why nothing was measured.
+// Time spent paused isn't sampled and doesn't count toward the duration.
+export function createFaceAnalyzer(video: HTMLVideoElement, { intervalMs = 500, onSample }: FaceAnalyzerOptions = {}) {
+  const samples: FaceSample[] = []
+  const startedAt = performance.now()
+  const canvas = document.createElement("canvas")
+  canvas.width = 64
+  canvas.height = 48
+
+  let landmarker: FaceLandmarker | null = null
+  let failure: string | null = null
+  let timer: ReturnType<typeof setInterval> | null = null
+  let pausedAt: number | null = null
+  let pausedMs = 0
+
+  // Seconds of recording, not counting pauses
+  const elapsed = (now: number) => (now - startedAt - pausedMs) / 1000
+
+  const sample = () => {
+    if (!landmarker || pausedAt !== null || video.readyState < 2) return
+
+    try {
+      const now = performance.now()
+      const result = landmarker.detectForVideo(video, now)
+      const landmarks = result.faceLandmarks[0]
+      const brightness = frameBrightness(video, canvas)
+
+      if (!landmarks) {
+        samples.push({
+          time: elapsed(now),
+          face: false,
+          lookingAtCamera: null,
+          yaw: null,
+          pitch: null,
+          centered: null,
+          width: null,
+          brightness,
+        })
+        onSample?.(false)
+        return
+      }
+
+      const xs = landmarks.map((point) => point.x)
+      const ys = landmarks.map((point) => point.y)
+      const left = Math.min(...xs)
+      const right = Math.max(...xs)
+      const top = Math.min(...ys)
+      const bottom = Math.max(...ys)
+      const centerX = (left + right) / 2
+      const centerY = (top + bottom) / 2
+
+      const matrix = result.facialTransformationMatrixes[0]
+      const angles = matrix ? headAngles(matrix.data) : null
+
+      const eyeScores = result.faceBlendshapes[0]?.categories.filter((category) =>
+        category.categoryName.startsWith("eyeLook"),
+      )
+      const eyesAway = eyeScores ? eyeScores.some((category) => category.score > EYE_LOOK_THRESHOLD) : false
+
+      samples.push({
+        time: elapsed(now),
+        face: true,
+        lookingAtCamera: angles
+          ? Math.abs(angles.yaw) <= MAX_GAZE_YAW && Math.abs(angles.pitch) <= MAX_GAZE_PITCH && !eyesAway
+          : null,
+        yaw: angles?.yaw ?? null,
+        pitch: angles?.pitch ?? null,
+        centered: centerX >= 0.3 && centerX <= 0.7 && centerY >= 0.2 && centerY <= 0.7,
+        width: right - left,
+        brightness,
+      })
+      onSample?.(true)
+    } catch (error) {
+      console.error("Error analyzing video frame:", error)
+    }
+  }
+
+  loadFaceLandmarker()
+    .then((loaded) => {
+      landmarker = loaded
+      if (!failure) timer = setInterval(sample, intervalMs)
+    })
+    .catch((error) => {
+      console.warn("Face analysis unavailable:", error)
+      failure = "The face analysis model couldn't be loaded in this browser."
+    })
+
+  const resume = () => {
+    if (pausedAt === null) return
+    pausedMs += performance.now() - pausedAt
+    pausedAt = null
+  }
+
+  return {
+    pause() {
+      if (pausedAt === null) pausedAt = performance.now()
+    },
+    resume,
+    stop(): FaceAnalysis {
+      if (timer) clearInterval(timer)
+      resume()
+      // Keep a late-loading model from starting the timer after we've stopped
+      failure = failure || (landmarker ? null : "The face analysis model was still loading.")
+      return summarizeFace(samples, failure, elapsed(performance.now()))
+    },
+  }
+}
+
+function summarizeFace(samples: FaceSample[], failure: string | null, duration: number): FaceAnalysis {
+  if (samples.length === 0) {
+    return { measured: false, reason: failure || "The recording was too short to analyze." }
+  }
+
+  const withFace = samples.filter((sample) => sample.face)
+  const gazeSamples = withFace.filter((sample) => sample.lookingAtCamera !== null)
+  const widths = withFace.flatMap((sample) => (sample.width !== null ? [sample.width] : []))
+  const brightness = samples.flatMap((sample) => (sample.brightness !== null ? [sample.brightness] : []))
+
+  // Head movement: how far the head turns between consecutive samples with a face, per second
+  const angled = withFace.filter((sample) => sample.yaw !== null && sample.pitch !== null)
+  const movements = angled.slice(1).map((sample, index) => {
+    const previous = angled[index]
+    const elapsed = Math.max(sample.time - previous.time, 0.001)
+    return Math.hypot(sample.yaw! - previous.yaw!, sample.pitch! - previous.pitch!) / elapsed
+  })
+
+  const averageWidth = widths.length > 0 ? widths.reduce((sum, width) => sum + width, 0) / widths.length : null
+  const averageBrightness =
+    brightness.length > 0 ? brightness.reduce((sum, value) => sum + value, 0) / brightness.length : null
+
+  return {
+    measured: true,
+    duration_seconds: round(duration),
+    samples: samples.length,
+    face_in_frame_percent: percent(withFace.length, samples.length),
+    eye_contact_percent:
+      gazeSamples.length > 0
+        ? percent(gazeSamples.filter((sample) => sample.lookingAtCamera).length, gazeSamples.length)
+        : null,
+    head_movement:
+      movements.length > 0 ? round(movements.reduce((sum, value) => sum + value, 0) / movements.length) : null,
+    framing: {
+      centered_percent:
+        withFace.length > 0 ? percent(withFace.filter((sample) => sample.centered).length, withFace.length) : null,
+      face_size:
+        averageWidth === null
+          ? null
+          : averageWidth < MIN_FACE_WIDTH
+            ? "too_small"
+            : averageWidth > MAX_FACE_WIDTH
+              ? "too_close"
+              : "good",
+    },
+    lighting: {
+      brightness: averageBrightness !== null ? Math.round((averageBrightness / 255) * 100) : null,
+      quality:
+        averageBrightness === null
+          ? null
+          : averageBrightness < MIN_BRIGHTNESS
+            ? "too_dark"
+            : averageBrightness > MAX_BRIGHTNESS
+              ? "too_bright"
+              : "good",
+    },
+  }
+}
@@ -0,0 +1,180 @@
+import { tableFromRows, type ParsedTable } from "./questions"
+
+// RFC 4180 CSV reading. Fields may be quoted, quoted fields may contain delimiters, newlines and
+// escaped quotes (""), and records may end in LF or CRLF. Excel's regional exports use semicolons or
+// tabs instead of commas, so the delimiter is detected from the start of the file.
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"]
+const SAMPLE_RECORDS = 10
+
+// Incremental tokenizer: feed it text in chunks and it returns the records completed so far.
+// State carries across chunks, so a quoted field split between two chunks is read correctly.
+export function createCSVTokenizer(delimiter: string) {
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+  let quoteInQuotes = false // Saw a " inside a quoted field; either an escaped quote or the closing quote
+  let pendingCR = false
+  let fieldStarted = false
+
+  const endField = () => {
+    record.push(field)
+    field = ""
+    fieldStarted = false
+  }
+
+  const endRecord = (records: string[][]) => {
+    endField()
+    records.push(record)
+    record = []
+  }
+
+  return {
+    push(chunk: string): string[][] {
+      const records: string[][] = []
+
+      for (const char of chunk) {
+        if (pendingCR) {
+          pendingCR = false
+          if (char === "\n") continue // CRLF already ended the record
+        }
+
+        if (inQuotes) {
+          if (quoteInQuotes) {
+            quoteInQuotes = false
+            if (char === '"') {
+              field += '"'
+              continue
+            }
+            inQuotes = false
+            // Fall through: the character after the closing quote is handled as unquoted
+          } else if (char === '"') {
+            quoteInQuotes = true
+            continue
+          } else {
+            field += char
+            continue
+          }
+        }
+
+        if (char === '"' && !fieldStarted) {
+          inQuotes = true
+          fieldStarted = true
+        } else if (char === delimiter) {
+          endField()
+        } else if (char === "\n" || char === "\r") {
+          endRecord(records)
+          pendingCR = char === "\r"
+        } else {
+          // Stray quotes in an unquoted field are kept as-is rather than rejected
+          field += char
+          fieldStarted = true
+        }
+      }
+
+      return records
+    },
+
+    end(): string[][] {
+      const records: string[][] = []
+      if (fieldStarted || record.length > 0 || inQuotes) {
+        endRecord(records)
+      }
+      inQuotes = false
+      quoteInQuotes = false
+      return records
+    },
+  }
+}
+
+export function tokenizeCSV(text: string, delimiter: string): string[][] {
+  const tokenizer = createCSVTokenizer(delimiter)
+  return [...tokenizer.push(text), ...tokenizer.end()]
+}
+
+// Pick the delimiter that splits the first records into the same number of fields, preferring more fields.
+// Excel's "sep=;" hint line wins when present.
+export function detectDelimiter(sample: string): string {
+  const hint = sample.match(/^sep=(.)\r?\n/)
+  if (hint) {
+    return hint[1]
+  }
+
+  let best = { delimiter: ",", score: 0 }
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const records = tokenizeCSV(sample, delimiter)
+      .slice(0, SAMPLE_RECORDS)
+      .filter((record) => record.some((field) => field.trim()))
+    // The last sampled record may be cut off mid-way
+    const complete = records.length > 1 ? records.slice(0, -1) : records
+    if (complete.length === 0) return
+
+    const widths = complete.map((record) => record.length)
+    const consistent = widths.every((width) => width === widths[0])
+    const score = consistent ? widths[0] : Math.min(...widths)
+
+    if (score > best.score) {
+      best = { delimiter, score }
+    }
+  })
+
+  return best.score > 1 ? best.delimiter : ","
+}
+
+const SAMPLE_BYTES = 64 * 1024
+
+// Read a CSV file as a stream so large uploads aren't decoded and split in one go
+export async function parseCSV(file: Blob): Promise<ParsedTable> {
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder("utf-8")
+  const rows: string[][] = []
+
+  let tokenizer: ReturnType<typeof createCSVTokenizer> | null = null
+  let buffered = ""
+
+  const start = (text: string) => {
+    // Strip the byte order mark Excel writes at the start of UTF-8 exports, and the "sep=" hint line
+    let content = text.replace(/^\uFEFF/, "")
+    const delimiter = detectDelimiter(content)
+    content = content.replace(/^sep=.\r?\n/, "")
+    const started = createCSVTokenizer(delimiter)
+    rows.push(...started.push(content))
+    return started
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+    if (tokenizer) {
+      rows.push(...tokenizer.push(text))
+    } else {
+      buffered += text
+      // Collect enough of the file to detect the delimiter before tokenizing
+      if (done || buffered.length >= SAMPLE_BYTES) {
+        tokenizer = start(buffered)
+        buffered = ""
+      }
+    }
+
+    if (done) break
+  }
+
+  if (tokenizer) {
+    rows.push(...tokenizer.end())
+  }
+  return tableFromRows(rows)
+}
+
+// Quote fields that need it (delimiters, quotes, newlines, leading or trailing spaces) so the output reads
+// back through parseCSV unchanged
+export function serializeCSV(rows: string[][], delimiter = ","): string {
+  const needsQuotes = new RegExp(`["\\r\\n${delimiter === "\t" ? "\\t" : delimiter}]|^\\s|\\s$`)
+
+  return rows
+    .map((row) =>
+      row.map((field) => (needsQuotes.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(delimiter),
+    )
+    .join("\r\n")
+}
@@ -0,0 +1,51 @@
+import mammoth from "mammoth"
+import { itemsToTable, linesToTable, mergeTables, tableFromRows, type ParsedTable } from "./questions"
+
+const decodeEntities = (html: string) =>
+  html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim()
+
+const matchAll = (html: string, tag: string) =>
+  Array.from(html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "g")), (match) => match[1])
+
+// Word documents are converted to HTML so their structure survives: a table is read like a spreadsheet,
+// list items become questions, and otherwise each paragraph is treated as a line of text.
+export async function parseWordDocument(buffer: Buffer): Promise<ParsedTable> {
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer })
+  messages
+    .filter((message) => message.type === "error")
+    .forEach((message) => console.warn("Word conversion:", message.message))
+
+  const tables = matchAll(html, "table")
+  if (tables.length > 0) {
+    return mergeTables(
+      tables.map((table, index) =>
+        tableFromRows(
+          matchAll(table, "tr").map((row) => matchAll(row, "t[dh]").map(decodeEntities)),
+          tables.length > 1 ? `Table ${index + 1}` : undefined,
+        ),
+      ),
+    )
+  }
+
+  const listItems = matchAll(html, "li").map(decodeEntities).filter(Boolean)
+  if (listItems.length > 0) {
+    return itemsToTable(listItems.map((text, index) => ({ text, row: index + 1 })))
+  }
+
+  const paragraphs = matchAll(html, "p").map(decodeEntities)
+  const table = linesToTable(paragraphs.map((text, index) => ({ text, row: index + 1 })))
+  if (table.rows.length === 0) {
+    throw new Error("The document has no text to import")
+  }
+
+  return table
+}
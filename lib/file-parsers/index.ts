@@ -0,0 +1,59 @@
+import { parseCSV } from "./csv"
+import { parseWordDocument } from "./docx"
+import { parsePdf } from "./pdf"
+import { linesToTable, type ParsedTable } from "./questions"
+import { listWorksheets, parseWorkbook } from "./xlsx"
+
+export * from "./questions"
+
+export interface ParseOptions {
+  sheetName?: string // Worksheet to read from an Excel workbook; all sheets when omitted
+}
+
+// Read an uploaded file into a table of rows. Column mapping and validation happen afterwards, so the
+// recruiter can review the rows before anything is imported.
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ParsedTable> {
+  const fileType = file.type
+  const fileName = file.name.toLowerCase()
+
+  if (fileName.endsWith(".xls") || fileName.endsWith(".doc")) {
+    throw new Error("Legacy .xls and .doc files aren't supported. Save the file as .xlsx or .docx and try again.")
+  }
+
+  let table: ParsedTable
+
+  try {
+    if (fileType === "text/csv" || fileName.endsWith(".csv")) {
+      table = await parseCSV(file)
+    } else if (fileType === "text/plain" || fileName.endsWith(".txt")) {
+      const lines = (await file.text()).split(/\r?\n/)
+      table = linesToTable(lines.map((text, index) => ({ text, row: index + 1 })))
+    } else if (fileName.endsWith(".xlsx")) {
+      table = await parseWorkbook(await file.arrayBuffer(), options.sheetName)
+    } else if (fileName.endsWith(".pdf")) {
+      table = await parsePdf(await file.arrayBuffer())
+    } else if (fileName.endsWith(".docx")) {
+      table = await parseWordDocument(Buffer.from(await file.arrayBuffer()))
+    } else {
+      throw new Error("Unsupported file format. Please use CSV, TXT, Excel, PDF, or Word files.")
+    }
+  } catch (error) {
+    console.error("Error parsing file:", error)
+    throw new Error(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`)
+  }
+
+  if (table.rows.length === 0) {
+    throw new Error(`No rows found in ${file.name}`)
+  }
+
+  return table
+}
+
+// Sheet names of an uploaded workbook, so the recruiter can pick which one to import
+export async function listWorkbookSheets(file: File): Promise<string[]> {
+  if (!file.name.toLowerCase().endsWith(".xlsx")) {
+    return []
+  }
+
+  return listWorksheets(await file.arrayBuffer())
+}
@@ -0,0 +1,21 @@
+import { extractText } from "unpdf"
+import { linesToTable, mergeTables, type ParsedTable } from "./questions"
+
+// PDFs have no structure to rely on, so questions are read as numbered or bulleted items from the
+// text of each page. Row numbers are line numbers on that page.
+export async function parsePdf(buffer: ArrayBuffer): Promise<ParsedTable> {
+  const { text: pages } = await extractText(new Uint8Array(buffer), { mergePages: false })
+
+  if (pages.every((page) => !page.trim())) {
+    throw new Error("The PDF has no text layer (it may be a scanned image). Export it as text or CSV instead.")
+  }
+
+  return mergeTables(
+    pages.map((page, index) =>
+      linesToTable(
+        page.split(/\r?\n/).map((text, line) => ({ text, row: line + 1 })),
+        `Page ${index + 1}`,
+      ),
+    ),
+  )
+}
@@ -0,0 +1,377 @@
+// Format-independent part of question import: reading tables out of files, mapping their columns onto
+// question fields, and validating and normalizing each row. Safe to import from client components; the
+// format readers live alongside and are server-only.
+
+import type { QuestionVisibility } from "@/lib/organizations"
+import { normalizeSkill } from "@/lib/skills"
+
+export type QuestionType = "behavioral" | "technical" | "situational" | "general"
+export type ExperienceLevel = "fresher" | "1-3-years" | "3-plus-years"
+export type QuestionDifficulty = "easy" | "medium" | "hard"
+
+export interface ParsedQuestion {
+  question_text: string
+  question_type: QuestionType
+  experience_level: ExperienceLevel
+  order_number?: number
+  model_answer?: string | null
+  key_points?: string[]
+  red_flags?: string[]
+  tags?: string[]
+  skills?: string[]
+  difficulty?: QuestionDifficulty | null
+}
+
+// A row that wasn't imported. `row` is the 1-based row, line or list item in the source.
+export interface ParseRowError {
+  row: number
+  message: string
+  source?: string // Sheet, table or page the row came from
+}
+
+// A row as read from the file, before any column mapping
+export interface ParsedRow {
+  row: number
+  source?: string
+  cells: string[]
+}
+
+export interface ParsedTable {
+  headers: string[]
+  rows: ParsedRow[]
+}
+
+export type QuestionField =
+  | "question_text"
+  | "question_type"
+  | "experience_level"
+  | "model_answer"
+  | "key_points"
+  | "red_flags"
+  | "tags"
+  | "skills"
+  | "difficulty"
+
+export const questionFields: Array<{ key: QuestionField; label: string; required?: boolean }> = [
+  { key: "question_text", label: "Question Text", required: true },
+  { key: "question_type", label: "Question Type" },
+  { key: "experience_level", label: "Experience Level" },
+  { key: "model_answer", label: "Model Answer" },
+  { key: "key_points", label: "Key Points" },
+  { key: "red_flags", label: "Red Flags" },
+  { key: "tags", label: "Tags" },
+  { key: "skills", label: "Skills" },
+  { key: "difficulty", label: "Difficulty" },
+]
+
+// Which source column feeds each question field; unmapped fields use their default
+export type ColumnMapping = Partial<Record<QuestionField, number>>
+
+// Raw text for each field of one row, after mapping and any edits made in the preview
+export type RowValues = Partial<Record<QuestionField, string>>
+
+export interface Normalization {
+  row: number
+  source?: string
+  field: QuestionField
+  from: string
+  to: string
+}
+
+export interface RowReview {
+  question: ParsedQuestion | null
+  errors: string[]
+  normalized: Normalization[]
+}
+
+// Stored on question_uploads.report so recruiters can see what happened to every row of an upload
+export interface UploadReport {
+  sheet?: string
+  mapping: ColumnMapping
+  total_rows: number
+  imported: number
+  rejected: ParseRowError[] // Failed validation
+  skipped: ParseRowError[] // Left out by the recruiter in the preview
+  normalized: Normalization[]
+  duplicates?: DuplicateMatch[]
+}
+
+// A row that matched a question already in the bank, or an earlier row of the same upload.
+// Exact matches are skipped; near duplicates are imported and left for the recruiter to merge.
+export interface DuplicateMatch {
+  row: number
+  source?: string
+  question_text: string
+  match_id: string | null // Null when the match is an earlier row of this upload
+  match_text: string
+  similarity: number
+  action: "skipped" | "imported"
+}
+
+// What the preview sends back to be imported
+export interface QuestionImport {
+  filename: string
+  fileType: string
+  companyId?: string
+  visibility: QuestionVisibility
+  sheetName?: string
+  mapping: ColumnMapping
+  rows: Array<{ row: number; source?: string; values: RowValues }> // Mapped and edited in the preview
+  skipped: ParseRowError[]
+}
+
+export const QUESTION_TYPES: QuestionType[] = ["behavioral", "technical", "situational", "general"]
+export const EXPERIENCE_LEVELS: ExperienceLevel[] = ["fresher", "1-3-years", "3-plus-years"]
+export const DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"]
+
+const MIN_QUESTION_LENGTH = 5
+
+// Key point, red flag, tag and skill cells hold several entries separated by semicolons or pipes
+export function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(/[;|]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+// Header names we recognise for each field, compared lowercased with punctuation stripped
+const headerAliases: Record<QuestionField, string[]> = {
+  question_text: ["question", "question text", "questions", "text", "prompt"],
+  question_type: ["type", "question type", "category"],
+  experience_level: ["experience level", "level", "experience", "seniority"],
+  model_answer: ["model answer", "answer", "sample answer", "ideal answer"],
+  key_points: ["key points", "keypoints", "points", "rubric"],
+  red_flags: ["red flags", "redflags", "flags"],
+  tags: ["tags", "tag", "topics", "keywords"],
+  skills: ["skills", "skill", "competencies", "competency"],
+  difficulty: ["difficulty", "difficulty level", "complexity"],
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+
+function mapHeaderNames(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+
+  headers.forEach((header, index) => {
+    const name = normalizeHeader(header)
+    const field = questionFields.find(({ key }) => headerAliases[key].includes(name))?.key
+    if (field && mapping[field] === undefined) {
+      mapping[field] = index
+    }
+  })
+
+  return mapping
+}
+
+// Map columns by header name, falling back to the column order of the sample CSV
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byName = mapHeaderNames(headers)
+  if (byName.question_text !== undefined) {
+    return byName
+  }
+
+  return Object.fromEntries(
+    questionFields.slice(0, headers.length).map(({ key }, index) => [key, index]),
+  ) as ColumnMapping
+}
+
+// Build a table from raw rows. The first non-empty row is used as the header when it names the question
+// column; otherwise columns get generic names. `firstRowNumber` is the source row number of rows[0].
+export function tableFromRows(rows: string[][], source?: string, firstRowNumber = 1): ParsedTable {
+  const nonEmpty = rows
+    .map((cells, index) => ({ cells: cells.map((cell) => (cell ?? "").trim()), row: firstRowNumber + index, source }))
+    .filter(({ cells }) => cells.some(Boolean))
+
+  if (nonEmpty.length === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  const width = Math.max(...nonEmpty.map(({ cells }) => cells.length))
+
+  if (mapHeaderNames(nonEmpty[0].cells).question_text !== undefined) {
+    return { headers: nonEmpty[0].cells, rows: nonEmpty.slice(1) }
+  }
+
+  return { headers: Array.from({ length: width }, (_, index) => `Column ${index + 1}`), rows: nonEmpty }
+}
+
+// Combine tables from several sheets or pages. Columns are matched by header name, so sheets that
+// order their columns differently still line up.
+export function mergeTables(tables: ParsedTable[]): ParsedTable {
+  const headers: string[] = []
+
+  const rows = tables.flatMap((table) => {
+    const positions = table.headers.map((header) => {
+      const existing = headers.findIndex((h) => normalizeHeader(h) === normalizeHeader(header))
+      return existing === -1 ? headers.push(header) - 1 : existing
+    })
+
+    return table.rows.map((row) => {
+      const cells: string[] = []
+      row.cells.forEach((cell, index) => {
+        cells[positions[index] ?? index] = cell
+      })
+      return { ...row, cells: Array.from(cells, (cell) => cell ?? "") }
+    })
+  })
+
+  return { headers, rows }
+}
+
+// "1.", "1)", "Q1:", "Q1.", "-", "*", "•" at the start of a line
+const LIST_MARKER = /^\s*(?:(?:q(?:uestion)?\s*)?\d+\s*[.):-]|[-*•▪●◦])\s+/i
+
+export function stripListMarker(line: string) {
+  return line.replace(LIST_MARKER, "").trim()
+}
+
+// Questions written one per item, without type or level columns
+export function itemsToTable(items: Array<{ text: string; row: number }>, source?: string): ParsedTable {
+  return {
+    headers: ["Question"],
+    rows: items
+      .map(({ text, row }) => ({ row, source, cells: [text.replace(/\s+/g, " ").trim()] }))
+      .filter(({ cells }) => cells[0]),
+  }
+}
+
+// Read free text (a .txt file, a PDF page) as a table of questions. When the text is a numbered or bulleted
+// list, only list items count and wrapped lines are joined onto their item; otherwise each line is a question.
+export function linesToTable(lines: Array<{ text: string; row: number }>, source?: string): ParsedTable {
+  const meaningful = lines.map((line) => ({ ...line, text: line.text.trim() })).filter((line) => line.text)
+  const isList = meaningful.some((line) => LIST_MARKER.test(line.text))
+
+  const items: Array<{ text: string; row: number }> = []
+  meaningful.forEach((line) => {
+    if (!isList || LIST_MARKER.test(line.text)) {
+      items.push({ text: stripListMarker(line.text), row: line.row })
+    } else if (items.length > 0) {
+      // Continuation of a wrapped list item
+      items[items.length - 1].text += ` ${line.text}`
+    }
+    // Text before the first list item (a title or instructions) is ignored
+  })
+
+  return itemsToTable(items, source)
+}
+
+// Map question types written the way people write them ("Behavioural", "Tech", "Scenario") onto our values
+export function normalizeQuestionType(value: string): QuestionType | null {
+  const key = value.toLowerCase().replace(/[^a-z]/g, "")
+
+  if (!key || ["general", "other", "misc", "miscellaneous"].includes(key)) return "general"
+  if (key.startsWith("behav")) return "behavioral"
+  if (key.startsWith("tech") || key === "coding") return "technical"
+  if (key.startsWith("situat") || key.startsWith("scenario") || key === "hypothetical") return "situational"
+
+  return null
+}
+
+// Map experience levels ("1-3 yrs", "Senior", "5+ years", "Entry level") onto our three bands.
+// Ranges are placed by their lower bound, so "2-4 years" counts as 1-3 years.
+export function normalizeExperienceLevel(value: string): ExperienceLevel | null {
+  const text = value.toLowerCase().trim()
+  const exact = EXPERIENCE_LEVELS.find((level) => level === text)
+  if (exact) return exact
+
+  const key = text.replace(/[^a-z]/g, "")
+  if (!text || ["fresher", "freshers", "fresh", "entry", "entrylevel", "graduate", "newgrad", "intern", "junior"].includes(key)) {
+    return "fresher"
+  }
+  if (["mid", "midlevel", "intermediate"].includes(key)) return "1-3-years"
+  if (["senior", "lead", "principal", "staff", "experienced"].includes(key)) return "3-plus-years"
+
+  // Numbers of years: "2", "1-3", "1 to 3 yrs", "5+ years", "< 1 year experience"
+  const years = text.match(/\d+(?:\.\d+)?/)
+  if (years && /^[\d\s.<>+\-–—to]*(?:yrs?|years?|y)?\s*(?:exp(?:erience)?)?\s*\+?$/.test(text)) {
+    const lowerBound = text.startsWith("<") ? 0 : Number(years[0])
+    return lowerBound < 1 ? "fresher" : lowerBound < 3 ? "1-3-years" : "3-plus-years"
+  }
+
+  return null
+}
+
+// Difficulty is optional (an empty cell gives ""); "Beginner", "Advanced" and 1-5 scales are mapped onto
+// easy, medium and hard
+export function normalizeDifficulty(value: string): QuestionDifficulty | "" | null {
+  const key = value.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+  if (!key) return ""
+  if (["easy", "beginner", "basic", "low", "simple", "1", "2"].includes(key)) return "easy"
+  if (["medium", "moderate", "intermediate", "mid", "average", "3"].includes(key)) return "medium"
+  if (["hard", "difficult", "advanced", "expert", "high", "challenging", "4", "5"].includes(key)) return "hard"
+
+  return null
+}
+
+export function rowValues(row: ParsedRow, mapping: ColumnMapping): RowValues {
+  return Object.fromEntries(
+    questionFields.map(({ key }) => [key, mapping[key] === undefined ? "" : row.cells[mapping[key]!] || ""]),
+  )
+}
+
+// Validate one row and normalize its type and level, recording every value that was changed
+export function reviewRow(values: RowValues, row: number, source?: string): RowReview {
+  const errors: string[] = []
+  const normalized: Normalization[] = []
+
+  const normalize = <T extends string>(field: QuestionField, normalizer: (value: string) => T | null, allowed: T[]) => {
+    const raw = (values[field] || "").trim()
+    const value = normalizer(raw)
+
+    if (value === null) {
+      errors.push(`Unknown ${field.replace("_", " ")} "${raw}" (expected ${allowed.join(", ")})`)
+    } else if (raw && raw !== value) {
+      normalized.push({ row, source, field, from: raw, to: value })
+    }
+
+    return value
+  }
+
+  const questionText = (values.question_text || "").replace(/\s+/g, " ").trim()
+  if (!questionText) {
+    errors.push("Missing question text")
+  } else if (questionText.length < MIN_QUESTION_LENGTH) {
+    errors.push(`Too short to be a question: "${questionText}"`)
+  }
+
+  const questionType = normalize("question_type", normalizeQuestionType, QUESTION_TYPES)
+  const experienceLevel = normalize("experience_level", normalizeExperienceLevel, EXPERIENCE_LEVELS)
+  const difficulty = normalize("difficulty", normalizeDifficulty, DIFFICULTIES)
+
+  // Skills must come from the taxonomy; anything else is kept as a tag rather than rejecting the row
+  const rawSkills = parseList(values.skills?.replace(/,/g, ";"))
+  const skills = Array.from(new Set(rawSkills.map(normalizeSkill).filter((skill): skill is string => !!skill)))
+  const unknownSkills = rawSkills.filter((skill) => !normalizeSkill(skill)).map((skill) => skill.toLowerCase())
+  if (rawSkills.length > 0 && rawSkills.join("; ") !== skills.join("; ")) {
+    const moved = unknownSkills.length > 0 ? ` (kept as tags: ${unknownSkills.join(", ")})` : ""
+    normalized.push({ row, source, field: "skills", from: rawSkills.join("; "), to: `${skills.join("; ")}${moved}` })
+  }
+
+  if (errors.length > 0) {
+    return { question: null, errors, normalized }
+  }
+
+  // Tags are often comma separated as well
+  const tags = parseList(values.tags?.replace(/,/g, ";")).map((tag) => tag.toLowerCase())
+
+  return {
+    question: {
+      question_text: questionText,
+      question_type: questionType!,
+      experience_level: experienceLevel!,
+      model_answer: (values.model_answer || "").trim() || null,
+      key_points: parseList(values.key_points),
+      red_flags: parseList(values.red_flags),
+      tags: Array.from(new Set([...tags, ...unknownSkills])),
+      skills,
+      difficulty: difficulty || null,
+    },
+    errors,
+    normalized,
+  }
+}
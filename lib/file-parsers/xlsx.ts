@@ -0,0 +1,45 @@
+import ExcelJS from "exceljs"
+import { mergeTables, tableFromRows, type ParsedTable } from "./questions"
+
+async function loadWorkbook(buffer: ArrayBuffer) {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+  return workbook
+}
+
+export async function listWorksheets(buffer: ArrayBuffer): Promise<string[]> {
+  const workbook = await loadWorkbook(buffer)
+  return workbook.worksheets.map((sheet) => sheet.name)
+}
+
+// Read one worksheet, or every non-empty worksheet when no sheet is chosen. Cells are read as their
+// displayed text so formulas, dates and rich text come through the way the recruiter sees them.
+export async function parseWorkbook(buffer: ArrayBuffer, sheetName?: string): Promise<ParsedTable> {
+  const workbook = await loadWorkbook(buffer)
+
+  const sheets = sheetName ? workbook.worksheets.filter((sheet) => sheet.name === sheetName) : workbook.worksheets
+  if (sheetName && sheets.length === 0) {
+    throw new Error(`Worksheet "${sheetName}" was not found in this workbook`)
+  }
+
+  const tables = sheets
+    .filter((sheet) => sheet.actualRowCount > 0)
+    .map((sheet) => {
+      const rows: string[][] = []
+      sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const cells: string[] = []
+        row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+          cells[columnNumber - 1] = cell.text
+        })
+        rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "")
+      })
+
+      return tableFromRows(Array.from(rows, (row) => row ?? []), sheet.name)
+    })
+
+  if (tables.length === 0) {
+    throw new Error("The workbook has no rows to import")
+  }
+
+  return mergeTables(tables)
+}
@@ -1,28 +1,22 @@
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai"
+import { generateStructured } from "@/lib/llm"
+import {
+  createFeedbackAnalysisJsonSchema,
+  createFeedbackAnalysisSchema,
+  followUpDecisionJsonSchema,
+  followUpDecisionSchema,
+  generatedQuestionsJsonSchema,
+  generatedQuestionsSchema,
+  type AnswerReference,
+  type FeedbackAnalysis,
+  type FollowUpDecision,
+  type GeneratedQuestion,
+} from "@/lib/ai-schemas"
+import type { Rubric } from "@/lib/rubrics"
+import { skillLabel, skills as skillTaxonomy } from "@/lib/skills"
 
-// Initialize the Google Generative AI with your API key
-const apiKey = process.env.GOOGLE_AI_API_KEY!
-const genAI = new GoogleGenerativeAI(apiKey)
-
-// Configure safety settings
-const safetySettings = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-]
+export type ResponseAnalysis =
+  | ({ analysis_status: "completed"; rubric_id: string; confidence_score: number } & FeedbackAnalysis)
+  | { analysis_status: "unavailable"; analysis_error: string }
 
 // Generate interview questions based on job role and industry
 export async function generateInterviewQuestions({
@@ -30,54 +24,61 @@ export async function generateInterviewQuestions({
   industry,
   difficulty,
   count = 5,
+  targetSkills = [],
 }: {
   jobRole: string
   industry: string | null
   difficulty: string | null
   count?: number
-}) {
+  targetSkills?: string[]
+}): Promise<GeneratedQuestion[]> {
   try {
-    // Get the Gemini model - using gemini-1.5-flash instead of gemini-flash-2.0
-    const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
-      safetySettings,
-    })
+    const focus =
+      targetSkills.length > 0
+        ? `
+    Focus on these skills; every question should exercise at least one of them: ${targetSkills.map(skillLabel).join(", ")}.
+`
+        : ""
 
     // Create the prompt
     const prompt = `Generate ${count} realistic interview questions for a ${difficulty || "intermediate"} level ${jobRole} position ${
       industry ? `in the ${industry} industry` : ""
     }.
-
+    ${focus}
     For each question, include:
     1. The question text
     2. The question type (behavioral, technical, situational, or general)
+    3. The skills it assesses, as keys from this list (usually one or two):
+       ${skillTaxonomy.map((skill) => `${skill.key} (${skill.label})`).join(", ")}
+    4. A few short lowercase tags for the topics it covers
 
-    Return the response as a valid JSON array with objects containing 'question_text' and 'question_type' fields.
+    Return a JSON object with a "questions" array whose items have 'question_text', 'question_type', 'skills' and 'tags' fields.
     
     Example format:
-    [
-      {
-        "question_text": "Tell me about a time when you had to solve a complex problem under tight deadlines.",
-        "question_type": "behavioral"
-      },
-      {
-        "question_text": "How would you optimize a slow-loading web application?",
-        "question_type": "technical"
-      }
-    ]`
-
-    // Generate content
-    const result = await model.generateContent(prompt)
-    const response = await result.response
-    const text = response.text()
+    {
+      "questions": [
+        {
+          "question_text": "Tell me about a time when you had to solve a complex problem under tight deadlines.",
+          "question_type": "behavioral",
+          "skills": ["prioritization", "handling-ambiguity"],
+          "tags": ["deadlines"]
+        },
+        {
+          "question_text": "How would you optimize a slow-loading web application?",
+          "question_type": "technical",
+          "skills": ["web-performance"],
+          "tags": ["frontend", "performance"]
+        }
+      ]
+    }`
 
-    // Extract JSON from the response
-    const jsonMatch = text.match(/\[[\s\S]*\]/)
-    if (!jsonMatch) {
-      throw new Error("Failed to parse JSON from response")
-    }
+    // Generate and validate the questions with the model configured for question generation
+    const { questions } = await generateStructured(
+      "questions",
+      { prompt },
+      { schema: generatedQuestionsSchema, responseSchema: generatedQuestionsJsonSchema },
+    )
 
-    const questions = JSON.parse(jsonMatch[0])
     return questions
   } catch (error) {
     console.error("Error generating interview questions:", error)
@@ -86,25 +87,44 @@ export async function generateInterviewQuestions({
   }
 }
 
+// Reference material is for grading only; key points and red flags are echoed back verbatim so they can be matched
+function formatReference({ modelAnswer, keyPoints, redFlags }: AnswerReference) {
+  const lines = ["", "    Compare the response against the recruiter's reference material below. Do not quote it back to the candidate."]
+
+  if (modelAnswer) {
+    lines.push(`    Model answer: "${modelAnswer}"`)
+  }
+
+  if (keyPoints.length > 0) {
+    lines.push("    Key points the answer should mention. Copy each one verbatim into either 'key_points_covered' or 'key_points_missed':")
+    lines.push(...keyPoints.map((point) => `    - ${point}`))
+  }
+
+  if (redFlags.length > 0) {
+    lines.push("    Red flags. Copy any the response exhibits verbatim into 'red_flags_triggered' and reflect them in the scores:")
+    lines.push(...redFlags.map((flag) => `    - ${flag}`))
+  }
+
+  return lines.join("\n")
+}
+
 // Analyze a response to an interview question
 export async function analyzeResponse({
   question,
   response,
   responseType,
   jobRole,
+  rubric,
+  reference,
 }: {
   question: string
   response: string
   responseType: "text" | "video" | "audio"
   jobRole: string
-}) {
+  rubric: Rubric
+  reference?: AnswerReference
+}): Promise<ResponseAnalysis> {
   try {
-    // Get the Gemini model - using gemini-1.5-flash instead of gemini-flash-2.0
-    const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
-      safetySettings,
-    })
-
     // Create the prompt
     const prompt = `Analyze the following ${responseType} response to an interview question for a ${jobRole} position.
 
@@ -116,69 +136,80 @@ export async function analyzeResponse({
     1. Overall feedback on the quality and relevance of the response
     2. Specific strengths (list at least 3)
     3. Areas for improvement (list at least 3)
-    4. A confidence score from 0.0 to 1.0 indicating how well the response answers the question
+    4. A score from 1 (poor) to 5 (excellent) for each rubric dimension below, with a one or two sentence justification
+
+    Rubric (${rubric.title}):
+${rubric.dimensions.map((d) => `    - ${d.key} (${d.label}): ${d.description}`).join("\n")}
+${reference ? formatReference(reference) : ""}
     
     If this was a video or audio response, also analyze:
     - Voice tone and clarity
     - Pacing and delivery
     - Non-verbal communication cues (if applicable)
     
-    Return the response as a valid JSON object with 'feedback_text', 'strengths', 'improvement_areas', and 'confidence_score' fields.
+    Return the response as a valid JSON object with 'feedback_text', 'strengths', 'improvement_areas', and 'dimension_scores' fields.
     
     Example format:
     {
       "feedback_text": "Your response effectively addressed the question with specific examples...",
       "strengths": ["Clear communication", "Relevant examples", "Structured answer"],
       "improvement_areas": ["Could provide more specific metrics", "Consider addressing potential challenges", "Elaborate on technical details"],
-      "confidence_score": 0.85
+      "dimension_scores": [
+        { "dimension": "${rubric.dimensions[0].key}", "score": 4, "justification": "..." }
+      ]
     }`
 
-    // Generate content
-    const result = await model.generateContent(prompt)
-    const responseText = await result.response
-    const text = responseText.text()
+    // Generate and validate the analysis with the model configured for grading
+    const analysis = await generateStructured(
+      "grading",
+      { prompt },
+      {
+        schema: createFeedbackAnalysisSchema(rubric, reference),
+        responseSchema: createFeedbackAnalysisJsonSchema(rubric, reference),
+      },
+    )
 
-    // Extract JSON from the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error("Failed to parse JSON from response")
-    }
+    // The overall score is the mean dimension score mapped from 1-5 onto 0-1
+    const meanScore = analysis.dimension_scores.reduce((sum, d) => sum + d.score, 0) / analysis.dimension_scores.length
+    const confidenceScore = Math.round(((meanScore - 1) / 4) * 100) / 100
 
-    const analysis = JSON.parse(jsonMatch[0])
-    return analysis
+    return { analysis_status: "completed", rubric_id: rubric.id, confidence_score: confidenceScore, ...analysis }
   } catch (error) {
     console.error("Error analyzing response:", error)
-    // Return default feedback if there's an error
-    return generateDefaultFeedback()
+    // Report the failure instead of inventing a score
+    return { analysis_status: "unavailable", analysis_error: (error as Error).message }
   }
 }
 
-// Transcribe audio or video to text
-export async function transcribeMedia({
-  mediaUrl,
-  mediaType,
+// Decide whether to probe deeper on the latest answer. `thread` is the original question followed by any follow-ups so far.
+export async function generateFollowUpQuestion({
+  jobRole,
+  thread,
 }: {
-  mediaUrl: string
-  mediaType: "audio" | "video"
-}) {
+  jobRole: string
+  thread: Array<{ question: string; answer: string }>
+}): Promise<FollowUpDecision | null> {
   try {
-    // In a real implementation, you would use a speech-to-text API here
-    // For now, we'll return a simulated transcription
-    // This is a placeholder for where you would integrate with a transcription service
+    const prompt = `You are interviewing a candidate for a ${jobRole} position. Here is the conversation so far on one topic:
+
+${thread.map((turn, index) => `    Q${index + 1}: "${turn.question}"\n    A${index + 1}: "${turn.answer}"`).join("\n\n")}
 
-    // For a real implementation, you could use:
-    // 1. Google Cloud Speech-to-Text API
-    // 2. OpenAI Whisper API
-    // 3. AssemblyAI
-    // 4. Other transcription services
+    Decide whether a real interviewer would ask a probing follow-up to the last answer. Ask one when the answer is vague,
+    skips how or why, makes a claim without evidence, or opens an interesting thread worth drilling into.
+    Do not ask one if the answer is already thorough, or if the follow-up would just repeat an earlier question.
 
-    // Simulated delay to mimic processing time
-    await new Promise((resolve) => setTimeout(resolve, 2000))
+    Return a JSON object with 'ask_follow_up' (boolean), 'question_text' (the follow-up, addressed to the candidate,
+    or an empty string) and 'reason' (one sentence explaining the decision).`
 
-    return "I believe I'm well-suited for this position because of my experience and skills in this field. I've worked on similar projects in the past and have developed the necessary expertise to handle the challenges of this role effectively. I'm particularly proud of my ability to collaborate with cross-functional teams and deliver results on time and within budget."
+    return await generateStructured(
+      "follow_up",
+      { prompt },
+      { schema: followUpDecisionSchema, responseSchema: followUpDecisionJsonSchema },
+    )
   } catch (error) {
-    console.error(`Error transcribing ${mediaType}:`, error)
-    return "I believe I'm well-suited for this position because of my experience and skills in this field. I've worked on similar projects in the past and have developed the necessary expertise to handle the challenges of this role effectively."
+    console.error("Error generating follow-up question:", error)
+    // Carry on with the planned questions rather than blocking the session
+    return null
   }
 }
 
@@ -400,14 +431,3 @@ function shuffleArray(array: any[]) {
   }
   return newArray
 }
-
-// Function to generate default feedback
-function generateDefaultFeedback() {
-  return {
-    feedback_text:
-      "Your response addresses the question, but could be more specific and detailed. Consider providing concrete examples from your experience to support your points. Overall, your answer demonstrates a good understanding of the topic, but adding more depth would make it stronger.",
-    strengths: ["Good communication", "Relevant points", "Clear structure"],
-    improvement_areas: ["Add more specific examples", "Elaborate on key points", "Connect to the job role"],
-    confidence_score: 0.7,
-  }
-}
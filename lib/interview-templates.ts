@@ -1,3 +1,5 @@
+import type { InterviewTiming } from "@/lib/interview-timing"
+
 export interface InterviewTemplate {
   id: string
   title: string
@@ -7,6 +9,7 @@ export interface InterviewTemplate {
   description: string
   questionTypes: Array<"behavioral" | "technical" | "situational" | "general">
   icon: string // Lucide icon name
+  timing?: InterviewTiming // Omit for untimed practice
 }
 
 export const interviewTemplates: InterviewTemplate[] = [
@@ -20,6 +23,7 @@ export const interviewTemplates: InterviewTemplate[] = [
       "Practice common software engineering interview questions covering coding, system design, and problem-solving.",
     questionTypes: ["technical", "behavioral", "situational"],
     icon: "Code",
+    timing: { answerTimeLimitSeconds: 120, prepTimeSeconds: 30, interviewTimeLimitMinutes: 20 },
   },
   {
     id: "product-manager",
@@ -31,6 +35,7 @@ export const interviewTemplates: InterviewTemplate[] = [
       "Prepare for product management interviews with questions on product strategy, execution, and leadership.",
     questionTypes: ["behavioral", "situational", "general"],
     icon: "Briefcase",
+    timing: { answerTimeLimitSeconds: 180, prepTimeSeconds: 30, interviewTimeLimitMinutes: 25 },
   },
   {
     id: "data-scientist",
@@ -41,6 +46,7 @@ export const interviewTemplates: InterviewTemplate[] = [
     description: "Practice data science interview questions covering statistics, machine learning, and data analysis.",
     questionTypes: ["technical", "behavioral", "situational"],
     icon: "BarChart",
+    timing: { answerTimeLimitSeconds: 150, prepTimeSeconds: 30, interviewTimeLimitMinutes: 25 },
   },
   {
     id: "ux-designer",
@@ -73,6 +79,7 @@ export const interviewTemplates: InterviewTemplate[] = [
       "Prepare for sales interviews with questions on sales techniques, customer relationships, and objection handling.",
     questionTypes: ["behavioral", "situational", "general"],
     icon: "DollarSign",
+    timing: { answerTimeLimitSeconds: 90, prepTimeSeconds: 15, interviewTimeLimitMinutes: 15 },
   },
   {
     id: "project-manager",
@@ -95,6 +102,7 @@ export const interviewTemplates: InterviewTemplate[] = [
       "Prepare for customer support interviews with questions on communication, problem-solving, and customer satisfaction.",
     questionTypes: ["behavioral", "situational", "general"],
     icon: "HeadsetHelp",
+    timing: { answerTimeLimitSeconds: 90, prepTimeSeconds: 15, interviewTimeLimitMinutes: 15 },
   },
 ]
 
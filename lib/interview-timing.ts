@@ -0,0 +1,64 @@
+// Timing rules for an interview. Null means "no limit".
+export interface InterviewTiming {
+  answerTimeLimitSeconds: number | null // Per question, after preparation time
+  prepTimeSeconds: number | null // Reading time before the answer clock starts
+  interviewTimeLimitMinutes: number | null // Whole interview, from the first question being shown
+}
+
+export const untimed: InterviewTiming = {
+  answerTimeLimitSeconds: null,
+  prepTimeSeconds: null,
+  interviewTimeLimitMinutes: null,
+}
+
+// Uploads and grading take a moment after the clock runs out, so the server allows a little slack
+export const TIME_LIMIT_GRACE_SECONDS = 60
+
+export function isTimed(timing: InterviewTiming) {
+  return !!(timing.answerTimeLimitSeconds || timing.prepTimeSeconds || timing.interviewTimeLimitMinutes)
+}
+
+// Timing columns as stored on interviews and companies
+export function timingFromRow(row: {
+  answer_time_limit_seconds: number | null
+  prep_time_seconds: number | null
+  time_limit_minutes: number | null
+}): InterviewTiming {
+  return {
+    answerTimeLimitSeconds: row.answer_time_limit_seconds,
+    prepTimeSeconds: row.prep_time_seconds,
+    interviewTimeLimitMinutes: row.time_limit_minutes,
+  }
+}
+
+// The same rules as timing columns, checked so a bad value can't make a test unanswerable
+export function timingToRow(timing: InterviewTiming) {
+  const check = (value: number | null, label: string, min: number) => {
+    if (value === null) return null
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(`${label} must be a whole number of at least ${min}`)
+    }
+    return value
+  }
+
+  return {
+    answer_time_limit_seconds: check(timing.answerTimeLimitSeconds, "Answer time limit", 1),
+    prep_time_seconds: check(timing.prepTimeSeconds, "Preparation time", 0),
+    time_limit_minutes: check(timing.interviewTimeLimitMinutes, "Interview time limit", 1),
+  }
+}
+
+export function formatCountdown(seconds: number) {
+  const safe = Math.max(0, Math.ceil(seconds))
+  const mins = Math.floor(safe / 60)
+  const secs = safe % 60
+  return `${mins}:${secs.toString().padStart(2, "0")}`
+}
+
+export function describeTiming(timing: InterviewTiming) {
+  const parts: string[] = []
+  if (timing.prepTimeSeconds) parts.push(`${timing.prepTimeSeconds}s to prepare`)
+  if (timing.answerTimeLimitSeconds) parts.push(`${formatCountdown(timing.answerTimeLimitSeconds)} per answer`)
+  if (timing.interviewTimeLimitMinutes) parts.push(`${timing.interviewTimeLimitMinutes} min overall`)
+  return parts.join(" • ")
+}
@@ -0,0 +1,66 @@
+import { readFileSync } from "fs"
+import type { LLMProvider, LLMRequest, LLMTask } from "./types"
+
+const defaultFixtures: Record<LLMTask, unknown | ((request: LLMRequest) => unknown)> = {
+  questions: {
+    questions: [
+      {
+        question_text: "Tell me about a time when you had to solve a complex problem under tight deadlines.",
+        question_type: "behavioral",
+      },
+      {
+        question_text: "How would you optimize a slow-loading web application?",
+        question_type: "technical",
+      },
+      {
+        question_text: "How would you handle a disagreement with a teammate about the direction of a project?",
+        question_type: "situational",
+      },
+      {
+        question_text: "What motivates you in your work?",
+        question_type: "general",
+      },
+      {
+        question_text: "Describe a project you are proud of and your role in it.",
+        question_type: "behavioral",
+      },
+    ],
+  },
+  // Score whichever rubric dimensions the request's schema asks for and mark every key point as covered
+  grading: (request: LLMRequest) => ({
+    feedback_text: "Fixture feedback: the response addresses the question with a concrete example.",
+    strengths: ["Relevant example", "Clear structure", "Concise delivery"],
+    improvement_areas: ["Quantify the outcome", "Explain trade-offs", "Mention what you learned"],
+    dimension_scores: (request.responseSchema?.properties?.dimension_scores?.items?.properties?.dimension?.enum || []).map(
+      (dimension) => ({ dimension, score: 4, justification: `Fixture justification for ${dimension}.` }),
+    ),
+    key_points_covered: request.responseSchema?.properties?.key_points_covered?.items?.enum || [],
+    key_points_missed: [],
+    red_flags_triggered: [],
+  }),
+  follow_up: {
+    ask_follow_up: true,
+    question_text: "Can you walk me through the specific steps you took and why you chose them?",
+    reason: "The answer summarized the outcome without explaining the approach.",
+  },
+}
+
+// Deterministic provider for tests and CI. Set LLM_FIXTURES_PATH to a JSON file keyed by task to override.
+export function createFixtureProvider(): LLMProvider {
+  const fixtures = process.env.LLM_FIXTURES_PATH
+    ? { ...defaultFixtures, ...JSON.parse(readFileSync(process.env.LLM_FIXTURES_PATH, "utf8")) }
+    : defaultFixtures
+
+  return {
+    name: "fixture",
+    async generate(task: LLMTask, request: LLMRequest) {
+      const fixture = typeof fixtures[task] === "function" ? fixtures[task](request) : fixtures[task]
+
+      if (fixture === undefined) {
+        throw new Error(`No fixture configured for task "${task}"`)
+      }
+
+      return typeof fixture === "string" ? fixture : JSON.stringify(fixture)
+    },
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  HarmCategory,
+  HarmBlockThreshold,
+  type ResponseSchema,
+} from "@google/generative-ai"
+import {
+  LLMRequestError,
+  type JsonSchema,
+  type LLMCallOptions,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMTask,
+} from "./types"
+
+// Configure safety settings
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+]
+
+export function createGeminiProvider(): LLMProvider {
+  const apiKey = process.env.GOOGLE_AI_API_KEY
+
+  if (!apiKey) {
+    throw new Error("Missing env.GOOGLE_AI_API_KEY")
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey)
+
+  return {
+    name: "gemini",
+    async generate(_task: LLMTask, request: LLMRequest, { model, signal }: LLMCallOptions) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        safetySettings,
+        systemInstruction: request.system,
+        generationConfig: {
+          temperature: request.temperature,
+          responseMimeType: request.json || request.responseSchema ? "application/json" : undefined,
+          responseSchema: request.responseSchema ? toGeminiSchema(request.responseSchema) : undefined,
+        },
+      })
+
+      try {
+        const result = await generativeModel.generateContent(request.prompt, { signal })
+        return result.response.text()
+      } catch (error) {
+        if (signal.aborted) throw error
+        const status = error instanceof GoogleGenerativeAIFetchError ? error.status : undefined
+        const message = error instanceof Error ? error.message : String(error)
+        throw new LLMRequestError(`Gemini request failed: ${message}`, { status })
+      }
+    },
+  }
+}
+
+// Gemini wants string enums flagged with format: "enum"
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  return {
+    ...schema,
+    ...(schema.enum ? { format: "enum" } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]),
+          ),
+        }
+      : {}),
+  } as ResponseSchema
+}
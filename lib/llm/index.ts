@@ -0,0 +1,85 @@
+import { createFixtureProvider } from "./fixture"
+import { createGeminiProvider } from "./gemini"
+import { createOllamaProvider } from "./ollama"
+import { createOpenAICompatibleProvider } from "./openai"
+import { LLMRequestError, type LLMProvider, type LLMRequest, type LLMTask } from "./types"
+
+export { LLMRequestError } from "./types"
+export type { JsonSchema, LLMProvider, LLMRequest, LLMTask } from "./types"
+export { generateStructured, StructuredOutputError } from "./structured"
+
+const defaultModels: Record<string, string> = {
+  gemini: "gemini-1.5-flash",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  fixture: "fixture",
+}
+
+let providerInstance: LLMProvider | null = null
+
+// Pick the provider configured by LLM_PROVIDER (gemini | openai | ollama | fixture)
+export function getLLMProvider(): LLMProvider {
+  if (providerInstance) return providerInstance
+
+  const provider = process.env.LLM_PROVIDER || "gemini"
+
+  switch (provider) {
+    case "gemini":
+      providerInstance = createGeminiProvider()
+      break
+    case "openai":
+      providerInstance = createOpenAICompatibleProvider()
+      break
+    case "ollama":
+      providerInstance = createOllamaProvider()
+      break
+    case "fixture":
+      providerInstance = createFixtureProvider()
+      break
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`)
+  }
+
+  return providerInstance
+}
+
+// LLM_MODEL_<TASK> overrides LLM_MODEL, which overrides the provider default
+export function getModelForTask(task: LLMTask, providerName: string) {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL || defaultModels[providerName]
+}
+
+const MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES ?? 2)
+const TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS ?? 30000)
+const BASE_BACKOFF_MS = 500
+
+// Run a task against the configured provider with a per-attempt timeout and exponential backoff
+export async function generateText(task: LLMTask, request: LLMRequest): Promise<string> {
+  const provider = getLLMProvider()
+  const model = getModelForTask(task, provider.name)
+
+  let lastError: unknown
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), TIMEOUT_MS)
+
+    try {
+      return await provider.generate(task, request, { model, signal: controller.signal })
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new LLMRequestError(`${provider.name} request timed out after ${TIMEOUT_MS}ms`)
+        : error
+
+      const retryable = !(lastError instanceof LLMRequestError) || lastError.retryable
+      if (!retryable || attempt === MAX_RETRIES) break
+
+      const delay = BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS
+      console.warn(`LLM ${task} attempt ${attempt + 1} failed (${(lastError as Error).message}), retrying in ${Math.round(delay)}ms`)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  throw lastError
+}
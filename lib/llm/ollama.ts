@@ -0,0 +1,35 @@
+import { LLMRequestError, type LLMCallOptions, type LLMProvider, type LLMRequest, type LLMTask } from "./types"
+
+// Local Ollama server (llama.cpp servers can use the OpenAI-compatible provider instead)
+export function createOllamaProvider(): LLMProvider {
+  const baseUrl = (process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/$/, "")
+
+  return {
+    name: "ollama",
+    async generate(_task: LLMTask, request: LLMRequest, { model, signal }: LLMCallOptions) {
+      const response = await fetch(`${baseUrl}/api/generate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          prompt: request.prompt,
+          system: request.system,
+          format: request.responseSchema || (request.json ? "json" : undefined),
+          stream: false,
+          options: request.temperature !== undefined ? { temperature: request.temperature } : undefined,
+        }),
+        signal,
+      })
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "")
+        throw new LLMRequestError(`Ollama responded with ${response.status}: ${body.substring(0, 200)}`, {
+          status: response.status,
+        })
+      }
+
+      const result = await response.json()
+      return result.response || ""
+    },
+  }
+}
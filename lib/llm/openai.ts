@@ -0,0 +1,46 @@
+import { LLMRequestError, type LLMCallOptions, type LLMProvider, type LLMRequest, type LLMTask } from "./types"
+
+// Any server speaking the OpenAI chat completions API: OpenAI, vLLM, llama.cpp's llama-server, LM Studio, ...
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "")
+  const apiKey = process.env.OPENAI_API_KEY
+
+  return {
+    name: "openai",
+    async generate(task: LLMTask, request: LLMRequest, { model, signal }: LLMCallOptions) {
+      const messages = [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        { role: "user", content: request.prompt },
+      ]
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature,
+          response_format: request.responseSchema
+            ? { type: "json_schema", json_schema: { name: `${task}_response`, schema: request.responseSchema } }
+            : request.json
+              ? { type: "json_object" }
+              : undefined,
+        }),
+        signal,
+      })
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "")
+        throw new LLMRequestError(`OpenAI-compatible server responded with ${response.status}: ${body.substring(0, 200)}`, {
+          status: response.status,
+        })
+      }
+
+      const result = await response.json()
+      return result.choices?.[0]?.message?.content || ""
+    },
+  }
+}
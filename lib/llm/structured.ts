@@ -0,0 +1,61 @@
+import type { ZodType, ZodTypeDef } from "zod"
+import { generateText } from "./index"
+import type { JsonSchema, LLMRequest, LLMTask } from "./types"
+
+const MAX_REPAIR_ATTEMPTS = Number(process.env.LLM_REPAIR_ATTEMPTS ?? 2)
+
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StructuredOutputError"
+  }
+}
+
+// Models occasionally wrap JSON in a markdown fence even in JSON mode
+function parseJson(text: string): unknown {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  return JSON.parse(fenced ? fenced[1] : trimmed)
+}
+
+// Generate a JSON document and validate it, feeding validation errors back to the model until it complies
+export async function generateStructured<T>(
+  task: LLMTask,
+  request: LLMRequest,
+  { schema, responseSchema }: { schema: ZodType<T, ZodTypeDef, unknown>; responseSchema: JsonSchema },
+): Promise<T> {
+  let prompt = request.prompt
+  let lastProblem = ""
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const text = await generateText(task, { ...request, prompt, json: true, responseSchema })
+
+    let candidate: unknown
+    try {
+      candidate = parseJson(text)
+    } catch (error) {
+      lastProblem = `The reply was not valid JSON (${(error as Error).message}).`
+    }
+
+    if (candidate !== undefined) {
+      const result = schema.safeParse(candidate)
+      if (result.success) {
+        return result.data
+      }
+
+      lastProblem = result.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")
+    }
+
+    console.warn(`Structured ${task} output failed validation (attempt ${attempt + 1}): ${lastProblem}`)
+
+    prompt = `${request.prompt}
+
+    Your previous reply could not be used: ${lastProblem}
+    Reply again with only a JSON document that matches this schema:
+    ${JSON.stringify(responseSchema)}`
+  }
+
+  throw new StructuredOutputError(`Model output for ${task} failed validation: ${lastProblem}`)
+}
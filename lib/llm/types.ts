@@ -0,0 +1,43 @@
+// Each task can be routed to its own model (see getModelForTask)
+export type LLMTask = "questions" | "grading" | "follow_up"
+
+// The subset of JSON Schema that Gemini, OpenAI and Ollama structured output all understand
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean"
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: string[]
+}
+
+export interface LLMRequest {
+  prompt: string
+  system?: string
+  json?: boolean // Ask the model for a bare JSON document
+  responseSchema?: JsonSchema // Constrain the JSON document to this shape where the provider supports it
+  temperature?: number
+}
+
+export interface LLMCallOptions {
+  model: string
+  signal: AbortSignal
+}
+
+export interface LLMProvider {
+  name: string
+  generate(task: LLMTask, request: LLMRequest, options: LLMCallOptions): Promise<string>
+}
+
+export class LLMRequestError extends Error {
+  status?: number
+  retryable: boolean
+
+  constructor(message: string, { status, retryable }: { status?: number; retryable?: boolean } = {}) {
+    super(message)
+    this.name = "LLMRequestError"
+    this.status = status
+    // Rate limits and server errors are worth retrying, bad requests are not
+    this.retryable = retryable ?? (status === undefined || status === 429 || status >= 500)
+  }
+}
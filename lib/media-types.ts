@@ -0,0 +1,18 @@
+// File extensions for the containers browsers record in (see pickMimeType in lib/recording.ts), so a
+// recording's name matches its content when it is stored or sent to a speech-to-text server
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/mp4": "m4a",
+  "video/mp4": "mp4",
+  "audio/x-m4a": "m4a",
+  "audio/ogg": "ogg",
+  "video/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+}
+
+// Ignores codec parameters, e.g. "audio/webm;codecs=opus" is a webm file
+export function extensionForMimeType(mimeType: string, fallback = "webm") {
+  return EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] || fallback
+}
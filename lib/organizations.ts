@@ -0,0 +1,40 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type QuestionVisibility = "private" | "public"
+
+export const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS ?? 14)
+
+// No 0/O or 1/I, so codes read out in a classroom are typed correctly
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const JOIN_CODE_LENGTH = 8
+
+export function generateJoinCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH))
+  return Array.from(bytes, (byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join("")
+}
+
+export function normalizeJoinCode(code: string) {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+// PostgREST `or` filters. Users see their organization's questions plus anything shared publicly,
+// and their organization's companies plus the shared catalog.
+export function visibleQuestionsFilter(organizationId: string | null) {
+  return organizationId ? `organization_id.eq.${organizationId},visibility.eq.public` : "visibility.eq.public"
+}
+
+export function visibleCompaniesFilter(organizationId: string | null) {
+  return organizationId ? `organization_id.eq.${organizationId},organization_id.is.null` : "organization_id.is.null"
+}
+
+// Works with both the browser and server clients
+export async function getOrganizationId(supabase: SupabaseClient<any, any, any>): Promise<string | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  const { data: profile } = await supabase.from("profiles").select("organization_id").eq("id", user.id).maybeSingle()
+  return profile?.organization_id ?? null
+}
@@ -0,0 +1,137 @@
+import { serializeCSV } from "@/lib/file-parsers/csv"
+import { questionFields, type QuestionField } from "@/lib/file-parsers/questions"
+
+export type ExportFormat = "csv" | "json" | "markdown"
+
+// A company_questions row as returned by fetchRecruiterQuestions
+export interface ExportableQuestion {
+  id: string
+  question_text: string
+  question_type: string | null
+  experience_level: string
+  order_number: number
+  model_answer: string | null
+  key_points: string[] | null
+  red_flags: string[] | null
+  tags: string[] | null
+  skills: string[] | null
+  difficulty: string | null
+  companies?: { name: string } | null
+  [column: string]: unknown
+}
+
+// The question bank filters, shared by QuestionManager and the export route so exports match the screen
+export interface QuestionFilter {
+  type: string
+  level: string
+  tag: string
+  skill: string
+  search: string
+}
+
+export function filterQuestions<
+  T extends Pick<ExportableQuestion, "question_text" | "question_type" | "experience_level" | "tags" | "skills">,
+>(questions: T[], filter: QuestionFilter): T[] {
+  return questions.filter((question) => {
+    const matchesType = filter.type === "all" || question.question_type === filter.type
+    const matchesLevel = filter.level === "all" || question.experience_level === filter.level
+    const matchesTag = filter.tag === "all" || !!question.tags?.includes(filter.tag)
+    const matchesSkill = filter.skill === "all" || !!question.skills?.includes(filter.skill)
+    const matchesSearch = !filter.search || question.question_text.toLowerCase().includes(filter.search.toLowerCase())
+
+    return matchesType && matchesLevel && matchesTag && matchesSkill && matchesSearch
+  })
+}
+
+const levelLabels: Record<string, string> = {
+  fresher: "Fresher",
+  "1-3-years": "1-3 Years",
+  "3-plus-years": "3+ Years",
+}
+
+// What a candidate shouldn't see; every format can leave these out
+const ANSWER_FIELDS = ["model_answer", "key_points", "red_flags"] as const
+
+const cellValue = (question: ExportableQuestion, field: QuestionField) => {
+  const value = question[field]
+  return Array.isArray(value) ? value.join("; ") : value == null ? "" : String(value)
+}
+
+// Same headers and list separators the importer expects, so the file can be edited and uploaded again.
+// Without answers the columns stay, empty, so the file still imports.
+export function questionsToCSV(questions: ExportableQuestion[], { includeAnswers = true } = {}): string {
+  const isHidden = (field: QuestionField) =>
+    !includeAnswers && (ANSWER_FIELDS as readonly QuestionField[]).includes(field)
+
+  return serializeCSV([
+    questionFields.map((field) => field.label),
+    ...questions.map((question) =>
+      questionFields.map((field) => (isHidden(field.key) ? "" : cellValue(question, field.key))),
+    ),
+  ])
+}
+
+export function questionsToJSON(questions: ExportableQuestion[], { includeAnswers = true } = {}): string {
+  const exported = includeAnswers
+    ? questions
+    : questions.map((question) => {
+        const withoutAnswers = { ...question }
+        ANSWER_FIELDS.forEach((field) => delete withoutAnswers[field])
+        return withoutAnswers
+      })
+
+  return JSON.stringify(
+    { exported_at: new Date().toISOString(), count: questions.length, questions: exported },
+    null,
+    2,
+  )
+}
+
+// Printable handout grouped by company and experience level. Answers, key points and red flags are only
+// included when asked for, since handouts are usually given to candidates.
+export function questionsToMarkdown(questions: ExportableQuestion[], { includeAnswers = false } = {}): string {
+  const lines = ["# Interview Questions", ""]
+  const byCompany = new Map<string, ExportableQuestion[]>()
+
+  questions.forEach((question) => {
+    const company = question.companies?.name || "General"
+    byCompany.set(company, [...(byCompany.get(company) || []), question])
+  })
+
+  Array.from(byCompany.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .forEach((company) => {
+      lines.push(`## ${company}`, "")
+
+      Object.keys(levelLabels).forEach((level) => {
+        const levelQuestions = byCompany
+          .get(company)!
+          .filter((question) => question.experience_level === level)
+          .sort((a, b) => a.order_number - b.order_number)
+        if (levelQuestions.length === 0) return
+
+        lines.push(`### ${levelLabels[level]}`, "")
+
+        levelQuestions.forEach((question, index) => {
+          const details = [question.question_type, question.difficulty].filter(Boolean).join(", ")
+          lines.push(`${index + 1}. ${question.question_text.replace(/\s*\n\s*/g, " ")}${details ? ` _(${details})_` : ""}`)
+
+          if (includeAnswers) {
+            if (question.model_answer) {
+              lines.push(`   - **Model answer:** ${question.model_answer.replace(/\s*\n\s*/g, " ")}`)
+            }
+            if (question.key_points?.length) {
+              lines.push(`   - **Key points:** ${question.key_points.join("; ")}`)
+            }
+            if (question.red_flags?.length) {
+              lines.push(`   - **Red flags:** ${question.red_flags.join("; ")}`)
+            }
+          }
+        })
+
+        lines.push("")
+      })
+    })
+
+  return lines.join("\n")
+}
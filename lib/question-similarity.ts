@@ -0,0 +1,131 @@
+import { createHash } from "crypto"
+
+// Duplicate detection for the question bank. Exact duplicates share a hash of their normalized text;
+// near duplicates (rewordings, pluralisation, extra filler words) are found by comparing word and
+// character trigram overlap. Scores are between 0 and 1.
+
+export const DUPLICATE_THRESHOLD = Number(process.env.QUESTION_DUPLICATE_THRESHOLD ?? 0.75)
+
+// Lowercase words and numbers only, so punctuation and spacing don't tell two questions apart
+export function normalizeQuestionText(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+export function questionTextHash(text: string) {
+  return createHash("md5").update(normalizeQuestionText(text)).digest("hex")
+}
+
+// Words that carry no meaning of their own in an interview question
+const STOP_WORDS = new Set(
+  [
+    "a an and are as at be about by can could do does did for from how i in is it me my of on or",
+    "please our so tell that the this to us was we what when where which who why will with would you your",
+  ]
+    .join(" ")
+    .split(" "),
+)
+
+function contentWords(text: string) {
+  return (
+    normalizeQuestionText(text)
+      .split(" ")
+      .filter((word) => word && !STOP_WORDS.has(word))
+      // Light stemming so "project" and "projects", "handle" and "handled" match
+      .map((word) => word.replace(/(ing|ed|es|s)$/, "") || word)
+  )
+}
+
+// Trigrams of the content words, so filler words don't count against a match but typos and
+// compound words ("microservices" and "micro services") still score partially
+function trigrams(words: string[]) {
+  const normalized = ` ${words.join(" ")} `
+  const grams = new Set<string>()
+  for (let i = 0; i < normalized.length - 2; i++) {
+    grams.add(normalized.slice(i, i + 3))
+  }
+  return grams
+}
+
+function dice(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  a.forEach((item) => {
+    if (b.has(item)) shared++
+  })
+  return (2 * shared) / (a.size + b.size)
+}
+
+// Precomputed features, so comparing one question against a whole bank doesn't re-tokenize the bank
+export interface QuestionFingerprint {
+  hash: string
+  words: Set<string>
+  trigrams: Set<string>
+}
+
+export function fingerprint(text: string): QuestionFingerprint {
+  const words = contentWords(text)
+  return { hash: questionTextHash(text), words: new Set(words), trigrams: trigrams(words) }
+}
+
+export function similarity(a: QuestionFingerprint, b: QuestionFingerprint) {
+  if (a.hash === b.hash) return 1
+  return (dice(a.words, b.words) + dice(a.trigrams, b.trigrams)) / 2
+}
+
+// The most similar question at or above the threshold, if any. `exact` means the normalized texts are
+// identical, which a rewording can't reach even when it scores 1.
+export function findBestMatch<T>(
+  candidate: QuestionFingerprint,
+  pool: Array<{ item: T; fingerprint: QuestionFingerprint }>,
+  threshold = DUPLICATE_THRESHOLD,
+): { item: T; similarity: number; exact: boolean } | null {
+  let best: { item: T; similarity: number; exact: boolean } | null = null
+
+  for (const entry of pool) {
+    const score = similarity(candidate, entry.fingerprint)
+    if (score >= threshold && (!best || score > best.similarity)) {
+      best = { item: entry.item, similarity: score, exact: candidate.hash === entry.fingerprint.hash }
+      if (best.exact) break
+    }
+  }
+
+  return best
+}
+
+// Group items into clusters of mutual near duplicates (connected pairs above the threshold).
+// `isDismissed` lets recruiters mark pairs that look alike but are different questions.
+export function clusterDuplicates<T>(
+  items: Array<{ item: T; fingerprint: QuestionFingerprint }>,
+  isDismissed: (a: T, b: T) => boolean = () => false,
+  threshold = DUPLICATE_THRESHOLD,
+): Array<{ items: T[]; similarity: number }> {
+  const parent = items.map((_, index) => index)
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])))
+  const lowestScore = new Map<number, number>()
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const score = similarity(items[i].fingerprint, items[j].fingerprint)
+      if (score < threshold || isDismissed(items[i].item, items[j].item)) continue
+
+      const [a, b] = [root(i), root(j)]
+      const lowest = Math.min(score, lowestScore.get(a) ?? 1, lowestScore.get(b) ?? 1)
+      parent[b] = a
+      lowestScore.set(a, lowest)
+    }
+  }
+
+  const clusters = new Map<number, T[]>()
+  items.forEach(({ item }, index) => {
+    const key = root(index)
+    clusters.set(key, [...(clusters.get(key) || []), item])
+  })
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([key, members]) => ({ items: members, similarity: lowestScore.get(key) ?? 1 }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
@@ -0,0 +1,148 @@
+// Shared pieces of the recording engine (hooks/use-recorder.ts): the recorder's states, the analyzer
+// plug-in interface, container negotiation, and the analyzers every answer recording uses.
+
+import { createVoiceAnalyzer, levelPercent, type VoiceSignal } from "@/lib/voice-analysis"
+import { createFaceAnalyzer, type FaceAnalysis } from "@/lib/face-analysis"
+import { watchForSilence } from "@/lib/silence-detection"
+
+export type RecorderMediaType = "audio" | "video"
+
+// idle: ready to record, with the devices open if the browser allowed it
+// requesting: waiting for the browser to open the camera or microphone
+// stopped: a finished recording is waiting to be played back, re-recorded or uploaded
+export type RecorderStatus = "idle" | "requesting" | "recording" | "paused" | "stopped" | "uploading"
+
+export const recorderTransitions: Record<RecorderStatus, RecorderStatus[]> = {
+  idle: ["requesting", "recording"],
+  requesting: ["idle", "recording"],
+  recording: ["paused", "stopped"],
+  paused: ["recording", "stopped"],
+  stopped: ["uploading", "requesting"],
+  uploading: ["stopped"],
+}
+
+export interface AnalyzerInput {
+  mediaType: RecorderMediaType
+  stream: MediaStream
+  analyser: AnalyserNode | null // one per recording, shared by every analyzer; null if the browser can't make one
+  video: HTMLVideoElement | null // the live preview, for video recordings
+  stopRecording: () => void
+}
+
+export interface AnalyzerSession<T> {
+  pause?: () => void
+  resume?: () => void
+  stop: () => T
+}
+
+// Runs alongside a recording. start() is called when recording begins and the session's stop() result
+// ends up in the finished recording's analysis under the analyzer's name.
+export interface RecordingAnalyzer<T> {
+  mediaTypes?: RecorderMediaType[] // defaults to both
+  start: (input: AnalyzerInput) => AnalyzerSession<T>
+}
+
+// Analyzers are keyed by name; one left undefined is simply not run
+export type RecordingAnalyzers = Record<string, RecordingAnalyzer<unknown> | undefined>
+
+export type AnalyzerResults<A> = {
+  [K in keyof A]?: NonNullable<A[K]> extends RecordingAnalyzer<infer T> ? T : never
+}
+
+export interface Recording<A> {
+  blob: Blob
+  url: string // object URL for playback, revoked when the recording is discarded
+  mediaType: RecorderMediaType
+  durationSeconds: number // time spent recording, pauses excluded
+  analysis: AnalyzerResults<A>
+}
+
+// Microphone processing for every answer, and for the device check so it measures what answers will hear
+export const AUDIO_PROCESSING = { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+
+// Containers in order of preference; the first one the browser can record is used
+const AUDIO_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus", "audio/ogg"]
+const VIDEO_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm", "video/mp4"]
+
+export function isRecordingSupported() {
+  return typeof window !== "undefined" && typeof window.MediaRecorder !== "undefined"
+}
+
+export function pickMimeType(mediaType: RecorderMediaType): string | undefined {
+  if (!isRecordingSupported() || typeof window.MediaRecorder.isTypeSupported !== "function") return undefined
+  return (mediaType === "audio" ? AUDIO_TYPES : VIDEO_TYPES).find((type) => {
+    try {
+      return window.MediaRecorder.isTypeSupported(type)
+    } catch {
+      return false
+    }
+  })
+}
+
+export function formatDuration(seconds: number) {
+  const safe = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0
+  const mins = Math.floor(safe / 60)
+  const secs = safe % 60
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+// Loudness, pitch and pauses from the microphone, with the live input level for a meter
+export function voiceAnalyzer(onLevel?: (percent: number) => void): RecordingAnalyzer<VoiceSignal | null> {
+  return {
+    start: ({ analyser }) => {
+      if (!analyser) return { stop: () => null }
+
+      const analyzer = createVoiceAnalyzer(analyser, { onFrame: (frame) => onLevel?.(levelPercent(frame.rms)) })
+      return {
+        pause: () => {
+          analyzer.pause()
+          onLevel?.(0)
+        },
+        resume: analyzer.resume,
+        stop: () => {
+          onLevel?.(0)
+          return analyzer.stop()
+        },
+      }
+    },
+  }
+}
+
+// Hands-free answers: stops the recording once the candidate has finished talking
+export function silenceStopper(threshold?: number): RecordingAnalyzer<null> {
+  return {
+    start: ({ analyser, stopRecording }) => {
+      if (!analyser) return { stop: () => null }
+
+      // A pause shouldn't end the answer, so the watch starts over on resume
+      const watch = () => watchForSilence(analyser, { threshold, onSilence: stopRecording })
+      let unwatch: (() => void) | null = watch()
+      return {
+        pause: () => {
+          unwatch?.()
+          unwatch = null
+        },
+        resume: () => {
+          unwatch = unwatch ?? watch()
+        },
+        stop: () => {
+          unwatch?.()
+          return null
+        },
+      }
+    },
+  }
+}
+
+// Camera presence for video answers, with whether a face is in frame right now
+export function faceAnalyzer(onSample?: (faceInFrame: boolean) => void): RecordingAnalyzer<FaceAnalysis> {
+  return {
+    mediaTypes: ["video"],
+    start: ({ video }) => {
+      if (!video) {
+        return { stop: () => ({ measured: false, reason: "The camera preview wasn't available." }) }
+      }
+      return createFaceAnalyzer(video, { onSample })
+    },
+  }
+}
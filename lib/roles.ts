@@ -0,0 +1,35 @@
+export type Role = "student" | "recruiter" | "admin"
+
+export const ROLES: Role[] = ["student", "recruiter", "admin"]
+
+export const roleLabels: Record<Role, string> = {
+  student: "Student",
+  recruiter: "Recruiter",
+  admin: "Institution Admin",
+}
+
+// Which roles may open each area. Paths not listed here are open to any signed-in user.
+const routeRoles: Array<{ prefix: string; roles: Role[] }> = [
+  { prefix: "/admin", roles: ["admin"] },
+  { prefix: "/recruiter", roles: ["recruiter", "admin"] },
+  { prefix: "/dashboard", roles: ["student", "admin"] },
+  { prefix: "/tests", roles: ["student", "admin"] },
+  { prefix: "/interviews", roles: ["student", "admin"] },
+]
+
+export function canAccessPath(role: Role, pathname: string) {
+  const rule = routeRoles.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return !rule || rule.roles.includes(role)
+}
+
+// Where each role lands after signing in, or when it opens an area it can't use
+export function homePathForRole(role: Role) {
+  switch (role) {
+    case "admin":
+      return "/admin"
+    case "recruiter":
+      return "/recruiter"
+    default:
+      return "/dashboard"
+  }
+}
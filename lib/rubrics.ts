@@ -0,0 +1,96 @@
+export type QuestionType = "behavioral" | "technical" | "situational" | "general"
+
+export interface RubricDimension {
+  key: string
+  label: string
+  description: string // What a 5 looks like, shown to the grader
+}
+
+export interface Rubric {
+  id: string
+  title: string
+  dimensions: RubricDimension[]
+}
+
+export const rubricDimensions: Record<string, RubricDimension> = {
+  star_structure: {
+    key: "star_structure",
+    label: "STAR Structure",
+    description: "Clearly sets up the Situation and Task, explains the Actions taken personally, and states the Result.",
+  },
+  technical_correctness: {
+    key: "technical_correctness",
+    label: "Technical Correctness",
+    description: "Facts, terminology and proposed solutions are accurate and would work in practice.",
+  },
+  communication: {
+    key: "communication",
+    label: "Communication",
+    description: "Well organized, concise and easy to follow, with no rambling or filler.",
+  },
+  relevance: {
+    key: "relevance",
+    label: "Relevance",
+    description: "Directly answers the question that was asked and ties back to the role.",
+  },
+  depth: {
+    key: "depth",
+    label: "Depth",
+    description: "Goes beyond surface level with specifics, trade-offs, metrics or lessons learned.",
+  },
+  problem_solving: {
+    key: "problem_solving",
+    label: "Problem Solving",
+    description: "Breaks the problem down, weighs options and justifies the chosen approach.",
+  },
+}
+
+export const rubrics: Rubric[] = [
+  {
+    id: "behavioral-star",
+    title: "Behavioral (STAR)",
+    dimensions: ["star_structure", "relevance", "depth", "communication"].map((key) => rubricDimensions[key]),
+  },
+  {
+    id: "technical",
+    title: "Technical",
+    dimensions: ["technical_correctness", "depth", "problem_solving", "communication"].map(
+      (key) => rubricDimensions[key],
+    ),
+  },
+  {
+    id: "situational",
+    title: "Situational",
+    dimensions: ["problem_solving", "relevance", "depth", "communication"].map((key) => rubricDimensions[key]),
+  },
+  {
+    id: "general",
+    title: "General",
+    dimensions: ["relevance", "communication", "depth"].map((key) => rubricDimensions[key]),
+  },
+]
+
+// Rubric used for each question type when a company hasn't chosen one
+export const defaultRubricByQuestionType: Record<QuestionType, string> = {
+  behavioral: "behavioral-star",
+  technical: "technical",
+  situational: "situational",
+  general: "general",
+}
+
+// Function to get a rubric by ID
+export function getRubricById(id: string): Rubric | undefined {
+  return rubrics.find((rubric) => rubric.id === id)
+}
+
+// Company overrides (from the company_rubrics table) take precedence over the question type default
+export function selectRubric(
+  questionType: QuestionType | null,
+  companyRubrics: Array<{ question_type: QuestionType | null; rubric_id: string }> = [],
+): Rubric {
+  const type = questionType || "general"
+  const override =
+    companyRubrics.find((r) => r.question_type === type) || companyRubrics.find((r) => r.question_type === null)
+
+  return (override && getRubricById(override.rubric_id)) || getRubricById(defaultRubricByQuestionType[type])!
+}
@@ -0,0 +1,109 @@
+// Browser-side persistence so an interrupted interview can pick up where it left off.
+// Text drafts live in localStorage; recordings are too large for it and go to IndexedDB until uploaded.
+
+import type { VoiceAnalysis } from "@/lib/voice-analysis"
+import type { FaceAnalysis } from "@/lib/face-analysis"
+
+export interface TextDraft {
+  text: string
+  updatedAt: number
+}
+
+export interface PendingRecording {
+  blob: Blob
+  mediaType: "audio" | "video"
+  voiceAnalysis: VoiceAnalysis | null
+  faceAnalysis: FaceAnalysis | null
+  recordedAt: number
+}
+
+const DB_NAME = "mock-interview-recovery"
+const STORE_NAME = "recordings"
+
+const draftKey = (interviewId: string, questionId: string) => `interview-draft:${interviewId}:${questionId}`
+const recordingKey = (interviewId: string, questionId: string) => `${interviewId}:${questionId}`
+
+export function saveTextDraft(interviewId: string, questionId: string, text: string) {
+  try {
+    if (text.trim()) {
+      localStorage.setItem(draftKey(interviewId, questionId), JSON.stringify({ text, updatedAt: Date.now() }))
+    } else {
+      localStorage.removeItem(draftKey(interviewId, questionId))
+    }
+  } catch (error) {
+    // Private browsing or a full quota; the draft just won't survive a reload
+    console.warn("Could not save draft:", error)
+  }
+}
+
+export function loadTextDraft(interviewId: string, questionId: string): TextDraft | null {
+  try {
+    const stored = localStorage.getItem(draftKey(interviewId, questionId))
+    return stored ? (JSON.parse(stored) as TextDraft) : null
+  } catch {
+    return null
+  }
+}
+
+export function clearTextDraft(interviewId: string, questionId: string) {
+  try {
+    localStorage.removeItem(draftKey(interviewId, questionId))
+  } catch {
+    // Nothing to clear
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function savePendingRecording(interviewId: string, questionId: string, recording: PendingRecording) {
+  try {
+    await withStore("readwrite", (store) => store.put(recording, recordingKey(interviewId, questionId)))
+  } catch (error) {
+    console.warn("Could not keep recording for recovery:", error)
+  }
+}
+
+export async function loadPendingRecording(interviewId: string, questionId: string): Promise<PendingRecording | null> {
+  try {
+    const recording = await withStore<PendingRecording | undefined>("readonly", (store) =>
+      store.get(recordingKey(interviewId, questionId)),
+    )
+    return recording ?? null
+  } catch {
+    return null
+  }
+}
+
+export async function clearPendingRecording(interviewId: string, questionId: string) {
+  try {
+    await withStore("readwrite", (store) => store.delete(recordingKey(interviewId, questionId)))
+  } catch (error) {
+    console.warn("Could not clear recovered recording:", error)
+  }
+}
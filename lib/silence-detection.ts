@@ -0,0 +1,61 @@
+// End-of-answer detection for hands-free recording. Watches an AnalyserNode and calls onSilence once the
+// speaker has talked for at least minSpeechMs and then stayed below the threshold for silenceMs.
+
+import { SPEECH_THRESHOLD } from "@/lib/voice-analysis"
+
+export interface SilenceDetectionOptions {
+  silenceMs?: number
+  minSpeechMs?: number
+  threshold?: number // RMS of the time-domain signal, 0-1
+  onSilence: () => void
+}
+
+const POLL_INTERVAL_MS = 100
+
+// How far above the room's background noise a frame has to be to count as speech
+const NOISE_MARGIN_DB = 6
+
+// In a noisy room the background alone can cross the default threshold and the answer never ends, so
+// raise it above the noise floor measured in the device check
+export function thresholdAboveNoise(noiseFloorDb: number | null | undefined) {
+  if (noiseFloorDb === null || noiseFloorDb === undefined) return SPEECH_THRESHOLD
+  return Math.max(SPEECH_THRESHOLD, 10 ** ((noiseFloorDb + NOISE_MARGIN_DB) / 20))
+}
+
+export function watchForSilence(
+  analyser: AnalyserNode,
+  { silenceMs = 3000, minSpeechMs = 1500, threshold = SPEECH_THRESHOLD, onSilence }: SilenceDetectionOptions,
+): () => void {
+  const samples = new Uint8Array(analyser.fftSize)
+  let speechMs = 0
+  let quietMs = 0
+  let fired = false
+
+  const timer = setInterval(() => {
+    analyser.getByteTimeDomainData(samples)
+
+    // Samples are centred on 128; RMS of the deviation is a cheap loudness estimate
+    let sumSquares = 0
+    for (let i = 0; i < samples.length; i++) {
+      const value = (samples[i] - 128) / 128
+      sumSquares += value * value
+    }
+    const rms = Math.sqrt(sumSquares / samples.length)
+
+    if (rms >= threshold) {
+      speechMs += POLL_INTERVAL_MS
+      quietMs = 0
+    } else {
+      quietMs += POLL_INTERVAL_MS
+    }
+
+    // Don't cut the candidate off before they've started answering
+    if (!fired && speechMs >= minSpeechMs && quietMs >= silenceMs) {
+      fired = true
+      clearInterval(timer)
+      onSilence()
+    }
+  }, POLL_INTERVAL_MS)
+
+  return () => clearInterval(timer)
+}
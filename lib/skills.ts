@@ -0,0 +1,135 @@
+// The curated skill taxonomy. Tags are free-form labels recruiters add as they like; skills come from this
+// fixed list so questions from different banks, generated questions and results can be compared and
+// rolled up. Questions store skill keys; keys must never be renamed once in use.
+
+export type SkillCategory =
+  | "communication"
+  | "collaboration"
+  | "leadership"
+  | "problem_solving"
+  | "programming"
+  | "data"
+  | "system_design"
+  | "product"
+
+export interface Skill {
+  key: string
+  label: string
+  category: SkillCategory
+}
+
+export const skillCategories: Record<SkillCategory, string> = {
+  communication: "Communication",
+  collaboration: "Collaboration",
+  leadership: "Leadership",
+  problem_solving: "Problem Solving",
+  programming: "Programming",
+  data: "Data & SQL",
+  system_design: "System Design",
+  product: "Product & Business",
+}
+
+export const skills: Skill[] = [
+  { key: "self-introduction", label: "Self-introduction", category: "communication" },
+  { key: "explaining-technical-concepts", label: "Explaining technical concepts", category: "communication" },
+  { key: "stakeholder-communication", label: "Stakeholder communication", category: "communication" },
+  { key: "conflict-resolution", label: "Conflict resolution", category: "collaboration" },
+  { key: "teamwork", label: "Teamwork", category: "collaboration" },
+  { key: "receiving-feedback", label: "Giving and receiving feedback", category: "collaboration" },
+  { key: "ownership", label: "Ownership", category: "leadership" },
+  { key: "mentoring", label: "Mentoring", category: "leadership" },
+  { key: "decision-making", label: "Decision making", category: "leadership" },
+  { key: "prioritization", label: "Prioritization", category: "problem_solving" },
+  { key: "debugging", label: "Debugging", category: "problem_solving" },
+  { key: "handling-ambiguity", label: "Handling ambiguity", category: "problem_solving" },
+  { key: "learning-from-failure", label: "Learning from failure", category: "problem_solving" },
+  { key: "data-structures", label: "Data structures", category: "programming" },
+  { key: "algorithms", label: "Algorithms and complexity", category: "programming" },
+  { key: "object-oriented-design", label: "Object-oriented design", category: "programming" },
+  { key: "testing", label: "Testing", category: "programming" },
+  { key: "code-quality", label: "Code quality and refactoring", category: "programming" },
+  { key: "web-performance", label: "Web performance", category: "programming" },
+  { key: "sql-joins", label: "SQL joins", category: "data" },
+  { key: "sql-query-optimization", label: "SQL query optimization", category: "data" },
+  { key: "data-modeling", label: "Data modeling", category: "data" },
+  { key: "statistics", label: "Statistics", category: "data" },
+  { key: "machine-learning", label: "Machine learning", category: "data" },
+  { key: "system-design-caching", label: "System design: caching", category: "system_design" },
+  { key: "system-design-scalability", label: "System design: scalability", category: "system_design" },
+  { key: "system-design-apis", label: "System design: APIs", category: "system_design" },
+  { key: "system-design-microservices", label: "System design: microservices", category: "system_design" },
+  { key: "product-sense", label: "Product sense", category: "product" },
+  { key: "metrics", label: "Metrics and success measures", category: "product" },
+  { key: "user-research", label: "User research", category: "product" },
+]
+
+export const SKILL_KEYS = skills.map((skill) => skill.key)
+
+const skillsByKey = new Map(skills.map((skill) => [skill.key, skill]))
+
+const comparable = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "")
+
+// Accepts a key or a label in any case or punctuation ("SQL Joins", "sql_joins"); null when not in the taxonomy
+export function normalizeSkill(value: string): string | null {
+  const target = comparable(value)
+  if (!target) return null
+  return skills.find((skill) => comparable(skill.key) === target || comparable(skill.label) === target)?.key || null
+}
+
+export function skillLabel(key: string) {
+  return skillsByKey.get(key)?.label || key
+}
+
+export function skillsByCategory() {
+  return (Object.keys(skillCategories) as SkillCategory[]).map((category) => ({
+    category,
+    label: skillCategories[category],
+    skills: skills.filter((skill) => skill.category === category),
+  }))
+}
+
+export interface SkillScore {
+  skills: string[]
+  score: number // 0-100
+  date: string
+}
+
+export interface SkillRollup {
+  skill: string
+  label: string
+  category: SkillCategory | null
+  score: number
+  responses: number
+  trend: "up" | "down" | "stable"
+}
+
+// Points the later half of a skill's answers must differ from the earlier half by to count as a trend
+const TREND_THRESHOLD = 5
+
+// Average score per skill across scored answers, most practised first. The trend compares the more
+// recent half of a skill's answers with the earlier half.
+export function rollupSkills(scores: SkillScore[]): SkillRollup[] {
+  const bySkill = new Map<string, SkillScore[]>()
+  scores.forEach((entry) => {
+    entry.skills.forEach((skill) => bySkill.set(skill, [...(bySkill.get(skill) || []), entry]))
+  })
+
+  const average = (entries: SkillScore[]) => entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length
+
+  return Array.from(bySkill.entries())
+    .map(([skill, entries]) => {
+      const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date))
+      const half = Math.floor(sorted.length / 2)
+      const change = half > 0 ? average(sorted.slice(-half)) - average(sorted.slice(0, half)) : 0
+
+      return {
+        skill,
+        label: skillLabel(skill),
+        category: skillsByKey.get(skill)?.category || null,
+        score: Math.round(average(entries)),
+        responses: entries.length,
+        trend: change >= TREND_THRESHOLD ? "up" : change <= -TREND_THRESHOLD ? "down" : "stable",
+      } satisfies SkillRollup
+    })
+    .sort((a, b) => b.responses - a.responses || a.label.localeCompare(b.label))
+}
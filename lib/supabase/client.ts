@@ -1,10 +1,11 @@
 import { createBrowserClient } from "@supabase/ssr"
+import type { Database } from "@/types/supabase"
 
-let supabaseInstance: ReturnType<typeof createBrowserClient> | null = null
+let supabaseInstance: ReturnType<typeof createBrowserClient<Database>> | null = null
 
 export function createClient() {
   if (!supabaseInstance) {
-    supabaseInstance = createBrowserClient(
+    supabaseInstance = createBrowserClient<Database>(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     )
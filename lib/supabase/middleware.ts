@@ -0,0 +1,59 @@
+import { createServerClient } from "@supabase/ssr"
+import { NextResponse, type NextRequest } from "next/server"
+import type { Database } from "@/types/supabase"
+import { canAccessPath, homePathForRole } from "@/lib/roles"
+
+// Pages that need a signed-in user; everything else (landing page, login) is public
+const PROTECTED_PREFIXES = ["/admin", "/dashboard", "/interviews", "/questions", "/recruiter", "/tests"]
+
+// Refresh the auth session cookie on every request, send signed-out visitors to the login page
+// and keep each role inside the areas it is allowed to use
+export async function updateSession(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    },
+  )
+
+  // getUser revalidates the token with Supabase Auth, unlike getSession which trusts the cookie
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const { pathname } = request.nextUrl
+  if (!PROTECTED_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`))) {
+    return response
+  }
+
+  if (!user) {
+    const loginUrl = request.nextUrl.clone()
+    loginUrl.pathname = "/auth/login"
+    loginUrl.search = `?next=${encodeURIComponent(pathname + request.nextUrl.search)}`
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle()
+  const role = profile?.role ?? "student"
+
+  if (!canAccessPath(role, pathname)) {
+    const homeUrl = request.nextUrl.clone()
+    homeUrl.pathname = homePathForRole(role)
+    homeUrl.search = ""
+    return NextResponse.redirect(homeUrl)
+  }
+
+  return response
+}
@@ -0,0 +1,65 @@
+// Word-level diffs for showing how a question's text changed between versions. Texts are split into
+// words and the whitespace between them, so joining the parts of a diff gives back the original texts.
+
+export interface DiffPart {
+  type: "same" | "added" | "removed"
+  text: string
+}
+
+function tokenize(text: string) {
+  return text.match(/\s+|[^\s]+/g) || []
+}
+
+// Longest common subsequence over the tokens. Question texts and model answers are short, so the
+// quadratic table is fine.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++])
+    } else {
+      push("added", b[j++])
+    }
+  }
+  while (i < a.length) push("removed", a[i++])
+  while (j < b.length) push("added", b[j++])
+
+  return parts
+}
+
+// Items added to and removed from a list such as key points or tags, compared case-insensitively
+export function diffLists(before: string[] | null, after: string[] | null) {
+  const key = (item: string) => item.trim().toLowerCase()
+  const beforeKeys = new Set((before || []).map(key))
+  const afterKeys = new Set((after || []).map(key))
+
+  return {
+    added: (after || []).filter((item) => !beforeKeys.has(key(item))),
+    removed: (before || []).filter((item) => !afterKeys.has(key(item))),
+  }
+}
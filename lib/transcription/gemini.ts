@@ -0,0 +1,39 @@
+import { GoogleGenerativeAI } from "@google/generative-ai"
+import { geminiTranscriptSchema, parseTranscript } from "./schemas"
+import type { TranscriptionInput, TranscriptionProvider, TranscriptionResult } from "./types"
+
+// Uses Gemini's multimodal audio input to produce a transcript with word timings
+export function createGeminiTranscriptionProvider(): TranscriptionProvider {
+  const apiKey = process.env.GOOGLE_AI_API_KEY
+  const modelName = process.env.GEMINI_TRANSCRIPTION_MODEL || "gemini-1.5-flash"
+
+  return {
+    name: "gemini",
+    async transcribe({ data, mimeType }: TranscriptionInput): Promise<TranscriptionResult> {
+      if (!apiKey) {
+        throw new Error("Missing env.GOOGLE_AI_API_KEY")
+      }
+
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: modelName,
+        generationConfig: { responseMimeType: "application/json", temperature: 0 },
+      })
+
+      const prompt = `Transcribe the speech in this recording verbatim, including filler words such as "um" and "uh".
+
+    Return a JSON object with:
+    - "text": the full transcript
+    - "language": the ISO 639-1 code of the spoken language
+    - "words": an array of { "word", "start", "end" } objects, with start and end in seconds from the beginning of the recording
+
+    If there is no intelligible speech, return an empty "text" and an empty "words" array.`
+
+      const result = await model.generateContent([
+        { inlineData: { data: Buffer.from(data).toString("base64"), mimeType: mimeType.split(";")[0] } },
+        { text: prompt },
+      ])
+
+      return parseTranscript("Gemini", geminiTranscriptSchema, JSON.parse(result.response.text()))
+    },
+  }
+}
@@ -0,0 +1,65 @@
+import { createClient } from "@/lib/supabase/server"
+import { createGeminiTranscriptionProvider } from "./gemini"
+import { createStubTranscriptionProvider } from "./stub"
+import { createWhisperProvider } from "./whisper"
+import type { TranscriptionProvider, TranscriptionResult } from "./types"
+
+export type { TranscriptionProvider, TranscriptionResult, TranscriptWord } from "./types"
+
+const RESPONSES_BUCKET = "responses"
+
+// Pick the provider configured by TRANSCRIPTION_PROVIDER (whisper | gemini | stub)
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const provider = process.env.TRANSCRIPTION_PROVIDER || "gemini"
+
+  switch (provider) {
+    case "whisper":
+      return createWhisperProvider()
+    case "gemini":
+      return createGeminiTranscriptionProvider()
+    case "stub":
+      return createStubTranscriptionProvider()
+    default:
+      throw new Error(`Unknown transcription provider: ${provider}`)
+  }
+}
+
+// Media URLs are stored as public URLs, so recover the object path inside the bucket
+export function getStoragePath(mediaUrl: string, bucket: string = RESPONSES_BUCKET) {
+  const marker = `/${bucket}/`
+  const pathname = mediaUrl.startsWith("http") ? new URL(mediaUrl).pathname : mediaUrl
+  const index = pathname.indexOf(marker)
+
+  return decodeURIComponent(index >= 0 ? pathname.substring(index + marker.length) : pathname.replace(/^\//, ""))
+}
+
+// Fetch a recording from the responses bucket and transcribe it
+export async function transcribeMedia({
+  mediaUrl,
+  mediaType,
+}: {
+  mediaUrl: string
+  mediaType: "audio" | "video"
+}): Promise<TranscriptionResult & { provider: string }> {
+  const supabase = await createClient()
+  const path = getStoragePath(mediaUrl)
+
+  const { data: file, error } = await supabase.storage.from(RESPONSES_BUCKET).download(path)
+
+  if (error || !file) {
+    throw new Error(`Failed to download ${mediaType} from storage: ${error?.message || "file not found"}`)
+  }
+
+  const provider = getTranscriptionProvider()
+  const result = await provider.transcribe({
+    data: await file.arrayBuffer(),
+    mimeType: file.type || `${mediaType}/webm`,
+    mediaType,
+  })
+
+  if (!result.text) {
+    throw new Error(`No speech was detected in the ${mediaType} recording`)
+  }
+
+  return { ...result, provider: provider.name }
+}
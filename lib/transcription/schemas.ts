@@ -0,0 +1,59 @@
+import { z, type ZodType, type ZodTypeDef } from "zod"
+import type { TranscriptWord } from "./types"
+
+// Schemas for the transcripts providers send back. Word timings only feed pacing and pause analysis, so a
+// word without usable timings is dropped instead of failing a transcript that can still be graded.
+
+const secondsSchema = z.coerce.number().finite().nonnegative()
+
+const transcriptWordSchema = z
+  .object({
+    word: z.string().trim().min(1),
+    start: secondsSchema,
+    end: secondsSchema,
+  })
+  .refine((word) => word.end >= word.start, "end is before start")
+
+const transcriptWordsSchema = z
+  .array(z.unknown())
+  .nullish()
+  .transform((items): TranscriptWord[] =>
+    (items || []).flatMap((item) => {
+      const result = transcriptWordSchema.safeParse(item)
+      return result.success ? [result.data] : []
+    }),
+  )
+
+const languageSchema = z
+  .string()
+  .nullish()
+  .transform((language) => language || null)
+
+export const geminiTranscriptSchema = z.object({
+  text: z.string().nullish().transform((text) => (text || "").trim()),
+  language: languageSchema,
+  words: transcriptWordsSchema,
+})
+
+export const whisperTranscriptSchema = z.object({
+  text: z.string().nullish().transform((text) => (text || "").trim()),
+  language: languageSchema,
+  words: transcriptWordsSchema,
+  // Servers that only time segments
+  segments: z
+    .array(z.object({ text: z.string().nullish(), start: secondsSchema, end: secondsSchema }))
+    .nullish()
+    .transform((segments) => segments || []),
+})
+
+export function parseTranscript<T>(provider: string, schema: ZodType<T, ZodTypeDef, unknown>, payload: unknown): T {
+  const result = schema.safeParse(payload)
+  if (result.success) {
+    return result.data
+  }
+
+  const problems = result.error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ")
+  throw new Error(`${provider} returned a transcript in an unexpected shape: ${problems}`)
+}
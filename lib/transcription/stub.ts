@@ -0,0 +1,22 @@
+import type { TranscriptionProvider, TranscriptionResult } from "./types"
+
+const STUB_TRANSCRIPT =
+  process.env.TRANSCRIPTION_STUB_TEXT ||
+  "In my last project I led the migration of our billing service to a new payment provider. I planned the rollout in stages, wrote the integration tests first and we shipped without any downtime."
+
+// Deterministic provider for tests and local development without a speech-to-text backend
+export function createStubTranscriptionProvider(): TranscriptionProvider {
+  return {
+    name: "stub",
+    async transcribe(): Promise<TranscriptionResult> {
+      // Pretend every word takes 0.4 seconds to say
+      const words = STUB_TRANSCRIPT.split(/\s+/).map((word, index) => ({
+        word,
+        start: index * 0.4,
+        end: (index + 1) * 0.4,
+      }))
+
+      return { text: STUB_TRANSCRIPT, words, language: "en" }
+    },
+  }
+}
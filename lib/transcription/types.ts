@@ -0,0 +1,22 @@
+export interface TranscriptWord {
+  word: string
+  start: number // seconds from the start of the recording
+  end: number
+}
+
+export interface TranscriptionResult {
+  text: string
+  words: TranscriptWord[]
+  language?: string | null
+}
+
+export interface TranscriptionInput {
+  data: ArrayBuffer
+  mimeType: string
+  mediaType: "audio" | "video"
+}
+
+export interface TranscriptionProvider {
+  name: string
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>
+}
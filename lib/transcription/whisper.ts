@@ -0,0 +1,59 @@
+import { extensionForMimeType } from "@/lib/media-types"
+import { parseTranscript, whisperTranscriptSchema } from "./schemas"
+import type { TranscriptionInput, TranscriptionProvider, TranscriptionResult, TranscriptWord } from "./types"
+
+// Talks to any server exposing the OpenAI-compatible /v1/audio/transcriptions endpoint
+// (faster-whisper-server, whisper.cpp server, LocalAI, OpenAI itself, ...)
+export function createWhisperProvider(): TranscriptionProvider {
+  const baseUrl = process.env.WHISPER_API_URL || "http://localhost:8000"
+  const apiKey = process.env.WHISPER_API_KEY
+  const model = process.env.WHISPER_MODEL || "whisper-1"
+
+  return {
+    name: "whisper",
+    async transcribe({ data, mimeType, mediaType }: TranscriptionInput): Promise<TranscriptionResult> {
+      const formData = new FormData()
+      // Servers tell the container from the file name, so it has to match what was recorded
+      formData.append("file", new Blob([data], { type: mimeType }), `${mediaType}.${extensionForMimeType(mimeType)}`)
+      formData.append("model", model)
+      formData.append("response_format", "verbose_json")
+      formData.append("timestamp_granularities[]", "word")
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/v1/audio/transcriptions`, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "")
+        throw new Error(`Whisper server responded with ${response.status}: ${body.substring(0, 200)}`)
+      }
+
+      const result = parseTranscript("Whisper", whisperTranscriptSchema, await response.json())
+
+      // Some servers only return segment-level timestamps, so fall back to those
+      const words =
+        result.words.length > 0
+          ? result.words
+          : result.segments.flatMap((segment) => spreadSegmentWords(segment.text, segment.start, segment.end))
+
+      return { text: result.text, words, language: result.language }
+    },
+  }
+}
+
+// Distribute a segment's duration evenly across its words
+function spreadSegmentWords(text: string | null | undefined, start: number, end: number): TranscriptWord[] {
+  const tokens = String(text || "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+  const step = tokens.length > 0 ? (end - start) / tokens.length : 0
+
+  return tokens.map((word, index) => ({
+    word,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+  }))
+}
@@ -0,0 +1,40 @@
+import type { SpeakOptions, TextToSpeechProvider } from "./types"
+
+// Web Speech synthesis; voices vary by browser and OS
+export function createBrowserSpeechProvider(): TextToSpeechProvider {
+  return {
+    name: "browser",
+    isSupported() {
+      return typeof window !== "undefined" && "speechSynthesis" in window
+    },
+    speak(text: string, { signal }: SpeakOptions = {}) {
+      return new Promise((resolve, reject) => {
+        const synth = window.speechSynthesis
+        const utterance = new SpeechSynthesisUtterance(text)
+        utterance.lang = process.env.NEXT_PUBLIC_TTS_LANG || "en-US"
+        utterance.rate = 0.95
+
+        const voice = synth.getVoices().find((v) => v.lang === utterance.lang && v.localService)
+        if (voice) utterance.voice = voice
+
+        const onAbort = () => synth.cancel()
+        signal?.addEventListener("abort", onAbort, { once: true })
+
+        utterance.onend = () => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve()
+        }
+        utterance.onerror = (event) => {
+          signal?.removeEventListener("abort", onAbort)
+          // Cancelling fires an "interrupted"/"canceled" error, which is not a failure
+          if (event.error === "interrupted" || event.error === "canceled") resolve()
+          else reject(new Error(`Speech synthesis failed: ${event.error}`))
+        }
+
+        // Clear anything still queued from a previous question
+        synth.cancel()
+        synth.speak(utterance)
+      })
+    },
+  }
+}
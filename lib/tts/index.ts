@@ -0,0 +1,19 @@
+import { createBrowserSpeechProvider } from "./browser"
+import { createRemoteSpeechProvider } from "./remote"
+import type { TextToSpeechProvider } from "./types"
+
+export type { SpeakOptions, TextToSpeechProvider } from "./types"
+
+// Pick the provider configured by NEXT_PUBLIC_TTS_PROVIDER (browser | remote)
+export function getTextToSpeechProvider(): TextToSpeechProvider {
+  const provider = process.env.NEXT_PUBLIC_TTS_PROVIDER || "browser"
+
+  switch (provider) {
+    case "browser":
+      return createBrowserSpeechProvider()
+    case "remote":
+      return createRemoteSpeechProvider()
+    default:
+      throw new Error(`Unknown text-to-speech provider: ${provider}`)
+  }
+}
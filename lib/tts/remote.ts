@@ -0,0 +1,44 @@
+import type { SpeakOptions, TextToSpeechProvider } from "./types"
+
+// Any HTTP endpoint that accepts { text, voice } and responds with audio (e.g. a proxy in front of a cloud TTS API)
+export function createRemoteSpeechProvider(): TextToSpeechProvider {
+  const url = process.env.NEXT_PUBLIC_TTS_URL || "/api/tts"
+
+  return {
+    name: "remote",
+    isSupported() {
+      return typeof window !== "undefined" && typeof Audio !== "undefined"
+    },
+    async speak(text: string, { signal }: SpeakOptions = {}) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, voice: process.env.NEXT_PUBLIC_TTS_VOICE }),
+        signal,
+      })
+
+      if (!res.ok) {
+        throw new Error(`TTS request failed (${res.status})`)
+      }
+
+      const audioUrl = URL.createObjectURL(await res.blob())
+      const audio = new Audio(audioUrl)
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            audio.pause()
+            resolve()
+          }
+          signal?.addEventListener("abort", onAbort, { once: true })
+
+          audio.onended = () => resolve()
+          audio.onerror = () => reject(new Error("Could not play synthesized speech"))
+          audio.play().catch(reject)
+        })
+      } finally {
+        URL.revokeObjectURL(audioUrl)
+      }
+    },
+  }
+}
@@ -0,0 +1,10 @@
+export interface SpeakOptions {
+  signal?: AbortSignal // Abort to stop speaking early, e.g. when the candidate leaves the question
+}
+
+// Speaks text aloud in the browser and resolves once playback has finished
+export interface TextToSpeechProvider {
+  name: string
+  isSupported(): boolean
+  speak(text: string, options?: SpeakOptions): Promise<void>
+}
@@ -0,0 +1,262 @@
+// Voice analytics measured from the microphone while an answer is recorded. The browser samples the
+// AnalyserNode every frame for loudness (RMS) and pitch; the frames are summarized into the timelines
+// and statistics saved with the response. Speaking rate needs word timings, so it is added on the
+// server once the recording has been transcribed.
+
+import type { TranscriptWord } from "@/lib/transcription/types"
+
+// RMS of the time-domain signal (0-1) above which a frame counts as speech
+export const SPEECH_THRESHOLD = 0.02
+
+// Silences shorter than this are the gaps between words, not pauses
+const PAUSE_MIN_SECONDS = 0.5
+
+// Human speaking voices sit between these fundamental frequencies
+const MIN_PITCH_HZ = 75
+const MAX_PITCH_HZ = 400
+
+// How periodic a frame must be (normalized autocorrelation) before its pitch is trusted
+const PITCH_CLARITY = 0.6
+
+// Timelines are downsampled to keep the stored JSON small for long answers
+const MAX_TIMELINE_POINTS = 600
+
+// Loudness floor for silent frames, in dBFS
+const SILENCE_DB = -60
+
+export interface VoiceFrame {
+  rms: number
+  pitch: number | null // Hz; null when silent or unvoiced
+}
+
+export interface VoiceSignal {
+  duration_seconds: number
+  timeline: {
+    step_seconds: number
+    loudness_db: number[]
+    pitch_hz: (number | null)[]
+  }
+  loudness: {
+    mean_db: number | null
+    std_db: number | null
+    consistency: number | null // 0-100, higher is steadier
+  }
+  pitch: {
+    mean_hz: number | null
+    variability_semitones: number | null // spread of the voice around its average; low is monotone
+    voiced_ratio: number | null // share of speech frames with a clear pitch
+  }
+  pauses: {
+    count: number
+    total_seconds: number
+    longest_seconds: number
+    segments: [number, number][] // start and end, in seconds from the start of the recording
+  }
+}
+
+export interface SpeakingRate {
+  words_per_minute: number // over the whole answer, pauses included
+  articulation_rate: number // words per minute while actually talking
+}
+
+export interface VoiceAnalysis {
+  signal: VoiceSignal | null // null when the browser couldn't analyze the microphone
+  speaking_rate: SpeakingRate | null // null until the recording is transcribed
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values)
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)))
+}
+
+export function frameRms(samples: Float32Array) {
+  let sumSquares = 0
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i]
+  }
+  return Math.sqrt(sumSquares / samples.length)
+}
+
+export function toDecibels(rms: number) {
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB
+}
+
+// A 0-100 meter reading for a frame's loudness
+export function levelPercent(rms: number) {
+  return Math.round(((toDecibels(rms) - SILENCE_DB) / -SILENCE_DB) * 100)
+}
+
+// Fundamental frequency by autocorrelation: the lag at which the frame best matches a shifted copy of
+// itself is one period of the voice. Takes the shortest lag that scores close to the best one, which
+// avoids reporting half the real pitch.
+export function detectPitch(samples: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ)
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH_HZ), Math.floor(samples.length / 2))
+  if (maxLag <= minLag) return null
+
+  const correlations = new Float32Array(maxLag + 1)
+  let best = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0
+    let energyA = 0
+    let energyB = 0
+    for (let i = 0; i < samples.length - lag; i++) {
+      product += samples[i] * samples[i + lag]
+      energyA += samples[i] * samples[i]
+      energyB += samples[i + lag] * samples[i + lag]
+    }
+    const correlation = energyA > 0 && energyB > 0 ? product / Math.sqrt(energyA * energyB) : 0
+    correlations[lag] = correlation
+    best = Math.max(best, correlation)
+  }
+
+  if (best < PITCH_CLARITY) return null
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const isPeak =
+      correlations[lag] >= correlations[lag - 1] && (lag === maxLag || correlations[lag] >= correlations[lag + 1])
+    if (isPeak && correlations[lag] >= best * 0.9) {
+      return sampleRate / lag
+    }
+  }
+  return null
+}
+
+export interface VoiceAnalyzerOptions {
+  frameMs?: number
+  onFrame?: (frame: VoiceFrame) => void
+}
+
+// Samples the analyser until stopped. stop() returns the summary of everything heard so far. Time spent
+// paused is left out entirely, so it doesn't show up as a long pause in the answer.
+export function createVoiceAnalyzer(analyser: AnalyserNode, { frameMs = 100, onFrame }: VoiceAnalyzerOptions = {}) {
+  const samples = new Float32Array(analyser.fftSize)
+  const sampleRate = analyser.context.sampleRate
+  const frames: VoiceFrame[] = []
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const sample = () => {
+    analyser.getFloatTimeDomainData(samples)
+    const rms = frameRms(samples)
+    const frame = { rms, pitch: rms >= SPEECH_THRESHOLD ? detectPitch(samples, sampleRate) : null }
+    frames.push(frame)
+    onFrame?.(frame)
+  }
+
+  const pause = () => {
+    if (timer) clearInterval(timer)
+    timer = null
+  }
+  const resume = () => {
+    if (!timer) timer = setInterval(sample, frameMs)
+  }
+
+  resume()
+
+  return {
+    pause,
+    resume,
+    stop(): VoiceSignal | null {
+      pause()
+      return summarizeVoice(frames, frameMs)
+    },
+  }
+}
+
+export function summarizeVoice(frames: VoiceFrame[], frameMs: number): VoiceSignal | null {
+  if (frames.length === 0) return null
+
+  const frameSeconds = frameMs / 1000
+  const speech = frames.map((frame) => frame.rms >= SPEECH_THRESHOLD)
+  const speechFrames = frames.filter((_, index) => speech[index])
+  const speechDb = speechFrames.map((frame) => toDecibels(frame.rms))
+  const voiced = speechFrames.flatMap((frame) => (frame.pitch ? [frame.pitch] : []))
+
+  // Pauses only count between the first and the last words, not before starting or after finishing
+  const firstSpeech = speech.indexOf(true)
+  const lastSpeech = speech.lastIndexOf(true)
+  const segments: [number, number][] = []
+  let runStart: number | null = null
+  for (let i = firstSpeech; i >= 0 && i <= lastSpeech; i++) {
+    if (!speech[i] && runStart === null) {
+      runStart = i
+    } else if (speech[i] && runStart !== null) {
+      if ((i - runStart) * frameSeconds >= PAUSE_MIN_SECONDS) {
+        segments.push([round(runStart * frameSeconds), round(i * frameSeconds)])
+      }
+      runStart = null
+    }
+  }
+  const pauseLengths = segments.map(([start, end]) => end - start)
+
+  const averagePitch = voiced.length > 0 ? mean(voiced) : null
+  const stdDb = speechDb.length > 0 ? standardDeviation(speechDb) : null
+
+  // Each timeline point covers `bucket` frames: average loudness, median pitch of the voiced frames
+  const bucket = Math.ceil(frames.length / MAX_TIMELINE_POINTS)
+  const loudnessDb: number[] = []
+  const pitchHz: (number | null)[] = []
+  for (let i = 0; i < frames.length; i += bucket) {
+    const slice = frames.slice(i, i + bucket)
+    loudnessDb.push(round(toDecibels(Math.sqrt(mean(slice.map((frame) => frame.rms ** 2))))))
+    const pitches = slice.flatMap((frame) => (frame.pitch ? [frame.pitch] : [])).sort((a, b) => a - b)
+    pitchHz.push(pitches.length > 0 ? Math.round(pitches[Math.floor(pitches.length / 2)]) : null)
+  }
+
+  return {
+    duration_seconds: round(frames.length * frameSeconds),
+    timeline: {
+      step_seconds: round(bucket * frameSeconds, 2),
+      loudness_db: loudnessDb,
+      pitch_hz: pitchHz,
+    },
+    loudness: {
+      mean_db: speechDb.length > 0 ? round(mean(speechDb)) : null,
+      std_db: stdDb !== null ? round(stdDb) : null,
+      // A spread of 2 dB or less is very steady; 12 dB or more swings between mumbling and loud
+      consistency: stdDb !== null ? Math.round(Math.min(100, Math.max(0, ((12 - stdDb) / 10) * 100))) : null,
+    },
+    pitch: {
+      mean_hz: averagePitch !== null ? Math.round(averagePitch) : null,
+      variability_semitones:
+        averagePitch !== null && voiced.length > 1
+          ? round(standardDeviation(voiced.map((pitch) => 12 * Math.log2(pitch / averagePitch))))
+          : null,
+      voiced_ratio: speechFrames.length > 0 ? round(voiced.length / speechFrames.length, 2) : null,
+    },
+    pauses: {
+      count: segments.length,
+      total_seconds: round(pauseLengths.reduce((sum, length) => sum + length, 0)),
+      longest_seconds: round(Math.max(0, ...pauseLengths)),
+      segments,
+    },
+  }
+}
+
+// Words per minute from the transcript's word timings
+export function speakingRate(words: TranscriptWord[]): SpeakingRate | null {
+  if (words.length < 2) return null
+
+  const span = words[words.length - 1].end - words[0].start
+  if (span <= 0) return null
+
+  // Talking time leaves out the gaps between words long enough to be pauses
+  let talking = span
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end
+    if (gap >= PAUSE_MIN_SECONDS) talking -= gap
+  }
+
+  return {
+    words_per_minute: Math.round((words.length / span) * 60),
+    articulation_rate: Math.round((words.length / Math.max(talking, 1)) * 60),
+  }
+}
+
+export function withSpeakingRate(analysis: VoiceAnalysis | null, words: TranscriptWord[]): VoiceAnalysis {
+  return { signal: analysis?.signal ?? null, speaking_rate: speakingRate(words) }
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server"
+import { updateSession } from "@/lib/supabase/middleware"
+
+export async function middleware(request: NextRequest) {
+  return await updateSession(request)
+}
+
+export const config = {
+  // Skip static assets and image optimization
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)"],
+}
@@ -0,0 +1,64 @@
+// Puts what face analysis needs into public/vision so it loads from our own origin instead of a CDN.
+// Runs after every install:
+// - the MediaPipe vision WASM runtime, copied from node_modules
+// - the face landmarker model, which isn't published to npm, downloaded once from MediaPipe's model
+//   storage and kept only if it matches the checksum the storage reports for it
+// Nothing here fails the install: without the assets, face analysis reports "not measured".
+import { createHash } from "node:crypto"
+import { cpSync, existsSync, mkdirSync, renameSync, writeFileSync } from "node:fs"
+
+const WASM_SOURCE = "node_modules/@mediapipe/tasks-vision/wasm"
+const WASM_TARGET = "public/vision/wasm"
+
+// A versioned path, so the same file is fetched on every install
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task"
+const MODEL_TARGET = "public/vision/face_landmarker.task"
+
+function copyWasm() {
+  if (existsSync(WASM_SOURCE)) {
+    cpSync(WASM_SOURCE, WASM_TARGET, { recursive: true })
+    console.log(`Copied MediaPipe WASM files to ${WASM_TARGET}`)
+  } else {
+    console.warn(`${WASM_SOURCE} not found; face analysis will report "not measured"`)
+  }
+}
+
+async function downloadModel() {
+  if (existsSync(MODEL_TARGET)) return
+
+  const response = await fetch(MODEL_URL)
+  if (!response.ok) {
+    throw new Error(`${MODEL_URL} responded with ${response.status}`)
+  }
+
+  const data = Buffer.from(await response.arrayBuffer())
+
+  // Cloud Storage sends the object's MD5 as x-goog-hash: crc32c=<base64>,md5=<base64>
+  const expected = response.headers.get("x-goog-hash")?.match(/md5=([^,]+)/)?.[1]
+  if (!expected) {
+    throw new Error("the download came without a checksum to verify it against")
+  }
+
+  const actual = createHash("md5").update(data).digest("base64")
+  if (actual !== expected) {
+    throw new Error(`checksum mismatch: expected ${expected}, got ${actual}`)
+  }
+
+  // Written under a temporary name first, so an interrupted install never leaves a partial model behind
+  mkdirSync("public/vision", { recursive: true })
+  writeFileSync(`${MODEL_TARGET}.download`, data)
+  renameSync(`${MODEL_TARGET}.download`, MODEL_TARGET)
+  console.log(`Downloaded the face landmarker model to ${MODEL_TARGET}`)
+}
+
+copyWasm()
+
+try {
+  await downloadModel()
+} catch (error) {
+  console.warn(
+    `Couldn't download the face landmarker model (${error instanceof Error ? error.message : error}); ` +
+      `face analysis will report "not measured" until ${MODEL_TARGET} is in place`,
+  )
+}
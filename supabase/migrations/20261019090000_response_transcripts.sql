@@ -0,0 +1,6 @@
+-- Server-side transcripts for audio and video responses
+alter table public.responses
+  add column if not exists transcript_words jsonb,
+  add column if not exists transcription_status text
+    check (transcription_status in ('pending', 'completed', 'transcription_failed')),
+  add column if not exists transcription_error text;
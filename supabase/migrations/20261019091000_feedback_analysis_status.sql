@@ -0,0 +1,5 @@
+-- Record whether automated analysis succeeded instead of storing made-up default scores
+alter table public.feedback
+  add column if not exists analysis_status text not null default 'completed'
+    check (analysis_status in ('completed', 'unavailable')),
+  add column if not exists analysis_error text;
@@ -0,0 +1,26 @@
+-- Per-dimension rubric scores for each piece of feedback
+alter table public.feedback
+  add column if not exists rubric_id text;
+
+create table if not exists public.feedback_scores (
+  id uuid primary key default gen_random_uuid(),
+  feedback_id uuid not null references public.feedback (id) on delete cascade,
+  rubric_id text not null,
+  dimension text not null,
+  score smallint not null check (score between 1 and 5),
+  justification text,
+  created_at timestamptz not null default now(),
+  unique (feedback_id, dimension)
+);
+
+create index if not exists feedback_scores_dimension_idx on public.feedback_scores (dimension);
+
+-- Rubric choices per company; a null question_type applies to every type without its own row
+create table if not exists public.company_rubrics (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies (id) on delete cascade,
+  question_type text check (question_type in ('behavioral', 'technical', 'situational', 'general')),
+  rubric_id text not null,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (company_id, question_type)
+);
@@ -0,0 +1,12 @@
+-- Recruiter reference material for company questions. It stays on the bank, which students can't read,
+-- and only the grader loads it.
+alter table public.company_questions
+  add column if not exists model_answer text,
+  add column if not exists key_points text[],
+  add column if not exists red_flags text[];
+
+-- Which key points the grader found, and any red flags it spotted
+alter table public.feedback
+  add column if not exists key_points_covered text[],
+  add column if not exists key_points_missed text[],
+  add column if not exists red_flags_triggered text[];
@@ -0,0 +1,13 @@
+-- Adaptive interviews insert LLM follow-up questions between the planned ones
+alter table public.interviews
+  add column if not exists adaptive boolean not null default false;
+
+-- Follow-ups reference the original question they drill into
+alter table public.questions
+  add column if not exists parent_question_id uuid references public.questions (id) on delete cascade;
+
+create index if not exists questions_parent_question_id_idx on public.questions (parent_question_id);
+
+-- Follow-ups are slotted between existing questions using fractional ordering
+alter table public.questions
+  alter column order_number type numeric using order_number::numeric;
@@ -0,0 +1,20 @@
+-- Timing rules for company tests; copied onto each interview when it is created
+alter table public.companies
+  add column if not exists answer_time_limit_seconds integer check (answer_time_limit_seconds > 0),
+  add column if not exists prep_time_seconds integer check (prep_time_seconds >= 0),
+  add column if not exists time_limit_minutes integer check (time_limit_minutes > 0);
+
+alter table public.interviews
+  add column if not exists answer_time_limit_seconds integer check (answer_time_limit_seconds > 0),
+  add column if not exists prep_time_seconds integer check (prep_time_seconds >= 0),
+  add column if not exists time_limit_minutes integer check (time_limit_minutes > 0),
+  add column if not exists started_at timestamptz,
+  add column if not exists deadline_at timestamptz;
+
+-- Set by the server the first time a question is shown, so reloading the page doesn't reset the clock
+alter table public.questions
+  add column if not exists started_at timestamptz;
+
+alter table public.responses
+  add column if not exists time_spent_seconds integer,
+  add column if not exists over_time_limit boolean not null default false;
@@ -0,0 +1,7 @@
+-- Last time the candidate opened a question or submitted an answer; used to mark stale interviews abandoned
+alter table public.interviews
+  add column if not exists last_activity_at timestamptz;
+
+create index if not exists interviews_in_progress_activity_idx
+  on public.interviews (last_activity_at)
+  where status = 'in_progress';
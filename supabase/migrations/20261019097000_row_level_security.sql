@@ -0,0 +1,123 @@
+-- Per-user ownership. Every interview belongs to the user who created it, and everything hanging off an
+-- interview (questions, responses, feedback) is visible only through that interview.
+-- Interviews created before this migration have no owner and are hidden from everyone but the service role.
+
+-- company_questions.recruiter_id held the recruiter's email; point it at the auth user instead
+alter table public.company_questions add column if not exists recruiter_user_id uuid references auth.users (id) on delete set null;
+
+update public.company_questions cq
+set recruiter_user_id = u.id
+from auth.users u
+where u.email = cq.recruiter_id;
+
+alter table public.company_questions drop column if exists recruiter_id;
+alter table public.company_questions rename column recruiter_user_id to recruiter_id;
+
+create index if not exists company_questions_recruiter_idx on public.company_questions (recruiter_id);
+create index if not exists interviews_user_idx on public.interviews (user_id);
+
+-- Profiles
+alter table public.profiles enable row level security;
+
+create policy "Users read their own profile" on public.profiles
+  for select using (id = auth.uid());
+
+create policy "Users update their own profile" on public.profiles
+  for update using (id = auth.uid()) with check (id = auth.uid());
+
+-- Interviews and everything under them are read-only for their owner, so nobody can set their own timing,
+-- scores or performance. Server actions write them with the service role after checking ownership.
+alter table public.interviews enable row level security;
+
+create policy "Users read their own interviews" on public.interviews
+  for select using (user_id = auth.uid());
+
+-- Questions
+alter table public.questions enable row level security;
+
+create policy "Users read questions in their interviews" on public.questions
+  for select
+  using (exists (select 1 from public.interviews i where i.id = questions.interview_id and i.user_id = auth.uid()));
+
+-- Responses
+alter table public.responses enable row level security;
+
+create policy "Users read responses in their interviews" on public.responses
+  for select
+  using (
+    exists (
+      select 1 from public.questions q
+      join public.interviews i on i.id = q.interview_id
+      where q.id = responses.question_id and i.user_id = auth.uid()
+    )
+  );
+
+-- Feedback
+alter table public.feedback enable row level security;
+
+create policy "Users read feedback on their responses" on public.feedback
+  for select
+  using (
+    exists (
+      select 1 from public.responses r
+      join public.questions q on q.id = r.question_id
+      join public.interviews i on i.id = q.interview_id
+      where r.id = feedback.response_id and i.user_id = auth.uid()
+    )
+  );
+
+alter table public.feedback_scores enable row level security;
+
+create policy "Users read scores on their feedback" on public.feedback_scores
+  for select
+  using (
+    exists (
+      select 1 from public.feedback f
+      join public.responses r on r.id = f.response_id
+      join public.questions q on q.id = r.question_id
+      join public.interviews i on i.id = q.interview_id
+      where f.id = feedback_scores.feedback_id and i.user_id = auth.uid()
+    )
+  );
+
+-- Performance and XP (student_id is compared as text because demo rows use non-uuid ids), recorded when an
+-- interview is completed
+alter table public.student_performance enable row level security;
+
+create policy "Students read their own performance" on public.student_performance
+  for select using (student_id::text = auth.uid()::text);
+
+alter table public.student_xp enable row level security;
+
+create policy "Students read their own XP" on public.student_xp
+  for select using (student_id::text = auth.uid()::text);
+
+-- Company catalogue: readable by any signed-in user, question banks editable by the recruiter who uploaded them
+alter table public.companies enable row level security;
+
+create policy "Signed-in users read companies" on public.companies
+  for select to authenticated using (true);
+
+alter table public.company_rubrics enable row level security;
+
+create policy "Signed-in users read company rubrics" on public.company_rubrics
+  for select to authenticated using (true);
+
+alter table public.company_questions enable row level security;
+
+create policy "Signed-in users read company questions" on public.company_questions
+  for select to authenticated using (true);
+
+create policy "Recruiters add their own questions" on public.company_questions
+  for insert to authenticated with check (recruiter_id = auth.uid());
+
+create policy "Recruiters edit their own questions" on public.company_questions
+  for update to authenticated using (recruiter_id = auth.uid()) with check (recruiter_id = auth.uid());
+
+create policy "Recruiters delete their own questions" on public.company_questions
+  for delete to authenticated using (recruiter_id = auth.uid());
+
+alter table public.question_uploads enable row level security;
+
+create policy "Recruiters manage their own uploads" on public.question_uploads
+  for all using (recruiter_id = auth.uid()) with check (recruiter_id = auth.uid());
@@ -0,0 +1,48 @@
+-- Recordings were served from a public bucket, so anyone with a URL could play them.
+-- Make the bucket private; the results page hands out short-lived signed URLs instead.
+-- Objects are stored as interviews/<interview id>/..., and only the interview's owner may touch them.
+update storage.buckets set public = false where id = 'responses';
+
+create policy "Users upload recordings for their interviews" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'responses'
+    and (storage.foldername(name))[1] = 'interviews'
+    and exists (
+      select 1 from public.interviews i
+      where i.id::text = (storage.foldername(name))[2] and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Users read recordings for their interviews" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'responses'
+    and (storage.foldername(name))[1] = 'interviews'
+    and exists (
+      select 1 from public.interviews i
+      where i.id::text = (storage.foldername(name))[2] and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Users replace recordings for their interviews" on storage.objects
+  for update to authenticated
+  using (
+    bucket_id = 'responses'
+    and (storage.foldername(name))[1] = 'interviews'
+    and exists (
+      select 1 from public.interviews i
+      where i.id::text = (storage.foldername(name))[2] and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Users delete recordings for their interviews" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'responses'
+    and (storage.foldername(name))[1] = 'interviews'
+    and exists (
+      select 1 from public.interviews i
+      where i.id::text = (storage.foldername(name))[2] and i.user_id = auth.uid()
+    )
+  );
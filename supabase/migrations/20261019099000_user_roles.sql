@@ -0,0 +1,97 @@
+-- Roles: students practice, recruiters manage their companies' question banks, institution admins manage people
+alter table public.profiles
+  add column if not exists email text,
+  add column if not exists role text not null default 'student' check (role in ('student', 'recruiter', 'admin'));
+
+-- Every auth user gets a profile; existing users are backfilled as students
+insert into public.profiles (id, email)
+select id, email from auth.users
+on conflict (id) do update set email = excluded.email;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'full_name')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Read the caller's role without tripping over the profiles policies
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid()
+$$;
+
+-- Users may edit their own profile but not promote themselves
+create or replace function public.prevent_role_self_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role and coalesce(public.current_user_role(), '') <> 'admin'
+    and auth.role() <> 'service_role' then
+    raise exception 'Only an admin can change roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_role_guard on public.profiles;
+create trigger profiles_role_guard
+  before update on public.profiles
+  for each row execute function public.prevent_role_self_change();
+
+create policy "Admins read all profiles" on public.profiles
+  for select using (public.current_user_role() = 'admin');
+
+create policy "Admins update all profiles" on public.profiles
+  for update using (public.current_user_role() = 'admin');
+
+-- Which companies each recruiter manages questions for
+create table if not exists public.company_recruiters (
+  company_id uuid not null references public.companies (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (company_id, user_id)
+);
+
+alter table public.company_recruiters enable row level security;
+
+create policy "Recruiters see their own assignments" on public.company_recruiters
+  for select using (user_id = auth.uid() or public.current_user_role() = 'admin');
+
+create policy "Admins manage assignments" on public.company_recruiters
+  for all using (public.current_user_role() = 'admin') with check (public.current_user_role() = 'admin');
+
+-- Only recruiters assigned to the company (or admins) may add to its question bank
+drop policy if exists "Recruiters add their own questions" on public.company_questions;
+
+create policy "Recruiters add questions for their companies" on public.company_questions
+  for insert to authenticated
+  with check (
+    recruiter_id = auth.uid()
+    and (
+      public.current_user_role() = 'admin'
+      or (
+        public.current_user_role() = 'recruiter'
+        and exists (
+          select 1 from public.company_recruiters cr
+          where cr.company_id = company_questions.company_id and cr.user_id = auth.uid()
+        )
+      )
+    )
+  );
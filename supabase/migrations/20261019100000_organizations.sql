@@ -0,0 +1,252 @@
+-- Organizations (a college placement cell or a hiring team) with their own members, company catalogs
+-- and question banks. Each user belongs to at most one organization.
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  join_code text not null unique,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles
+  add column if not exists organization_id uuid references public.organizations (id) on delete set null;
+
+create index if not exists profiles_organization_idx on public.profiles (organization_id);
+
+-- Email invitations; accepting one joins the organization with the invited role
+create table if not exists public.organization_invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null default 'student' check (role in ('student', 'recruiter', 'admin')),
+  token uuid not null unique default gen_random_uuid(),
+  invited_by uuid references auth.users (id) on delete set null,
+  accepted_at timestamptz,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists organization_invitations_email_idx on public.organization_invitations (lower(email));
+
+-- A null organization keeps a company in the shared catalog every organization can see
+alter table public.companies
+  add column if not exists organization_id uuid references public.organizations (id) on delete cascade;
+
+-- Questions are private to their organization unless shared. Everything uploaded so far was global, so it stays public.
+alter table public.company_questions
+  add column if not exists organization_id uuid references public.organizations (id) on delete cascade,
+  add column if not exists visibility text not null default 'private' check (visibility in ('private', 'public'));
+
+update public.company_questions set visibility = 'public' where organization_id is null;
+
+create index if not exists company_questions_organization_idx on public.company_questions (organization_id);
+
+create or replace function public.current_user_organization()
+returns uuid
+language sql
+stable
+security definer set search_path = public
+as $$
+  select organization_id from public.profiles where id = auth.uid()
+$$;
+
+-- Joining and leaving go through the service role (join codes, invitations, creating an organization).
+-- Nobody else may change their own organization, and an admin may only take people out of their own
+-- organization, never move anyone into another one.
+create or replace function public.prevent_organization_self_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.organization_id is not distinct from old.organization_id or auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if new.id = auth.uid() then
+    raise exception 'You cannot change your own organization';
+  end if;
+
+  if coalesce(public.current_user_role(), '') <> 'admin'
+    or old.organization_id is distinct from public.current_user_organization()
+    or new.organization_id is not null then
+    raise exception 'Admins can only remove members of their own organization';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_organization_guard on public.profiles;
+create trigger profiles_organization_guard
+  before update on public.profiles
+  for each row execute function public.prevent_organization_self_change();
+
+-- As with invitations, only the organization's owner makes someone an admin
+create or replace function public.prevent_role_self_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is not distinct from old.role or auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if coalesce(public.current_user_role(), '') <> 'admin' then
+    raise exception 'Only an admin can change roles';
+  end if;
+
+  if new.role = 'admin' and not exists (
+    select 1 from public.organizations o
+    where o.id = public.current_user_organization() and o.created_by = auth.uid()
+  ) then
+    raise exception 'Only the organization''s owner can make someone an admin';
+  end if;
+  return new;
+end;
+$$;
+
+alter table public.organizations enable row level security;
+
+create policy "Members read their organization" on public.organizations
+  for select using (id = public.current_user_organization());
+
+create policy "Admins update their organization" on public.organizations
+  for update using (id = public.current_user_organization() and public.current_user_role() = 'admin');
+
+alter table public.organization_invitations enable row level security;
+
+-- Only the organization's owner (the admin who created it) may invite further admins
+create policy "Admins manage their organization's invitations" on public.organization_invitations
+  for all
+  using (organization_id = public.current_user_organization() and public.current_user_role() = 'admin')
+  with check (
+    organization_id = public.current_user_organization()
+    and public.current_user_role() = 'admin'
+    and invited_by = auth.uid()
+    and (
+      role <> 'admin'
+      or exists (
+        select 1 from public.organizations o
+        where o.id = organization_invitations.organization_id and o.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Admins only see people in their own organization
+drop policy if exists "Admins read all profiles" on public.profiles;
+drop policy if exists "Admins update all profiles" on public.profiles;
+
+create policy "Admins read their organization's profiles" on public.profiles
+  for select using (public.current_user_role() = 'admin' and organization_id = public.current_user_organization());
+
+create policy "Admins update their organization's profiles" on public.profiles
+  for update using (public.current_user_role() = 'admin' and organization_id = public.current_user_organization());
+
+-- Assignments are scoped too: both the company and the recruiter must be in the admin's organization,
+-- otherwise an admin could grant themselves or anyone else insert rights on another organization's bank
+drop policy if exists "Recruiters see their own assignments" on public.company_recruiters;
+drop policy if exists "Admins manage assignments" on public.company_recruiters;
+
+create policy "Recruiters see their own assignments" on public.company_recruiters
+  for select using (
+    user_id = auth.uid()
+    or (
+      public.current_user_role() = 'admin'
+      and exists (
+        select 1 from public.profiles p
+        where p.id = company_recruiters.user_id and p.organization_id = public.current_user_organization()
+      )
+    )
+  );
+
+create policy "Admins manage assignments" on public.company_recruiters
+  for all
+  using (
+    public.current_user_role() = 'admin'
+    and exists (
+      select 1 from public.companies c
+      where c.id = company_recruiters.company_id and c.organization_id = public.current_user_organization()
+    )
+    and exists (
+      select 1 from public.profiles p
+      where p.id = company_recruiters.user_id and p.organization_id = public.current_user_organization()
+    )
+  );
+
+-- Rubric choices are set by admins for their own organization's companies; shared catalog companies keep
+-- the question type defaults, since one organization's choice would change grading for everyone
+create policy "Admins manage their organization's company rubrics" on public.company_rubrics
+  for all
+  using (
+    public.current_user_role() = 'admin'
+    and exists (
+      select 1 from public.companies c
+      where c.id = company_rubrics.company_id and c.organization_id = public.current_user_organization()
+    )
+  );
+
+-- Admins add companies to their own organization's catalog; the shared catalog is managed with the service role
+create policy "Admins add companies to their organization" on public.companies
+  for insert to authenticated
+  with check (public.current_user_role() = 'admin' and organization_id = public.current_user_organization());
+
+-- Including their tests' time limits; a company can't be moved out of the organization
+create policy "Admins edit their organization's companies" on public.companies
+  for update to authenticated
+  using (public.current_user_role() = 'admin' and organization_id = public.current_user_organization())
+  with check (public.current_user_role() = 'admin' and organization_id = public.current_user_organization());
+
+drop policy if exists "Signed-in users read companies" on public.companies;
+
+create policy "Users read shared companies and their organization's" on public.companies
+  for select to authenticated
+  using (organization_id is null or organization_id = public.current_user_organization());
+
+drop policy if exists "Signed-in users read company questions" on public.company_questions;
+
+-- Bank rows carry the model answers, key points and red flags answers are graded against, so only recruiters
+-- and admins read them directly. Students get the questions through server actions that leave those out.
+create policy "Recruiters read public questions and their organization's" on public.company_questions
+  for select to authenticated
+  using (
+    public.current_user_role() in ('recruiter', 'admin')
+    and (visibility = 'public' or organization_id = public.current_user_organization())
+  );
+
+-- Edits stay inside the recruiter's organization: a question can't be moved into another organization's bank,
+-- and a recruiter who has left an organization can no longer change the questions they wrote for it
+drop policy if exists "Recruiters edit their own questions" on public.company_questions;
+drop policy if exists "Recruiters delete their own questions" on public.company_questions;
+
+create policy "Recruiters edit their own questions" on public.company_questions
+  for update to authenticated
+  using (
+    recruiter_id = auth.uid() and organization_id is not distinct from public.current_user_organization()
+  )
+  with check (
+    recruiter_id = auth.uid() and organization_id is not distinct from public.current_user_organization()
+  );
+
+create policy "Recruiters delete their own questions" on public.company_questions
+  for delete to authenticated
+  using (
+    recruiter_id = auth.uid() and organization_id is not distinct from public.current_user_organization()
+  );
+
+drop policy if exists "Recruiters add questions for their companies" on public.company_questions;
+
+create policy "Recruiters add questions for their companies" on public.company_questions
+  for insert to authenticated
+  with check (
+    recruiter_id = auth.uid()
+    and organization_id is not distinct from public.current_user_organization()
+    and (
+      public.current_user_role() = 'admin'
+      or (
+        public.current_user_role() = 'recruiter'
+        and exists (
+          select 1 from public.company_recruiters cr
+          where cr.company_id = company_questions.company_id and cr.user_id = auth.uid()
+        )
+      )
+    )
+  );
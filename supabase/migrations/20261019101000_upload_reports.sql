@@ -0,0 +1,4 @@
+-- Row-level outcome of each question upload: the column mapping used, rows rejected by validation or
+-- skipped in the preview, and values that were normalized (see UploadReport in lib/file-parsers)
+alter table public.question_uploads
+  add column if not exists report jsonb;
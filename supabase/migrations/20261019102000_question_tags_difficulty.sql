@@ -0,0 +1,4 @@
+-- Optional metadata imported from question files
+alter table public.company_questions
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists difficulty text check (difficulty in ('easy', 'medium', 'hard'));
@@ -0,0 +1,25 @@
+-- Pairs a recruiter reviewed and decided are different questions, so they aren't offered for merging again
+create table if not exists public.question_duplicate_dismissals (
+  question_id uuid not null references public.company_questions (id) on delete cascade,
+  other_question_id uuid not null references public.company_questions (id) on delete cascade,
+  dismissed_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  primary key (question_id, other_question_id),
+  check (question_id < other_question_id)
+);
+
+alter table public.question_duplicate_dismissals enable row level security;
+
+-- Visible and writable for anyone who can see both questions (company_questions policies apply in the subquery)
+create policy "Recruiters manage duplicate dismissals for visible questions" on public.question_duplicate_dismissals
+  for all to authenticated
+  using (
+    public.current_user_role() in ('recruiter', 'admin')
+    and exists (select 1 from public.company_questions q where q.id = question_id)
+    and exists (select 1 from public.company_questions q where q.id = other_question_id)
+  )
+  with check (
+    public.current_user_role() in ('recruiter', 'admin')
+    and exists (select 1 from public.company_questions q where q.id = question_id)
+    and exists (select 1 from public.company_questions q where q.id = other_question_id)
+  );
@@ -0,0 +1,78 @@
+-- Link imported questions to the upload that created them, so a batch can be reviewed, rolled back
+-- or re-run as a unit. import_request keeps the reviewed rows the batch was imported from.
+alter table public.company_questions
+  add column if not exists upload_id uuid references public.question_uploads (id) on delete set null;
+
+create index if not exists company_questions_upload_idx on public.company_questions (upload_id);
+
+alter table public.question_uploads
+  add column if not exists import_request jsonb;
+
+alter table public.question_uploads drop constraint if exists question_uploads_upload_status_check;
+alter table public.question_uploads
+  add constraint question_uploads_upload_status_check
+  check (upload_status in ('processing', 'completed', 'failed', 'rolled_back'));
+
+-- Both functions run as the caller, so row-level security decides which uploads and questions they touch
+
+create or replace function public.rollback_question_upload(p_upload_id uuid)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  removed integer;
+begin
+  perform 1 from public.question_uploads where id = p_upload_id and recruiter_id = auth.uid() for update;
+  if not found then
+    raise exception 'Upload not found';
+  end if;
+
+  delete from public.company_questions where upload_id = p_upload_id;
+  get diagnostics removed = row_count;
+
+  update public.question_uploads
+    set upload_status = 'rolled_back', questions_count = 0
+    where id = p_upload_id;
+
+  return removed;
+end;
+$$;
+
+create or replace function public.rerun_question_upload(p_upload_id uuid, p_questions jsonb, p_report jsonb)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  inserted integer;
+begin
+  perform 1 from public.question_uploads where id = p_upload_id and recruiter_id = auth.uid() for update;
+  if not found then
+    raise exception 'Upload not found';
+  end if;
+
+  delete from public.company_questions where upload_id = p_upload_id;
+
+  -- Reading the rows as the table's own row type converts each field to its column type
+  insert into public.company_questions (
+    question_text, question_type, experience_level, order_number, model_answer, key_points, red_flags,
+    tags, difficulty, company_id, organization_id, visibility, recruiter_id, upload_id
+  )
+  select
+    q.question_text, q.question_type, q.experience_level, q.order_number, q.model_answer,
+    coalesce(q.key_points, '{}'), coalesce(q.red_flags, '{}'), coalesce(q.tags, '{}'), q.difficulty,
+    q.company_id, q.organization_id, q.visibility, auth.uid(), p_upload_id
+  from jsonb_populate_recordset(null::public.company_questions, p_questions) as q;
+  get diagnostics inserted = row_count;
+
+  update public.question_uploads
+    set upload_status = 'completed', questions_count = inserted, report = p_report
+    where id = p_upload_id;
+
+  return inserted;
+end;
+$$;
+
+grant execute on function public.rollback_question_upload(uuid) to authenticated;
+grant execute on function public.rerun_question_upload(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,93 @@
+-- Versioned company questions. Every change to what a student sees or is graded against bumps
+-- company_questions.version and snapshots the new content into company_question_versions, and
+-- interview questions record which question and version they were copied from.
+alter table public.company_questions
+  add column if not exists version integer not null default 1;
+
+create table if not exists public.company_question_versions (
+  id uuid primary key default gen_random_uuid(),
+  company_question_id uuid not null references public.company_questions (id) on delete cascade,
+  version integer not null,
+  question_text text not null,
+  question_type text,
+  experience_level text not null,
+  model_answer text,
+  key_points text[],
+  red_flags text[],
+  tags text[] not null default '{}',
+  difficulty text,
+  edited_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  unique (company_question_id, version)
+);
+
+alter table public.company_question_versions enable row level security;
+
+-- Anyone who can see the question can see its history; rows are only written by the trigger below
+create policy "Users read the history of questions they can see" on public.company_question_versions
+  for select to authenticated
+  using (exists (select 1 from public.company_questions q where q.id = company_question_id));
+
+create or replace function public.bump_company_question_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- An empty list and no list are the same content, so re-saving an unchanged question doesn't bump it
+  if (new.question_text, new.question_type, new.experience_level, new.model_answer,
+      coalesce(new.key_points, '{}'), coalesce(new.red_flags, '{}'), new.tags, new.difficulty)
+     is distinct from
+     (old.question_text, old.question_type, old.experience_level, old.model_answer,
+      coalesce(old.key_points, '{}'), coalesce(old.red_flags, '{}'), old.tags, old.difficulty) then
+    new.version := old.version + 1;
+  end if;
+  return new;
+end;
+$$;
+
+-- Security definer so the snapshot is written whoever made the edit, without a write policy on the history
+create or replace function public.snapshot_company_question_version()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.version <> old.version then
+    insert into public.company_question_versions (
+      company_question_id, version, question_text, question_type, experience_level, model_answer,
+      key_points, red_flags, tags, difficulty, edited_by
+    ) values (
+      new.id, new.version, new.question_text, new.question_type, new.experience_level, new.model_answer,
+      new.key_points, new.red_flags, new.tags, new.difficulty, auth.uid()
+    )
+    on conflict (company_question_id, version) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists company_questions_bump_version on public.company_questions;
+create trigger company_questions_bump_version
+  before update on public.company_questions
+  for each row execute function public.bump_company_question_version();
+
+drop trigger if exists company_questions_snapshot_version on public.company_questions;
+create trigger company_questions_snapshot_version
+  after insert or update on public.company_questions
+  for each row execute function public.snapshot_company_question_version();
+
+-- Existing questions start their history at version 1
+insert into public.company_question_versions (
+  company_question_id, version, question_text, question_type, experience_level, model_answer,
+  key_points, red_flags, tags, difficulty, edited_by, created_at
+)
+select id, version, question_text, question_type, experience_level, model_answer,
+  key_points, red_flags, tags, difficulty, recruiter_id, coalesce(updated_at, created_at)
+from public.company_questions
+on conflict (company_question_id, version) do nothing;
+
+alter table public.questions
+  add column if not exists source_company_question_id uuid references public.company_questions (id) on delete set null,
+  add column if not exists source_company_question_version integer;
+
+create index if not exists questions_source_company_question_idx on public.questions (source_company_question_id);
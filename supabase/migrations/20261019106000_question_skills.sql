@@ -0,0 +1,97 @@
+-- Skills from the curated taxonomy in lib/skills.ts, alongside the free-form tags. Interview questions
+-- carry both so results can be rolled up by skill.
+alter table public.company_questions
+  add column if not exists skills text[] not null default '{}';
+
+alter table public.questions
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists skills text[] not null default '{}';
+
+create index if not exists company_questions_tags_idx on public.company_questions using gin (tags);
+create index if not exists company_questions_skills_idx on public.company_questions using gin (skills);
+create index if not exists questions_skills_idx on public.questions using gin (skills);
+
+-- Interview questions copied from the bank before this migration take the bank question's tags. Bank skills
+-- start empty in this migration too, so there are none to copy yet.
+update public.questions q
+set tags = cq.tags
+from public.company_questions cq
+where q.source_company_question_id = cq.id;
+
+-- Skills are part of a question's history like its tags
+alter table public.company_question_versions
+  add column if not exists skills text[] not null default '{}';
+
+create or replace function public.bump_company_question_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- An empty list and no list are the same content, so re-saving an unchanged question doesn't bump it
+  if (new.question_text, new.question_type, new.experience_level, new.model_answer,
+      coalesce(new.key_points, '{}'), coalesce(new.red_flags, '{}'), new.tags, new.skills, new.difficulty)
+     is distinct from
+     (old.question_text, old.question_type, old.experience_level, old.model_answer,
+      coalesce(old.key_points, '{}'), coalesce(old.red_flags, '{}'), old.tags, old.skills, old.difficulty) then
+    new.version := old.version + 1;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.snapshot_company_question_version()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.version <> old.version then
+    insert into public.company_question_versions (
+      company_question_id, version, question_text, question_type, experience_level, model_answer,
+      key_points, red_flags, tags, skills, difficulty, edited_by
+    ) values (
+      new.id, new.version, new.question_text, new.question_type, new.experience_level, new.model_answer,
+      new.key_points, new.red_flags, new.tags, new.skills, new.difficulty, auth.uid()
+    )
+    on conflict (company_question_id, version) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+-- Re-running an upload must keep the skills the reviewed rows were mapped to
+create or replace function public.rerun_question_upload(p_upload_id uuid, p_questions jsonb, p_report jsonb)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  inserted integer;
+begin
+  perform 1 from public.question_uploads where id = p_upload_id and recruiter_id = auth.uid() for update;
+  if not found then
+    raise exception 'Upload not found';
+  end if;
+
+  delete from public.company_questions where upload_id = p_upload_id;
+
+  -- Reading the rows as the table's own row type converts each field to its column type
+  insert into public.company_questions (
+    question_text, question_type, experience_level, order_number, model_answer, key_points, red_flags,
+    tags, skills, difficulty, company_id, organization_id, visibility, recruiter_id, upload_id
+  )
+  select
+    q.question_text, q.question_type, q.experience_level, q.order_number, q.model_answer,
+    coalesce(q.key_points, '{}'), coalesce(q.red_flags, '{}'), coalesce(q.tags, '{}'),
+    coalesce(q.skills, '{}'), q.difficulty,
+    q.company_id, q.organization_id, q.visibility, auth.uid(), p_upload_id
+  from jsonb_populate_recordset(null::public.company_questions, p_questions) as q;
+  get diagnostics inserted = row_count;
+
+  update public.question_uploads
+    set upload_status = 'completed', questions_count = inserted, report = p_report
+    where id = p_upload_id;
+
+  return inserted;
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Voice analytics measured in the browser while an answer was recorded (loudness and pitch timelines,
+-- pauses), plus the speaking rate worked out from the transcript. See lib/voice-analysis.ts for the shape.
+alter table public.responses
+  add column if not exists voice_analysis jsonb;
@@ -0,0 +1,4 @@
+-- Delivery habits counted from the final transcript of each answer: filler words, hedging, repeated
+-- starts and pacing. See lib/delivery-analysis.ts for the shape.
+alter table public.responses
+  add column if not exists delivery_metrics jsonb;
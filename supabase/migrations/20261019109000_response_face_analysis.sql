@@ -0,0 +1,4 @@
+-- Camera presence measured in the browser during a video answer: face in frame, eye contact, head
+-- movement, framing and lighting, or why it couldn't be measured. See lib/face-analysis.ts for the shape.
+alter table public.responses
+  add column if not exists face_analysis jsonb;
@@ -1,13 +1,90 @@
+import type { DeliveryMetrics } from "@/lib/delivery-analysis"
+import type { FaceAnalysis } from "@/lib/face-analysis"
+import type { QuestionImport, UploadReport } from "@/lib/file-parsers/questions"
+import type { TranscriptWord } from "@/lib/transcription/types"
+import type { VoiceAnalysis } from "@/lib/voice-analysis"
+
 export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          join_code: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          join_code: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          join_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      organization_invitations: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: "student" | "recruiter" | "admin"
+          token: string
+          invited_by: string | null
+          accepted_at: string | null
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role?: "student" | "recruiter" | "admin"
+          token?: string
+          invited_by?: string | null
+          accepted_at?: string | null
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: "student" | "recruiter" | "admin"
+          token?: string
+          invited_by?: string | null
+          accepted_at?: string | null
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           id: string
           full_name: string | null
           avatar_url: string | null
+          email: string | null
+          role: "student" | "recruiter" | "admin"
+          organization_id: string | null
           created_at: string
           updated_at: string
         }
@@ -15,6 +92,9 @@ export interface Database {
           id: string
           full_name?: string | null
           avatar_url?: string | null
+          email?: string | null
+          role?: "student" | "recruiter" | "admin"
+          organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -22,9 +102,21 @@ export interface Database {
           id?: string
           full_name?: string | null
           avatar_url?: string | null
+          email?: string | null
+          role?: "student" | "recruiter" | "admin"
+          organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       interviews: {
         Row: {
@@ -36,6 +128,13 @@ export interface Database {
           difficulty: "beginner" | "intermediate" | "advanced" | null
           company_id: string | null
           experience_level: "fresher" | "1-3-years" | "3-plus-years" | null
+          adaptive: boolean
+          answer_time_limit_seconds: number | null
+          prep_time_seconds: number | null
+          time_limit_minutes: number | null
+          started_at: string | null
+          deadline_at: string | null
+          last_activity_at: string | null
           created_at: string
           completed_at: string | null
           status: "in_progress" | "completed" | "abandoned"
@@ -49,6 +148,13 @@ export interface Database {
           difficulty?: "beginner" | "intermediate" | "advanced" | null
           company_id?: string | null
           experience_level?: "fresher" | "1-3-years" | "3-plus-years" | null
+          adaptive?: boolean
+          answer_time_limit_seconds?: number | null
+          prep_time_seconds?: number | null
+          time_limit_minutes?: number | null
+          started_at?: string | null
+          deadline_at?: string | null
+          last_activity_at?: string | null
           created_at?: string
           completed_at?: string | null
           status?: "in_progress" | "completed" | "abandoned"
@@ -62,10 +168,26 @@ export interface Database {
           difficulty?: "beginner" | "intermediate" | "advanced" | null
           company_id?: string | null
           experience_level?: "fresher" | "1-3-years" | "3-plus-years" | null
+          adaptive?: boolean
+          answer_time_limit_seconds?: number | null
+          prep_time_seconds?: number | null
+          time_limit_minutes?: number | null
+          started_at?: string | null
+          deadline_at?: string | null
+          last_activity_at?: string | null
           created_at?: string
           completed_at?: string | null
           status?: "in_progress" | "completed" | "abandoned"
         }
+        Relationships: [
+          {
+            foreignKeyName: "interviews_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       questions: {
         Row: {
@@ -74,6 +196,12 @@ export interface Database {
           question_text: string
           question_type: "behavioral" | "technical" | "situational" | "general" | null
           order_number: number
+          parent_question_id: string | null
+          started_at: string | null
+          source_company_question_id: string | null
+          source_company_question_version: number | null
+          tags: string[]
+          skills: string[]
           created_at: string
         }
         Insert: {
@@ -82,6 +210,12 @@ export interface Database {
           question_text: string
           question_type?: "behavioral" | "technical" | "situational" | "general" | null
           order_number: number
+          parent_question_id?: string | null
+          started_at?: string | null
+          source_company_question_id?: string | null
+          source_company_question_version?: number | null
+          tags?: string[]
+          skills?: string[]
           created_at?: string
         }
         Update: {
@@ -90,8 +224,37 @@ export interface Database {
           question_text?: string
           question_type?: "behavioral" | "technical" | "situational" | "general" | null
           order_number?: number
+          parent_question_id?: string | null
+          started_at?: string | null
+          source_company_question_id?: string | null
+          source_company_question_version?: number | null
+          tags?: string[]
+          skills?: string[]
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "questions_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_parent_question_id_fkey"
+            columns: ["parent_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_source_company_question_id_fkey"
+            columns: ["source_company_question_id"]
+            isOneToOne: false
+            referencedRelation: "company_questions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       responses: {
         Row: {
@@ -100,6 +263,14 @@ export interface Database {
           response_type: "text" | "video" | "audio"
           response_text: string | null
           media_url: string | null
+          transcript_words: TranscriptWord[] | null
+          transcription_status: "pending" | "completed" | "transcription_failed" | null
+          transcription_error: string | null
+          time_spent_seconds: number | null
+          over_time_limit: boolean
+          voice_analysis: VoiceAnalysis | null
+          delivery_metrics: DeliveryMetrics | null
+          face_analysis: FaceAnalysis | null
           created_at: string
         }
         Insert: {
@@ -108,6 +279,14 @@ export interface Database {
           response_type: "text" | "video" | "audio"
           response_text?: string | null
           media_url?: string | null
+          transcript_words?: TranscriptWord[] | null
+          transcription_status?: "pending" | "completed" | "transcription_failed" | null
+          transcription_error?: string | null
+          time_spent_seconds?: number | null
+          over_time_limit?: boolean
+          voice_analysis?: VoiceAnalysis | null
+          delivery_metrics?: DeliveryMetrics | null
+          face_analysis?: FaceAnalysis | null
           created_at?: string
         }
         Update: {
@@ -116,8 +295,25 @@ export interface Database {
           response_type?: "text" | "video" | "audio"
           response_text?: string | null
           media_url?: string | null
+          transcript_words?: TranscriptWord[] | null
+          transcription_status?: "pending" | "completed" | "transcription_failed" | null
+          transcription_error?: string | null
+          time_spent_seconds?: number | null
+          over_time_limit?: boolean
+          voice_analysis?: VoiceAnalysis | null
+          delivery_metrics?: DeliveryMetrics | null
+          face_analysis?: FaceAnalysis | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "responses_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       feedback: {
         Row: {
@@ -127,6 +323,12 @@ export interface Database {
           improvement_areas: string[] | null
           strengths: string[] | null
           confidence_score: number | null
+          rubric_id: string | null
+          key_points_covered: string[] | null
+          key_points_missed: string[] | null
+          red_flags_triggered: string[] | null
+          analysis_status: "completed" | "unavailable"
+          analysis_error: string | null
           created_at: string
         }
         Insert: {
@@ -136,6 +338,12 @@ export interface Database {
           improvement_areas?: string[] | null
           strengths?: string[] | null
           confidence_score?: number | null
+          rubric_id?: string | null
+          key_points_covered?: string[] | null
+          key_points_missed?: string[] | null
+          red_flags_triggered?: string[] | null
+          analysis_status?: "completed" | "unavailable"
+          analysis_error?: string | null
           created_at?: string
         }
         Update: {
@@ -145,8 +353,61 @@ export interface Database {
           improvement_areas?: string[] | null
           strengths?: string[] | null
           confidence_score?: number | null
+          rubric_id?: string | null
+          key_points_covered?: string[] | null
+          key_points_missed?: string[] | null
+          red_flags_triggered?: string[] | null
+          analysis_status?: "completed" | "unavailable"
+          analysis_error?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_response_id_fkey"
+            columns: ["response_id"]
+            isOneToOne: false
+            referencedRelation: "responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_scores: {
+        Row: {
+          id: string
+          feedback_id: string
+          rubric_id: string
+          dimension: string
+          score: number
+          justification: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          feedback_id: string
+          rubric_id: string
+          dimension: string
+          score: number
+          justification?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          feedback_id?: string
+          rubric_id?: string
+          dimension?: string
+          score?: number
+          justification?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_scores_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       companies: {
         Row: {
@@ -155,6 +416,10 @@ export interface Database {
           description: string | null
           logo_url: string | null
           industry: string | null
+          answer_time_limit_seconds: number | null
+          prep_time_seconds: number | null
+          time_limit_minutes: number | null
+          organization_id: string | null
           created_at: string
           updated_at: string
         }
@@ -164,6 +429,10 @@ export interface Database {
           description?: string | null
           logo_url?: string | null
           industry?: string | null
+          answer_time_limit_seconds?: number | null
+          prep_time_seconds?: number | null
+          time_limit_minutes?: number | null
+          organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -173,42 +442,401 @@ export interface Database {
           description?: string | null
           logo_url?: string | null
           industry?: string | null
+          answer_time_limit_seconds?: number | null
+          prep_time_seconds?: number | null
+          time_limit_minutes?: number | null
+          organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "companies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       company_questions: {
         Row: {
           id: string
-          company_id: string
+          company_id: string | null
+          recruiter_id: string | null
           question_text: string
           question_type: "behavioral" | "technical" | "situational" | "general" | null
           experience_level: "fresher" | "1-3-years" | "3-plus-years"
           order_number: number
+          model_answer: string | null
+          key_points: string[] | null
+          red_flags: string[] | null
+          organization_id: string | null
+          visibility: "private" | "public"
+          tags: string[]
+          difficulty: "easy" | "medium" | "hard" | null
+          upload_id: string | null
+          version: number
+          skills: string[]
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          company_id: string
+          company_id: string | null
+          recruiter_id?: string | null
           question_text: string
           question_type?: "behavioral" | "technical" | "situational" | "general" | null
           experience_level: "fresher" | "1-3-years" | "3-plus-years"
           order_number: number
+          model_answer?: string | null
+          key_points?: string[] | null
+          red_flags?: string[] | null
+          organization_id?: string | null
+          visibility?: "private" | "public"
+          tags?: string[]
+          difficulty?: "easy" | "medium" | "hard" | null
+          upload_id?: string | null
+          version?: number
+          skills?: string[]
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          company_id?: string
+          company_id?: string | null
+          recruiter_id?: string | null
           question_text?: string
           question_type?: "behavioral" | "technical" | "situational" | "general" | null
           experience_level?: "fresher" | "1-3-years" | "3-plus-years"
           order_number?: number
+          model_answer?: string | null
+          key_points?: string[] | null
+          red_flags?: string[] | null
+          organization_id?: string | null
+          visibility?: "private" | "public"
+          tags?: string[]
+          difficulty?: "easy" | "medium" | "hard" | null
+          upload_id?: string | null
+          version?: number
+          skills?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_questions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_questions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_questions_upload_id_fkey"
+            columns: ["upload_id"]
+            isOneToOne: false
+            referencedRelation: "question_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_duplicate_dismissals: {
+        Row: {
+          question_id: string
+          other_question_id: string
+          dismissed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          question_id: string
+          other_question_id: string
+          dismissed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          question_id?: string
+          other_question_id?: string
+          dismissed_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_duplicate_dismissals_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "company_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_duplicate_dismissals_other_question_id_fkey"
+            columns: ["other_question_id"]
+            isOneToOne: false
+            referencedRelation: "company_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_uploads: {
+        Row: {
+          id: string
+          recruiter_id: string
+          filename: string
+          file_type: string | null
+          questions_count: number
+          upload_status: "processing" | "completed" | "failed" | "rolled_back"
+          report: UploadReport | null
+          import_request: QuestionImport | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          recruiter_id: string
+          filename: string
+          file_type?: string | null
+          questions_count?: number
+          upload_status?: "processing" | "completed" | "failed" | "rolled_back"
+          report?: UploadReport | null
+          import_request?: QuestionImport | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          recruiter_id?: string
+          filename?: string
+          file_type?: string | null
+          questions_count?: number
+          upload_status?: "processing" | "completed" | "failed" | "rolled_back"
+          report?: UploadReport | null
+          import_request?: QuestionImport | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      company_question_versions: {
+        Row: {
+          id: string
+          company_question_id: string
+          version: number
+          question_text: string
+          question_type: "behavioral" | "technical" | "situational" | "general" | null
+          experience_level: "fresher" | "1-3-years" | "3-plus-years"
+          model_answer: string | null
+          key_points: string[] | null
+          red_flags: string[] | null
+          tags: string[]
+          difficulty: "easy" | "medium" | "hard" | null
+          edited_by: string | null
+          skills: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          company_question_id: string
+          version: number
+          question_text: string
+          question_type?: "behavioral" | "technical" | "situational" | "general" | null
+          experience_level: "fresher" | "1-3-years" | "3-plus-years"
+          model_answer?: string | null
+          key_points?: string[] | null
+          red_flags?: string[] | null
+          tags?: string[]
+          difficulty?: "easy" | "medium" | "hard" | null
+          edited_by?: string | null
+          skills?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          company_question_id?: string
+          version?: number
+          question_text?: string
+          question_type?: "behavioral" | "technical" | "situational" | "general" | null
+          experience_level?: "fresher" | "1-3-years" | "3-plus-years"
+          model_answer?: string | null
+          key_points?: string[] | null
+          red_flags?: string[] | null
+          tags?: string[]
+          difficulty?: "easy" | "medium" | "hard" | null
+          edited_by?: string | null
+          skills?: string[]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_question_versions_company_question_id_fkey"
+            columns: ["company_question_id"]
+            isOneToOne: false
+            referencedRelation: "company_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_recruiters: {
+        Row: {
+          company_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          company_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          company_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_recruiters_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_recruiters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_rubrics: {
+        Row: {
+          id: string
+          company_id: string
+          question_type: "behavioral" | "technical" | "situational" | "general" | null
+          rubric_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          question_type?: "behavioral" | "technical" | "situational" | "general" | null
+          rubric_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          question_type?: "behavioral" | "technical" | "situational" | "general" | null
+          rubric_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_rubrics_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_performance: {
+        Row: {
+          id: string
+          student_id: string
+          interview_id: string | null
+          question_id: string | null
+          score: number
+          feedback: string | null
+          xp_earned: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          interview_id?: string | null
+          question_id?: string | null
+          score: number
+          feedback?: string | null
+          xp_earned?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          interview_id?: string | null
+          question_id?: string | null
+          score?: number
+          feedback?: string | null
+          xp_earned?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_performance_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_performance_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_xp: {
+        Row: {
+          id: string
+          student_id: string
+          total_xp: number
+          level: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          total_xp?: number
+          level?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          total_xp?: number
+          level?: number
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      rollback_question_upload: {
+        Args: { p_upload_id: string }
+        Returns: number
+      }
+      rerun_question_upload: {
+        Args: { p_upload_id: string; p_questions: Json; p_report: UploadReport }
+        Returns: number
       }
     }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }